@@ -5,6 +5,12 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import RCAPage from "./pages/RCAPage";
+import AnalysesPage from "./pages/AnalysesPage";
+import LoginPage from "./pages/LoginPage";
+import ApprovalsPage from "./pages/ApprovalsPage";
+import SpendPage from "./pages/SpendPage";
+import UsersPage from "./pages/UsersPage";
+import { RequireAuth } from "./components/RequireAuth";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -16,8 +22,19 @@ const App = () => (
       <Sonner />
       <BrowserRouter>
         <Routes>
-          <Route path="/" element={<Index />} />
-          <Route path="/rca" element={<RCAPage />} />
+          <Route path="/login" element={<LoginPage />} />
+          <Route element={<RequireAuth />}>
+            <Route path="/" element={<Index />} />
+            <Route path="/rca" element={<RCAPage />} />
+            <Route path="/analyses" element={<AnalysesPage />} />
+          </Route>
+          <Route element={<RequireAuth minimumRole="approver" />}>
+            <Route path="/approvals" element={<ApprovalsPage />} />
+            <Route path="/spend" element={<SpendPage />} />
+          </Route>
+          <Route element={<RequireAuth minimumRole="admin" />}>
+            <Route path="/users" element={<UsersPage />} />
+          </Route>
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,36 @@
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { LOGIN_PATH } from '@/lib/api';
+import { hasRole } from '@/lib/roles';
+import type { UserRole } from '@/types/rca';
+
+interface RequireAuthProps {
+  // Signed-in users below this role are sent home; the server enforces the same check
+  minimumRole?: UserRole;
+}
+
+// Route guard for every page except login; remembers where the user was headed
+export function RequireAuth({ minimumRole }: RequireAuthProps) {
+  const { user, isLoading } = useAuth();
+  const location = useLocation();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    const next = encodeURIComponent(location.pathname + location.search);
+    return <Navigate to={`${LOGIN_PATH}?next=${next}`} replace />;
+  }
+
+  if (minimumRole && !hasRole(user.role, minimumRole)) {
+    return <Navigate to="/" replace />;
+  }
+
+  return <Outlet />;
+}
@@ -0,0 +1,62 @@
+import { Link, useNavigate } from 'react-router-dom';
+import { ClipboardCheck, DollarSign, LogOut, User, Users } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/hooks/useAuth';
+import { LOGIN_PATH } from '@/lib/api';
+import { hasRole, ROLE_LABELS } from '@/lib/roles';
+
+export function UserMenu() {
+  const { user, logout } = useAuth();
+  const navigate = useNavigate();
+
+  if (!user) return null;
+
+  const handleLogout = async () => {
+    try {
+      await logout();
+      navigate(LOGIN_PATH, { replace: true });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Sign out failed');
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      {hasRole(user.role, 'approver') && (
+        <Button variant="ghost" size="sm" asChild>
+          <Link to="/approvals">
+            <ClipboardCheck className="w-4 h-4 mr-2" />
+            Approvals
+          </Link>
+        </Button>
+      )}
+      {hasRole(user.role, 'approver') && (
+        <Button variant="ghost" size="sm" asChild>
+          <Link to="/spend">
+            <DollarSign className="w-4 h-4 mr-2" />
+            Spend
+          </Link>
+        </Button>
+      )}
+      {hasRole(user.role, 'admin') && (
+        <Button variant="ghost" size="sm" asChild>
+          <Link to="/users">
+            <Users className="w-4 h-4 mr-2" />
+            Users
+          </Link>
+        </Button>
+      )}
+      <span className="hidden sm:flex items-center gap-1 text-sm text-muted-foreground">
+        <User className="w-4 h-4" />
+        {user.username}
+        <Badge variant="secondary" className="ml-1">{ROLE_LABELS[user.role]}</Badge>
+      </span>
+      <Button variant="ghost" size="sm" onClick={handleLogout}>
+        <LogOut className="w-4 h-4 mr-2" />
+        Sign out
+      </Button>
+    </div>
+  );
+}
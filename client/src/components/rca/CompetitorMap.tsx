@@ -0,0 +1,180 @@
+import { useMemo, useState } from 'react';
+import { Minus, Plus, Map as MapIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { cn } from '@/lib/utils';
+import { hasCoordinates, projectMiles } from '@/lib/geo';
+import type { Store } from '@/types/rca';
+
+interface CompetitorMapProps {
+  subjectStore: Store;
+  competitors: Store[];
+  selected: Set<number>;
+  radius: number;
+  onToggle: (storeId: number) => void;
+}
+
+const ZOOM_LEVELS = [1, 1.5, 2, 3, 4, 6, 8];
+
+export function CompetitorMap({ subjectStore, competitors, selected, radius, onToggle }: CompetitorMapProps) {
+  const [zoomIndex, setZoomIndex] = useState(0);
+
+  const points = useMemo(() => {
+    if (!hasCoordinates(subjectStore)) return [];
+    return competitors.flatMap((store, index) =>
+      hasCoordinates(store) ? [{ store, index, ...projectMiles(subjectStore, store) }] : []
+    );
+  }, [subjectStore, competitors]);
+
+  const unmapped = competitors.length - points.length;
+
+  // Fit the radius ring and every plotted competitor, then apply the zoom level
+  const fitExtent = Math.max(radius, ...points.map((p) => Math.max(Math.abs(p.x), Math.abs(p.y)))) * 1.1 || 1;
+  const extent = fitExtent / ZOOM_LEVELS[zoomIndex];
+  const markerSize = extent * 0.035;
+
+  if (!hasCoordinates(subjectStore)) {
+    return (
+      <Card className="mb-6">
+        <CardContent className="p-6 text-sm text-muted-foreground flex items-center gap-2">
+          <MapIcon className="w-4 h-4" />
+          Map unavailable: the subject store has no coordinates.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-base flex items-center gap-2">
+              <MapIcon className="w-4 h-4" />
+              Competitor Map
+            </CardTitle>
+            <CardDescription>
+              Click a competitor to add or remove it. Dashed ring shows the {radius} mi search radius.
+              {unmapped > 0 && ` ${unmapped} competitor${unmapped !== 1 ? 's' : ''} without coordinates not shown.`}
+            </CardDescription>
+          </div>
+          <div className="flex gap-1">
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => setZoomIndex((i) => Math.max(0, i - 1))}
+              disabled={zoomIndex === 0}
+              aria-label="Zoom out"
+            >
+              <Minus className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => setZoomIndex((i) => Math.min(ZOOM_LEVELS.length - 1, i + 1))}
+              disabled={zoomIndex === ZOOM_LEVELS.length - 1}
+              aria-label="Zoom in"
+            >
+              <Plus className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <svg
+          viewBox={`${-extent} ${-extent} ${extent * 2} ${extent * 2}`}
+          className="w-full max-h-[420px] aspect-square rounded-md border bg-muted/30"
+          role="img"
+          aria-label="Map of subject store and competitors"
+        >
+          {/* Half-radius and radius rings */}
+          <circle r={radius / 2} className="fill-none stroke-border" strokeWidth={extent * 0.003} />
+          <circle
+            r={radius}
+            className="fill-primary/5 stroke-primary/60"
+            strokeWidth={extent * 0.005}
+            strokeDasharray={`${extent * 0.02} ${extent * 0.015}`}
+          />
+          <text
+            x={0}
+            y={-radius - extent * 0.015}
+            textAnchor="middle"
+            fontSize={extent * 0.04}
+            className="fill-muted-foreground"
+          >
+            {radius} mi
+          </text>
+
+          {/* Competitors; SVG y grows downward so north is negated */}
+          {points.map(({ store, index, x, y }) => {
+            const isSelected = selected.has(store.storeId);
+            return (
+              <g
+                key={store.storeId}
+                transform={`translate(${x} ${-y})`}
+                className="cursor-pointer"
+                role="button"
+                tabIndex={0}
+                aria-pressed={isSelected}
+                onClick={() => onToggle(store.storeId)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' || e.key === ' ') {
+                    e.preventDefault();
+                    onToggle(store.storeId);
+                  }
+                }}
+              >
+                <title>
+                  {`${index + 1}. ${store.storeName} – ${store.distance ?? 0} mi${isSelected ? ' (selected)' : ''}`}
+                </title>
+                <circle
+                  r={markerSize}
+                  className={cn(
+                    'stroke-background transition-colors',
+                    isSelected ? 'fill-primary' : 'fill-muted-foreground/50 hover:fill-muted-foreground'
+                  )}
+                  strokeWidth={markerSize * 0.2}
+                />
+                <text
+                  textAnchor="middle"
+                  dominantBaseline="central"
+                  fontSize={markerSize * 1.1}
+                  className={cn('pointer-events-none select-none', isSelected ? 'fill-primary-foreground' : 'fill-background')}
+                >
+                  {index + 1}
+                </text>
+              </g>
+            );
+          })}
+
+          {/* Subject store drawn last so it stays on top */}
+          <g>
+            <title>{`Subject: ${subjectStore.storeName}`}</title>
+            <rect
+              x={-markerSize}
+              y={-markerSize}
+              width={markerSize * 2}
+              height={markerSize * 2}
+              transform="rotate(45)"
+              className="fill-destructive stroke-background"
+              strokeWidth={markerSize * 0.2}
+            />
+          </g>
+        </svg>
+        <div className="flex items-center gap-4 mt-3 text-xs text-muted-foreground">
+          <span className="flex items-center gap-1.5">
+            <span className="w-2.5 h-2.5 rotate-45 bg-destructive" /> Subject store
+          </span>
+          <span className="flex items-center gap-1.5">
+            <span className="w-2.5 h-2.5 rounded-full bg-primary" /> Selected
+          </span>
+          <span className="flex items-center gap-1.5">
+            <span className="w-2.5 h-2.5 rounded-full bg-muted-foreground/50" /> Not selected
+          </span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
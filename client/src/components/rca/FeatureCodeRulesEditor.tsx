@@ -0,0 +1,150 @@
+import { ArrowDown, ArrowUp, Plus, RotateCcw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { DEFAULT_FEATURE_CODE_RULES, UNIT_FEATURES } from '@/lib/featureCodeClassifier';
+import type { FeatureCodeRule, UnitFeature } from '@/types/rca';
+
+interface FeatureCodeRulesEditorProps {
+  rules: FeatureCodeRule[];
+  onChange: (rules: FeatureCodeRule[]) => void;
+}
+
+type ConditionValue = 'any' | 'yes' | 'no';
+
+const toConditionValue = (value: boolean | undefined): ConditionValue =>
+  value === undefined ? 'any' : value ? 'yes' : 'no';
+
+export function FeatureCodeRulesEditor({ rules, onChange }: FeatureCodeRulesEditorProps) {
+  const updateRule = (index: number, rule: FeatureCodeRule) => {
+    onChange(rules.map((r, i) => (i === index ? rule : r)));
+  };
+
+  const setCondition = (index: number, feature: UnitFeature, value: ConditionValue) => {
+    const when = { ...rules[index].when };
+    if (value === 'any') {
+      delete when[feature];
+    } else {
+      when[feature] = value === 'yes';
+    }
+    updateRule(index, { ...rules[index], when });
+  };
+
+  const moveRule = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= rules.length) return;
+    const next = [...rules];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const addRule = () => {
+    onChange([...rules, { id: `rule-${Date.now()}`, code: '', when: {} }]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Rules are checked top to bottom and the first match assigns the code. Record flags are used first;
+        tag text fills in features the flags don't cover.
+      </p>
+      <div className="border rounded-md overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10">#</TableHead>
+              {UNIT_FEATURES.map(({ key, label }) => (
+                <TableHead key={key}>{label}</TableHead>
+              ))}
+              <TableHead>Code</TableHead>
+              <TableHead className="w-28" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rules.map((rule, index) => (
+              <TableRow key={rule.id}>
+                <TableCell className="text-muted-foreground">{index + 1}</TableCell>
+                {UNIT_FEATURES.map(({ key }) => (
+                  <TableCell key={key}>
+                    <Select
+                      value={toConditionValue(rule.when[key])}
+                      onValueChange={(value) => setCondition(index, key, value as ConditionValue)}
+                    >
+                      <SelectTrigger className="h-8 w-20">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="any">Any</SelectItem>
+                        <SelectItem value="yes">Yes</SelectItem>
+                        <SelectItem value="no">No</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                ))}
+                <TableCell>
+                  <Input
+                    value={rule.code}
+                    onChange={(e) => updateRule(index, { ...rule, code: e.target.value.toUpperCase() })}
+                    className="h-8 w-24 font-mono uppercase"
+                    maxLength={10}
+                  />
+                </TableCell>
+                <TableCell>
+                  <div className="flex gap-1 justify-end">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => moveRule(index, -1)}
+                      disabled={index === 0}
+                      aria-label="Move rule up"
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => moveRule(index, 1)}
+                      disabled={index === rules.length - 1}
+                      aria-label="Move rule down"
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => onChange(rules.filter((_, i) => i !== index))}
+                      aria-label="Delete rule"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={addRule}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Rule
+        </Button>
+        <Button variant="ghost" size="sm" onClick={() => onChange(DEFAULT_FEATURE_CODE_RULES)}>
+          <RotateCcw className="w-4 h-4 mr-2" />
+          Reset to Defaults
+        </Button>
+      </div>
+    </div>
+  );
+}
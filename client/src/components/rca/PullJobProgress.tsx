@@ -0,0 +1,57 @@
+import { CheckCircle2, Clock, CloudDownload, Loader2, XCircle } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import type { PullJob, PullJobStatus } from '@/types/rca';
+
+const STATUS_ICONS: Record<PullJobStatus, React.ReactNode> = {
+  queued: <Clock className="w-4 h-4 text-muted-foreground" />,
+  running: <Loader2 className="w-4 h-4 animate-spin text-primary" />,
+  completed: <CheckCircle2 className="w-4 h-4 text-emerald-600" />,
+  failed: <XCircle className="w-4 h-4 text-destructive" />,
+};
+
+// Worth showing while the pull runs, and afterwards only if some stores are missing
+const isWorthShowing = (job: PullJob | null): job is PullJob =>
+  !!job && (job.status === 'queued' || job.status === 'running' || job.stores.some((s) => s.status === 'failed'));
+
+// Live per-store status of the background StorTrack pull behind the rate data
+export function PullJobProgress({ job }: { job: PullJob | null }) {
+  if (!isWorthShowing(job)) return null;
+
+  const done = job.stores.filter((store) => store.status === 'completed' || store.status === 'failed').length;
+  const failed = job.stores.filter((store) => store.status === 'failed').length;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm flex items-center gap-2">
+          <CloudDownload className="w-4 h-4" />
+          StorTrack History
+        </CardTitle>
+        <CardDescription>
+          {done} of {job.stores.length} stores pulled
+          {failed > 0 && ` · ${failed} failed`}
+          {job.status === 'queued' && ' · waiting for other pulls to finish'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Progress value={(done / job.stores.length) * 100} className="h-2" />
+        <ul className="space-y-1.5 text-sm">
+          {job.stores.map((store) => (
+            <li key={store.storeId} className="flex items-center gap-2">
+              {STATUS_ICONS[store.status]}
+              <span className="truncate">{store.storeName || `Store ${store.storeId}`}</span>
+              <span className="ml-auto max-w-[50%] truncate text-muted-foreground" title={store.error}>
+                {store.status === 'completed'
+                  ? `${store.records} rates`
+                  : store.status === 'failed'
+                    ? store.error || 'Failed'
+                    : `${store.ranges.length} year${store.ranges.length !== 1 ? 's' : ''}`}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,164 @@
+import { useMemo } from 'react';
+import { Calculator } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { calculateRateRecommendations, RATE_ADJUSTMENT_PER_POINT } from '@/lib/rateRecommendation';
+import type {
+  AdjustmentFactors,
+  FeatureCode,
+  RateRecord,
+  Store,
+  StoreMetadata,
+  StoreRankings,
+} from '@/types/rca';
+
+interface RateRecommendationsProps {
+  subjectStore: Store;
+  selectedStores: Store[];
+  rateRecords: RateRecord[];
+  storeRankings: Record<number, StoreRankings>;
+  storeMetadata: Record<number, StoreMetadata>;
+  adjustmentFactors: AdjustmentFactors;
+  featureCodes: FeatureCode[];
+  customNames: Record<number, string>;
+}
+
+const formatCurrency = (value: number | null) => (value === null ? '-' : `$${value.toFixed(2)}`);
+
+const formatPct = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(1)}%`;
+
+export function RateRecommendations({
+  subjectStore,
+  selectedStores,
+  rateRecords,
+  storeRankings,
+  storeMetadata,
+  adjustmentFactors,
+  featureCodes,
+  customNames,
+}: RateRecommendationsProps) {
+  const recommendations = useMemo(
+    () =>
+      calculateRateRecommendations({
+        subjectStore,
+        stores: selectedStores,
+        rateRecords,
+        rankings: storeRankings,
+        metadata: storeMetadata,
+        adjustmentFactors,
+        featureCodes,
+        customNames,
+      }),
+    [subjectStore, selectedStores, rateRecords, storeRankings, storeMetadata, adjustmentFactors, featureCodes, customNames]
+  );
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Calculator className="w-5 h-5" />
+          Rate Recommendations
+        </CardTitle>
+        <CardDescription>
+          Competitor rates adjusted {RATE_ADJUSTMENT_PER_POINT}% per ranking point versus the subject,
+          weighted toward the most comparable stores, then adjusted by your factors
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {recommendations.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">
+            No competitor rate data available to build a recommendation.
+          </p>
+        ) : (
+          <Accordion type="multiple">
+            {recommendations.map((rec) => (
+              <AccordionItem key={`${rec.size}-${rec.featureCode}`} value={`${rec.size}-${rec.featureCode}`}>
+                <AccordionTrigger className="hover:no-underline">
+                  <div className="flex flex-1 items-center gap-3 pr-4 text-left">
+                    <span className="font-medium w-20">{rec.size}</span>
+                    <Badge variant="outline" className="text-xs">{rec.featureCode}</Badge>
+                    <span className="text-xs text-muted-foreground">
+                      {rec.competitors.length} comp{rec.competitors.length !== 1 ? 's' : ''}
+                    </span>
+                    <div className="ml-auto flex gap-6 text-sm">
+                      <div className="text-right">
+                        <div className="text-xs text-muted-foreground">Current</div>
+                        <div className="font-mono">{formatCurrency(rec.subjectWalkInRate)}</div>
+                      </div>
+                      <div className="text-right">
+                        <div className="text-xs text-muted-foreground">Recommended</div>
+                        <div className="font-mono font-semibold text-primary">
+                          {formatCurrency(rec.recommendedWalkInRate)}
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                </AccordionTrigger>
+                <AccordionContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Competitor</TableHead>
+                        <TableHead className="text-right">Score</TableHead>
+                        <TableHead className="text-right">Rank Adj.</TableHead>
+                        <TableHead className="text-right">Weight</TableHead>
+                        <TableHead className="text-right">Walk-in</TableHead>
+                        <TableHead className="text-right">Adj. Walk-in</TableHead>
+                        <TableHead className="text-right">Online</TableHead>
+                        <TableHead className="text-right">Adj. Online</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rec.competitors.map((comp) => (
+                        <TableRow key={comp.storeId}>
+                          <TableCell className="max-w-[180px] truncate">{comp.storeName}</TableCell>
+                          <TableCell className="text-right font-mono">{comp.rankingScore.toFixed(2)}</TableCell>
+                          <TableCell className="text-right font-mono">{formatPct(comp.rankingAdjustmentPct)}</TableCell>
+                          <TableCell className="text-right font-mono">{comp.weight.toFixed(2)}</TableCell>
+                          <TableCell className="text-right font-mono">{formatCurrency(comp.walkInRate)}</TableCell>
+                          <TableCell className="text-right font-mono">{formatCurrency(comp.adjustedWalkInRate)}</TableCell>
+                          <TableCell className="text-right font-mono">{formatCurrency(comp.onlineRate)}</TableCell>
+                          <TableCell className="text-right font-mono">{formatCurrency(comp.adjustedOnlineRate)}</TableCell>
+                        </TableRow>
+                      ))}
+                      <TableRow className="bg-muted/50">
+                        <TableCell className="font-medium">Weighted market rate</TableCell>
+                        <TableCell className="text-right font-mono">{rec.subjectRankingScore.toFixed(2)}</TableCell>
+                        <TableCell colSpan={3} />
+                        <TableCell className="text-right font-mono">{formatCurrency(rec.marketWalkInRate)}</TableCell>
+                        <TableCell />
+                        <TableCell className="text-right font-mono">{formatCurrency(rec.marketOnlineRate)}</TableCell>
+                      </TableRow>
+                      <TableRow className="bg-primary/5">
+                        <TableCell className="font-medium">
+                          Recommended ({formatPct(rec.adjustmentPct)} factors{rec.climateControlled ? ', incl. CC' : ''})
+                        </TableCell>
+                        <TableCell colSpan={4} />
+                        <TableCell className="text-right font-mono font-semibold">
+                          {formatCurrency(rec.recommendedWalkInRate)}
+                        </TableCell>
+                        <TableCell />
+                        <TableCell className="text-right font-mono font-semibold">
+                          {formatCurrency(rec.recommendedOnlineRate)}
+                        </TableCell>
+                      </TableRow>
+                    </TableBody>
+                  </Table>
+                </AccordionContent>
+              </AccordionItem>
+            ))}
+          </Accordion>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
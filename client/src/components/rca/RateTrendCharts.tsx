@@ -0,0 +1,224 @@
+import { useMemo, useState } from 'react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { resolveFeatureCode } from '@/lib/featureCodes';
+import { compareSizeLabels } from '@/lib/unitSize';
+import {
+  buildRateTrends,
+  filterTrendRecords,
+  COMPETITOR_AVERAGE_KEY,
+  type TrendFilters,
+  type TrendPriceField,
+} from '@/lib/rateTrends';
+import type { FeatureCode, RateRecord, Store } from '@/types/rca';
+
+interface RateTrendChartsProps {
+  subjectStore: Store | null;
+  selectedStores: Store[];
+  rateRecords: RateRecord[];
+  customNames: Record<number, string>;
+  featureCodes: FeatureCode[];
+}
+
+// Muted palette for competitors so the subject line stands out
+const COMPETITOR_COLORS = [
+  'hsl(160 45% 45%)',
+  'hsl(35 70% 50%)',
+  'hsl(280 35% 55%)',
+  'hsl(0 55% 55%)',
+  'hsl(190 50% 45%)',
+  'hsl(90 35% 45%)',
+  'hsl(320 40% 55%)',
+  'hsl(50 60% 45%)',
+];
+
+type TrendUnit = 'month' | 'sqft';
+
+const PRICE_FIELDS: Record<TrendUnit, Array<{ field: TrendPriceField; title: string }>> = {
+  month: [
+    { field: 'walkInPrice', title: 'Walk-in Rate' },
+    { field: 'onlinePrice', title: 'Online Rate' },
+  ],
+  sqft: [
+    { field: 'walkInPerSqFt', title: 'Walk-in $/SF' },
+    { field: 'onlinePerSqFt', title: 'Online $/SF' },
+  ],
+};
+
+const formatWeek = (week: string) =>
+  new Date(`${week}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+export function RateTrendCharts({
+  subjectStore,
+  selectedStores,
+  rateRecords,
+  customNames,
+  featureCodes,
+}: RateTrendChartsProps) {
+  const [filters, setFilters] = useState<TrendFilters>({ size: 'all', code: 'all' });
+  const [unit, setUnit] = useState<TrendUnit>('month');
+
+  const sizes = useMemo(
+    () => Array.from(new Set(rateRecords.map((r) => r.unitSize.label))).sort(compareSizeLabels),
+    [rateRecords]
+  );
+  const codes = useMemo(
+    () => Array.from(new Set(rateRecords.map((r) => resolveFeatureCode(r, featureCodes)))).sort(),
+    [rateRecords, featureCodes]
+  );
+
+  const filtered = useMemo(
+    () => filterTrendRecords(rateRecords, featureCodes, filters),
+    [rateRecords, featureCodes, filters]
+  );
+
+  const charts = useMemo(
+    () =>
+      PRICE_FIELDS[unit].map(({ field, title }) => ({
+        field,
+        title,
+        ...buildRateTrends({
+          records: filtered,
+          stores: selectedStores,
+          subjectStoreId: subjectStore?.storeId ?? null,
+          customNames,
+          priceField: field,
+        }),
+      })),
+    [unit, filtered, selectedStores, subjectStore, customNames]
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap gap-3">
+        <Select value={filters.size} onValueChange={(size) => setFilters((prev) => ({ ...prev, size }))}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue placeholder="Unit size" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Sizes</SelectItem>
+            {sizes.map((size) => (
+              <SelectItem key={size} value={size}>
+                {size}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={filters.code} onValueChange={(code) => setFilters((prev) => ({ ...prev, code }))}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue placeholder="Feature code" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Feature Codes</SelectItem>
+            {codes.map((code) => (
+              <SelectItem key={code} value={code}>
+                {code}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={unit} onValueChange={(value) => setUnit(value as TrendUnit)}>
+          <SelectTrigger className="w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="month">$ per month</SelectItem>
+            <SelectItem value="sqft">$ per sq ft</SelectItem>
+          </SelectContent>
+        </Select>
+        <span className="text-sm text-muted-foreground self-center">
+          {filtered.length.toLocaleString()} records · weekly averages
+        </span>
+      </div>
+
+      {charts.map(({ field, title, data, series }) => {
+        const config: ChartConfig = {
+          [COMPETITOR_AVERAGE_KEY]: { label: 'Competitor Avg', color: 'hsl(var(--foreground))' },
+        };
+        let competitorIndex = 0;
+        for (const s of series) {
+          config[s.key] = {
+            label: s.isSubject ? `${s.name} (Subject)` : s.name,
+            color: s.isSubject
+              ? 'hsl(var(--primary))'
+              : COMPETITOR_COLORS[competitorIndex++ % COMPETITOR_COLORS.length],
+          };
+        }
+
+        return (
+          <div key={field}>
+            <h4 className="font-medium mb-2">{title}</h4>
+            {data.length === 0 ? (
+              <div className="h-[120px] flex items-center justify-center text-sm text-muted-foreground border rounded-md">
+                No {title.toLowerCase()} data for these filters
+              </div>
+            ) : (
+              <ChartContainer config={config} className="aspect-auto h-[320px] w-full">
+                <LineChart data={data} margin={{ left: 8, right: 8, top: 8 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="week" tickFormatter={formatWeek} tickLine={false} axisLine={false} minTickGap={24} />
+                  <YAxis
+                    tickFormatter={(value: number) => `$${value}`}
+                    tickLine={false}
+                    axisLine={false}
+                    width={56}
+                    domain={['auto', 'auto']}
+                  />
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        labelFormatter={(week) => `Week of ${formatWeek(String(week))}`}
+                        formatter={(value, name) => (
+                          <div className="flex w-full justify-between gap-4">
+                            <span className="text-muted-foreground">{config[String(name)]?.label || name}</span>
+                            <span className="font-mono">${Number(value).toFixed(2)}</span>
+                          </div>
+                        )}
+                      />
+                    }
+                  />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  {series.map((s) => (
+                    <Line
+                      key={s.key}
+                      dataKey={s.key}
+                      type="monotone"
+                      stroke={`var(--color-${s.key})`}
+                      strokeWidth={s.isSubject ? 3 : 1.5}
+                      strokeOpacity={s.isSubject ? 1 : 0.7}
+                      dot={false}
+                      connectNulls
+                    />
+                  ))}
+                  <Line
+                    dataKey={COMPETITOR_AVERAGE_KEY}
+                    type="monotone"
+                    stroke={`var(--color-${COMPETITOR_AVERAGE_KEY})`}
+                    strokeWidth={2}
+                    strokeDasharray="6 4"
+                    dot={false}
+                    connectNulls
+                  />
+                </LineChart>
+              </ChartContainer>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
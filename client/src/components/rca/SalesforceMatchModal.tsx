@@ -15,6 +15,53 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import type { SalesforceMatch, Store } from '@/types/rca';
 
+const formatScore = (score: number) => `${Math.round(score * 100)}%`;
+
+// City, ZIP, state and distance verdicts, with what the location cost the combined score.
+// Matches saved before these scores existed simply don't show them.
+function locationChecks(match: SalesforceMatch): Array<{ label: string; ok: boolean }> {
+  const checks: Array<{ label: string; ok: boolean }> = [];
+  if (match.stateMatch != null) {
+    checks.push({ label: match.stateMatch ? 'State matches' : 'Different state', ok: match.stateMatch });
+  }
+  if (match.cityScore != null) {
+    checks.push({ label: `City ${formatScore(match.cityScore)}`, ok: match.cityScore >= 0.8 });
+  }
+  if (match.zipScore != null) {
+    const label = match.zipScore === 1 ? 'ZIP matches' : match.zipScore > 0 ? 'Nearby ZIP' : 'Different ZIP';
+    checks.push({ label, ok: match.zipScore === 1 });
+  }
+  if (match.distanceMiles != null) {
+    const distance = match.distanceMiles < 0.1 ? 'Same location' : `${match.distanceMiles.toFixed(1)} mi away`;
+    checks.push({ label: distance, ok: (match.distanceScore ?? 0) >= 0.5 });
+  }
+  return checks;
+}
+
+function ScoreBreakdown({ match }: { match: SalesforceMatch }) {
+  const checks = locationChecks(match);
+  const penalty = match.locationFactor != null && match.locationFactor < 1 ? 1 - match.locationFactor : 0;
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 mt-2 text-xs">
+      <Badge variant="outline" className="font-normal">Name {formatScore(match.nameScore)}</Badge>
+      <Badge variant="outline" className="font-normal">Street {formatScore(match.addressScore)}</Badge>
+      {checks.map((check) => (
+        <Badge
+          key={check.label}
+          variant="outline"
+          className={`font-normal ${check.ok ? 'text-emerald-700 border-emerald-200' : 'text-amber-700 border-amber-300'}`}
+        >
+          {check.label}
+        </Badge>
+      ))}
+      {penalty > 0 && (
+        <span className="text-muted-foreground">−{formatScore(penalty)} for location mismatch</span>
+      )}
+    </div>
+  );
+}
+
 interface SalesforceMatchModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -37,8 +84,6 @@ export function SalesforceMatchModal({
   const [manualYearBuilt, setManualYearBuilt] = useState<string>('');
   const [manualSquareFootage, setManualSquareFootage] = useState<string>('');
 
-  const formatScore = (score: number) => `${Math.round(score * 100)}%`;
-  
   const formatNumber = (value: string | number | null): string => {
     if (value === null || value === '') return 'N/A';
     const num = typeof value === 'string' ? parseFloat(value) : value;
@@ -116,6 +161,9 @@ export function SalesforceMatchModal({
                             <div className="flex items-center gap-1 text-sm text-muted-foreground mb-2">
                               <MapPin className="w-3 h-3" />
                               {match.parsedAddress || 'No address'}
+                              {match.parsedCity && `, ${match.parsedCity}`}
+                              {match.parsedState && `, ${match.parsedState}`}
+                              {match.parsedPostalCode && ` ${match.parsedPostalCode}`}
                             </div>
                             
                             <div className="grid grid-cols-3 gap-4 text-sm">
@@ -141,6 +189,8 @@ export function SalesforceMatchModal({
                                 </span>
                               </div>
                             </div>
+
+                            <ScoreBreakdown match={match} />
                           </div>
                           
                           <div className="flex flex-col items-end gap-1 ml-4">
@@ -149,9 +199,6 @@ export function SalesforceMatchModal({
                             >
                               {formatScore(match.combinedScore)} match
                             </Badge>
-                            <div className="text-xs text-muted-foreground">
-                              Name: {formatScore(match.nameScore)} | Addr: {formatScore(match.addressScore)}
-                            </div>
                             {isSelected && (
                               <Check className="w-5 h-5 text-primary mt-1" />
                             )}
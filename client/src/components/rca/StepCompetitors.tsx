@@ -1,22 +1,109 @@
 import { useState } from 'react';
-import { Building2, MapPin, Navigation, Check, CheckSquare, Square, Loader2 } from 'lucide-react';
+import { Building2, MapPin, Navigation, Check, CheckSquare, Square, Loader2, Copy, Merge } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Checkbox } from '@/components/ui/checkbox';
 import { cn } from '@/lib/utils';
-import type { Store } from '@/types/rca';
+import { CompetitorMap } from './CompetitorMap';
+import type { DuplicateStoreGroup, Store } from '@/types/rca';
 
 interface StepCompetitorsProps {
   subjectStore: Store;
   competitors: Store[];
+  duplicateGroups: DuplicateStoreGroup[];
+  radius: number;
   onSelect: (stores: Store[]) => Promise<void>;
+  onMerge: (group: DuplicateStoreGroup, primaryId: number) => void;
+  onDismissDuplicate: (group: DuplicateStoreGroup) => void;
   onNext: () => void;
   onBack: () => void;
   isLoading?: boolean;
 }
 
-export function StepCompetitors({ subjectStore, competitors, onSelect, onNext, onBack, isLoading }: StepCompetitorsProps) {
+const DUPLICATE_REASON_LABELS: Record<DuplicateStoreGroup['reasons'][number], string> = {
+  masterId: 'Same masterid',
+  address: 'Same address',
+  coordinates: 'Same location',
+};
+
+function MergedIdsBadge({ store }: { store: Store }) {
+  if (!store.mergedStoreIds?.length) return null;
+  return (
+    <Badge variant="secondary" className="shrink-0">
+      Includes ID{store.mergedStoreIds.length > 1 ? 's' : ''} {store.mergedStoreIds.join(', ')}
+    </Badge>
+  );
+}
+
+interface CompetitorCardProps {
+  store: Store;
+  number: number;
+  isSelected: boolean;
+  onToggle: (storeId: number) => void;
+}
+
+function CompetitorCard({ store, number, isSelected, onToggle }: CompetitorCardProps) {
+  return (
+    <Card
+      className={cn(
+        'cursor-pointer transition-all duration-200',
+        isSelected && 'ring-2 ring-primary bg-primary/5'
+      )}
+      onClick={() => onToggle(store.storeId)}
+    >
+      <CardContent className="p-4">
+        <div className="flex items-center gap-4">
+          <div className="flex items-center gap-3">
+            <Checkbox 
+              checked={isSelected}
+              onCheckedChange={() => onToggle(store.storeId)}
+            />
+            <span className="w-8 h-8 rounded-full bg-muted flex items-center justify-center text-sm font-medium">
+              {number}
+            </span>
+          </div>
+          
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-2">
+              <h3 className="font-medium truncate">{store.storeName}</h3>
+              <Badge variant="outline" className="shrink-0">
+                ID: {store.storeId}
+              </Badge>
+              <MergedIdsBadge store={store} />
+            </div>
+            <div className="flex items-center gap-4 mt-1 text-sm text-muted-foreground">
+              <span className="flex items-center gap-1">
+                <MapPin className="w-3 h-3" />
+                {store.address}, {store.city}
+              </span>
+            </div>
+          </div>
+
+          <div className="text-right shrink-0">
+            <div className="flex items-center gap-1 text-primary font-medium">
+              <Navigation className="w-4 h-4" />
+              <span>{store.distance} mi</span>
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function StepCompetitors({
+  subjectStore,
+  competitors,
+  duplicateGroups,
+  radius,
+  onSelect,
+  onMerge,
+  onDismissDuplicate,
+  onNext,
+  onBack,
+  isLoading,
+}: StepCompetitorsProps) {
   const [selected, setSelected] = useState<Set<number>>(new Set());
   const [isFetchingMetadata, setIsFetchingMetadata] = useState(false);
 
@@ -38,6 +125,30 @@ export function StepCompetitors({ subjectStore, competitors, onSelect, onNext, o
     setSelected(new Set());
   };
 
+  // The subject store is always the one kept; otherwise the closest record in the group
+  const primaryOf = (group: DuplicateStoreGroup) =>
+    group.storeIds.includes(subjectStore.storeId)
+      ? subjectStore.storeId
+      : competitors.find((c) => group.storeIds.includes(c.storeId))?.storeId ?? group.storeIds[0];
+
+  // A selection on a merged-away record carries over to the store it was merged into
+  const handleMerge = (group: DuplicateStoreGroup) => {
+    const primaryId = primaryOf(group);
+    const absorbedIds = group.storeIds.filter((id) => id !== primaryId);
+    const next = new Set(selected);
+    const wasSelected = absorbedIds.filter((id) => next.delete(id)).length > 0;
+    if (wasSelected && primaryId !== subjectStore.storeId) next.add(primaryId);
+    setSelected(next);
+    onMerge(group, primaryId);
+  };
+
+  const storeName = (storeId: number) =>
+    storeId === subjectStore.storeId
+      ? 'the subject store'
+      : competitors.find((c) => c.storeId === storeId)?.storeName ?? `store ${storeId}`;
+
+  const groupOf = (storeId: number) => duplicateGroups.find((group) => group.storeIds.includes(storeId));
+
   const handleContinue = async () => {
     const selectedStores = competitors.filter((c) => selected.has(c.storeId));
     setIsFetchingMetadata(true);
@@ -53,6 +164,7 @@ export function StepCompetitors({ subjectStore, competitors, onSelect, onNext, o
         <CardHeader className="pb-2">
           <div className="flex items-center gap-2">
             <Badge variant="default">Subject Store</Badge>
+            <MergedIdsBadge store={subjectStore} />
           </div>
           <CardTitle className="text-lg">{subjectStore.storeName}</CardTitle>
         </CardHeader>
@@ -64,6 +176,14 @@ export function StepCompetitors({ subjectStore, competitors, onSelect, onNext, o
         </CardContent>
       </Card>
 
+      <CompetitorMap
+        subjectStore={subjectStore}
+        competitors={competitors}
+        selected={selected}
+        radius={radius}
+        onToggle={toggleStore}
+      />
+
       {/* Competitors Section */}
       <div className="mb-6">
         <div className="flex items-center justify-between mb-4">
@@ -86,54 +206,51 @@ export function StepCompetitors({ subjectStore, competitors, onSelect, onNext, o
         </div>
 
         <div className="grid gap-3">
-          {competitors.map((store, index) => {
-            const isSelected = selected.has(store.storeId);
-            
+          {competitors.map((store) => {
+            const group = groupOf(store.storeId);
+            const card = (member: Store) => (
+              <CompetitorCard
+                key={member.storeId}
+                store={member}
+                number={competitors.indexOf(member) + 1}
+                isSelected={selected.has(member.storeId)}
+                onToggle={toggleStore}
+              />
+            );
+            if (!group) return card(store);
+
+            // A group is shown once, where its first competitor would be
+            const members = competitors.filter((c) => group.storeIds.includes(c.storeId));
+            if (members[0] !== store) return null;
+            const primaryId = primaryOf(group);
+
             return (
-              <Card
-                key={store.storeId}
-                className={cn(
-                  'cursor-pointer transition-all duration-200',
-                  isSelected && 'ring-2 ring-primary bg-primary/5'
-                )}
-                onClick={() => toggleStore(store.storeId)}
-              >
-                <CardContent className="p-4">
-                  <div className="flex items-center gap-4">
-                    <div className="flex items-center gap-3">
-                      <Checkbox 
-                        checked={isSelected}
-                        onCheckedChange={() => toggleStore(store.storeId)}
-                      />
-                      <span className="w-8 h-8 rounded-full bg-muted flex items-center justify-center text-sm font-medium">
-                        {index + 1}
-                      </span>
-                    </div>
-                    
-                    <div className="flex-1 min-w-0">
-                      <div className="flex items-center gap-2">
-                        <h3 className="font-medium truncate">{store.storeName}</h3>
-                        <Badge variant="outline" className="shrink-0">
-                          ID: {store.storeId}
-                        </Badge>
-                      </div>
-                      <div className="flex items-center gap-4 mt-1 text-sm text-muted-foreground">
-                        <span className="flex items-center gap-1">
-                          <MapPin className="w-3 h-3" />
-                          {store.address}, {store.city}
-                        </span>
-                      </div>
-                    </div>
-
-                    <div className="text-right shrink-0">
-                      <div className="flex items-center gap-1 text-primary font-medium">
-                        <Navigation className="w-4 h-4" />
-                        <span>{store.distance} mi</span>
-                      </div>
-                    </div>
+              <div key={`duplicates-${store.storeId}`} className="rounded-lg border border-amber-300 bg-amber-50/50 p-3 space-y-3 dark:bg-amber-950/20">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Copy className="w-4 h-4 text-amber-600" />
+                    <span className="text-sm font-medium">
+                      Possible duplicate facility
+                      {group.storeIds.includes(subjectStore.storeId) && ' of the subject store'}
+                    </span>
+                    {group.reasons.map((reason) => (
+                      <Badge key={reason} variant="outline" className="font-normal text-amber-700 border-amber-300">
+                        {DUPLICATE_REASON_LABELS[reason]}
+                      </Badge>
+                    ))}
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => onDismissDuplicate(group)}>
+                      Keep separate
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => handleMerge(group)}>
+                      <Merge className="w-4 h-4 mr-2" />
+                      Merge into {storeName(primaryId)} (ID {primaryId})
+                    </Button>
                   </div>
-                </CardContent>
-              </Card>
+                </div>
+                {members.map(card)}
+              </div>
             );
           })}
         </div>
@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
-import { Database, AlertTriangle, Check, DollarSign, Loader2 } from 'lucide-react';
+import { useQuery } from '@tanstack/react-query';
+import { Database, AlertTriangle, Check, Clock, DollarSign, Loader2, RefreshCw, XCircle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Checkbox } from '@/components/ui/checkbox';
@@ -7,7 +8,10 @@ import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { cn } from '@/lib/utils';
-import type { DateGap } from '@/types/rca';
+import { getBackfillPolicy } from '@/lib/api';
+import { hasRole } from '@/lib/roles';
+import { useAuth } from '@/hooks/useAuth';
+import type { BackfillRequest, DateGap } from '@/types/rca';
 
 interface StepDataGapsProps {
   gaps: DateGap[];
@@ -15,6 +19,9 @@ interface StepDataGapsProps {
   onSetApiStores: (ids: number[]) => void;
   onAnalyze: () => void;
   isLoading: boolean;
+  backfill: BackfillRequest | null;
+  onRequestBackfill: () => Promise<BackfillRequest | null>;
+  onRefreshBackfill: () => void;
   onNext: () => void;
   onBack: () => void;
 }
@@ -25,10 +32,16 @@ export function StepDataGaps({
   onSetApiStores, 
   onAnalyze, 
   isLoading, 
+  backfill,
+  onRequestBackfill,
+  onRefreshBackfill,
   onNext, 
   onBack 
 }: StepDataGapsProps) {
+  const { user } = useAuth();
   const [analyzed, setAnalyzed] = useState(false);
+  const [isRequesting, setIsRequesting] = useState(false);
+  const { data: policy } = useQuery({ queryKey: ['backfill-policy'], queryFn: getBackfillPolicy, staleTime: Infinity });
 
   useEffect(() => {
     if (gaps.length === 0 && !analyzed) {
@@ -58,6 +71,20 @@ export function StepDataGaps({
     onSetApiStores([]);
   };
 
+  const needsApproval = policy !== undefined && totalCost > policy.approvalThreshold && !hasRole(user?.role, 'approver');
+
+  // Selected stores need a backfill request before moving on; only an approved one
+  // continues straight away, otherwise the analyst stays here to see its status
+  const handleContinue = async () => {
+    if (selectedApiStores.length > 0 && !backfill) {
+      setIsRequesting(true);
+      const created = await onRequestBackfill();
+      setIsRequesting(false);
+      if (created?.status !== 'approved') return;
+    }
+    onNext();
+  };
+
   if (isLoading) {
     return (
       <div className="max-w-3xl mx-auto animate-fade-in">
@@ -123,10 +150,18 @@ export function StepDataGaps({
                       </div>
                       
                       {hasGaps ? (
-                        <div className="text-sm text-muted-foreground">
-                          <span className="text-warning">{gap.missingDays} days</span> missing
+                        <div className="text-sm text-muted-foreground space-y-1">
+                          <div>
+                            <span className="text-warning">{gap.missingDays} days</span> missing
+                            {gap.cadenceDays > 1 && (
+                              <span> • collected every {gap.cadenceDays} days</span>
+                            )}
+                            {gap.yearsNeeded.length > 0 && (
+                              <span> • Years to purchase: {gap.yearsNeeded.join(', ')}</span>
+                            )}
+                          </div>
                           {gap.dateRanges.length > 0 && (
-                            <span> • Ranges: {gap.dateRanges.join(', ')}</span>
+                            <div className="text-xs">Ranges: {gap.dateRanges.join(', ')}</div>
                           )}
                         </div>
                       ) : (
@@ -155,7 +190,12 @@ export function StepDataGaps({
             <AlertTitle>API Fetch Warning</AlertTitle>
             <AlertDescription>
               Fetching missing data via API incurs costs. Select stores carefully.
-              API fetches are billed at $12.50 per year of historical data per store.
+              {policy && (
+                <>
+                  {' '}API fetches are billed at ${policy.costPerStoreYear.toFixed(2)} per year
+                  of historical data per store.
+                </>
+              )}
             </AlertDescription>
           </Alert>
 
@@ -167,6 +207,11 @@ export function StepDataGaps({
               <p className="text-sm text-muted-foreground">
                 Estimated cost: <span className="font-mono font-medium">${totalCost.toFixed(2)}</span>
               </p>
+              {needsApproval && (
+                <p className="text-sm text-warning">
+                  Above the ${policy.approvalThreshold.toFixed(2)} limit; an approver must sign off before data is fetched
+                </p>
+              )}
             </div>
             <div className="flex gap-2">
               <Button variant="outline" size="sm" onClick={selectAllGaps}>
@@ -180,6 +225,46 @@ export function StepDataGaps({
         </>
       )}
 
+      {backfill && backfill.status !== 'approved' && (
+        <Alert
+          className={cn(
+            'mt-4',
+            backfill.status === 'pending' ? 'border-warning/50 bg-warning/10' : 'border-destructive/50 bg-destructive/10'
+          )}
+        >
+          {backfill.status === 'pending' ? (
+            <Clock className="h-4 w-4 text-warning" />
+          ) : (
+            <XCircle className="h-4 w-4 text-destructive" />
+          )}
+          <AlertTitle>
+            {backfill.status === 'pending'
+              ? `Backfill #${backfill.id} is waiting for approval`
+              : `Backfill #${backfill.id} was rejected`}
+          </AlertTitle>
+          <AlertDescription className="space-y-2">
+            <p>
+              {backfill.status === 'pending'
+                ? `The estimated $${backfill.estimatedCost.toFixed(2)} needs an approver's sign-off. You can continue with database data only and check back later.`
+                : backfill.note || 'Change the selection to submit a new request, or continue with database data only.'}
+            </p>
+            {backfill.status === 'pending' && (
+              <Button variant="outline" size="sm" onClick={onRefreshBackfill}>
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Check Status
+              </Button>
+            )}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {backfill?.status === 'approved' && (
+        <div className="mt-4 flex items-center gap-2 text-sm text-success">
+          <Check className="w-4 h-4" />
+          Backfill #{backfill.id} approved (${backfill.estimatedCost.toFixed(2)})
+        </div>
+      )}
+
       {storesWithGaps.length === 0 && gaps.length > 0 && (
         <Alert className="mt-6 border-success/50 bg-success/10">
           <Check className="h-4 w-4 text-success" />
@@ -194,8 +279,13 @@ export function StepDataGaps({
         <Button variant="outline" onClick={onBack}>
           Back
         </Button>
-        <Button onClick={onNext}>
-          Continue to Feature Codes
+        <Button onClick={handleContinue} disabled={isRequesting}>
+          {isRequesting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          {backfill && backfill.status !== 'approved'
+            ? 'Continue with Database Data Only'
+            : selectedApiStores.length > 0 && !backfill
+              ? 'Request Backfill & Continue'
+              : 'Continue to Feature Codes'}
         </Button>
       </div>
     </div>
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { FileDown, Table2, BarChart3, Loader2, ChevronDown, ChevronUp } from 'lucide-react';
+import { FileDown, FileSpreadsheet, Table2, BarChart3, Loader2, ChevronDown, ChevronUp } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -12,6 +12,7 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import {
   Select,
   SelectContent,
@@ -19,34 +20,58 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import type { Store, AdjustmentFactors, RateRecord, FeatureCode } from '@/types/rca';
+import { RateRecommendations } from './RateRecommendations';
+import { RateTrendCharts } from './RateTrendCharts';
+import { PullJobProgress } from './PullJobProgress';
+import { resolveFeatureCode } from '@/lib/featureCodes';
+import { compareUnitSizes } from '@/lib/unitSize';
+import type {
+  Store,
+  AdjustmentFactors,
+  RateRecord,
+  FeatureCode,
+  StoreRankings,
+  StoreMetadata,
+  PullJob,
+} from '@/types/rca';
 
 interface StepDataVisualizationProps {
   subjectStore: Store | null;
   selectedStores: Store[];
+  storeRankings: Record<number, StoreRankings>;
+  storeMetadata: Record<number, StoreMetadata>;
   adjustmentFactors: AdjustmentFactors;
   rateRecords: RateRecord[];
   customNames: Record<number, string>;
   featureCodes: FeatureCode[];
+  pullJob: PullJob | null;
   onExport: () => void;
+  onExportExcel: () => void;
   isLoading: boolean;
   onBack: () => void;
+  onReset: () => void;
 }
 
-type SortField = 'storeName' | 'size' | 'walkInPrice' | 'onlinePrice' | 'date';
+type SortField = 'storeName' | 'size' | 'walkInPrice' | 'onlinePrice' | 'walkInPerSqFt' | 'date';
 type SortDirection = 'asc' | 'desc';
 
 export function StepDataVisualization({ 
   subjectStore, 
   selectedStores, 
+  storeRankings,
+  storeMetadata,
   adjustmentFactors, 
   rateRecords,
   customNames,
   featureCodes,
+  pullJob,
   onExport, 
+  onExportExcel,
   isLoading, 
-  onBack 
+  onBack,
+  onReset,
 }: StepDataVisualizationProps) {
+  const [view, setView] = useState<'table' | 'charts'>('table');
   const [filterStore, setFilterStore] = useState<string>('all');
   const [sortField, setSortField] = useState<SortField>('storeName');
   const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
@@ -75,7 +100,7 @@ export function StepDataVisualization({
         comparison = a.displayName.localeCompare(b.displayName);
         break;
       case 'size':
-        comparison = (a.size || '').localeCompare(b.size || '');
+        comparison = compareUnitSizes(a.unitSize, b.unitSize);
         break;
       case 'walkInPrice':
         comparison = (a.walkInPrice || 0) - (b.walkInPrice || 0);
@@ -83,6 +108,9 @@ export function StepDataVisualization({
       case 'onlinePrice':
         comparison = (a.onlinePrice || 0) - (b.onlinePrice || 0);
         break;
+      case 'walkInPerSqFt':
+        comparison = (a.walkInPerSqFt || 0) - (b.walkInPerSqFt || 0);
+        break;
       case 'date':
         comparison = new Date(a.date).getTime() - new Date(b.date).getTime();
         break;
@@ -106,7 +134,7 @@ export function StepDataVisualization({
       <ChevronDown className="w-4 h-4 inline ml-1" />;
   };
 
-  const formatCurrency = (value?: number) => {
+  const formatCurrency = (value?: number | null) => {
     if (value === undefined || value === null) return '-';
     return `$${value.toFixed(2)}`;
   };
@@ -123,13 +151,6 @@ export function StepDataVisualization({
     }
   };
 
-  // Get feature code for a record
-  const getFeatureCode = (record: RateRecord) => {
-    const tag = record.tag || record.unitType;
-    const fc = featureCodes.find(f => f.originalTag === tag);
-    return fc?.code || tag?.slice(0, 4).toUpperCase() || '-';
-  };
-
   return (
     <div className="max-w-6xl mx-auto animate-fade-in">
       <div className="mb-6 text-center">
@@ -139,6 +160,8 @@ export function StepDataVisualization({
         </p>
       </div>
 
+      <PullJobProgress job={pullJob} />
+
       {/* Summary Cards */}
       <div className="grid md:grid-cols-4 gap-4 mb-6">
         <Card>
@@ -167,126 +190,178 @@ export function StepDataVisualization({
         </Card>
       </div>
 
-      {/* Data Table */}
+      {subjectStore && rateRecords.length > 0 && (
+        <RateRecommendations
+          subjectStore={subjectStore}
+          selectedStores={selectedStores}
+          rateRecords={rateRecords}
+          storeRankings={storeRankings}
+          storeMetadata={storeMetadata}
+          adjustmentFactors={adjustmentFactors}
+          featureCodes={featureCodes}
+          customNames={customNames}
+        />
+      )}
+
+      {/* Data Table / Charts */}
       <Card className="mb-6">
-        <CardHeader>
-          <div className="flex items-center justify-between">
-            <div>
-              <CardTitle className="flex items-center gap-2">
-                <Table2 className="w-5 h-5" />
-                Rate Data Preview
-              </CardTitle>
-              <CardDescription>
-                Showing {sortedRecords.length} of {rateRecords.length} records
-              </CardDescription>
+        <Tabs value={view} onValueChange={(value) => setView(value as 'table' | 'charts')}>
+          <CardHeader>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  {view === 'table' ? <Table2 className="w-5 h-5" /> : <BarChart3 className="w-5 h-5" />}
+                  {view === 'table' ? 'Rate Data Preview' : 'Rate Trends'}
+                </CardTitle>
+                <CardDescription>
+                  {view === 'table'
+                    ? `Showing ${sortedRecords.length} of ${rateRecords.length} records`
+                    : 'Walk-in and online rates over time, subject store highlighted'}
+                </CardDescription>
+              </div>
+              <div className="flex items-center gap-3">
+                {view === 'table' && (
+                  <Select value={filterStore} onValueChange={setFilterStore}>
+                    <SelectTrigger className="w-[200px]">
+                      <SelectValue placeholder="Filter by store" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Stores</SelectItem>
+                      {selectedStores.map((store) => (
+                        <SelectItem key={store.storeId} value={store.storeId.toString()}>
+                          {customNames[store.storeId] || store.storeName}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <TabsList>
+                  <TabsTrigger value="table">Table</TabsTrigger>
+                  <TabsTrigger value="charts">Charts</TabsTrigger>
+                </TabsList>
+              </div>
             </div>
-            <Select value={filterStore} onValueChange={setFilterStore}>
-              <SelectTrigger className="w-[200px]">
-                <SelectValue placeholder="Filter by store" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">All Stores</SelectItem>
-                {selectedStores.map((store) => (
-                  <SelectItem key={store.storeId} value={store.storeId.toString()}>
-                    {customNames[store.storeId] || store.storeName}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
-        </CardHeader>
-        <CardContent>
-          {rateRecords.length === 0 ? (
-            <div className="text-center py-12 text-muted-foreground">
-              <BarChart3 className="w-12 h-12 mx-auto mb-4 opacity-50" />
-              <p>No rate data available yet.</p>
-              <p className="text-sm mt-1">Data will be fetched when you export.</p>
-            </div>
-          ) : (
-            <ScrollArea className="h-[400px]">
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead 
-                      className="cursor-pointer hover:bg-muted/50"
-                      onClick={() => handleSort('storeName')}
-                    >
-                      Store Name <SortIcon field="storeName" />
-                    </TableHead>
-                    <TableHead 
-                      className="cursor-pointer hover:bg-muted/50"
-                      onClick={() => handleSort('size')}
-                    >
-                      Size <SortIcon field="size" />
-                    </TableHead>
-                    <TableHead>Code</TableHead>
-                    <TableHead>Features</TableHead>
-                    <TableHead 
-                      className="text-right cursor-pointer hover:bg-muted/50"
-                      onClick={() => handleSort('walkInPrice')}
-                    >
-                      Walk-in <SortIcon field="walkInPrice" />
-                    </TableHead>
-                    <TableHead 
-                      className="text-right cursor-pointer hover:bg-muted/50"
-                      onClick={() => handleSort('onlinePrice')}
-                    >
-                      Online <SortIcon field="onlinePrice" />
-                    </TableHead>
-                    <TableHead 
-                      className="cursor-pointer hover:bg-muted/50"
-                      onClick={() => handleSort('date')}
-                    >
-                      Date <SortIcon field="date" />
-                    </TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {sortedRecords.slice(0, 100).map((record, idx) => (
-                    <TableRow key={`${record.storeId}-${record.date}-${record.size}-${idx}`}>
-                      <TableCell className="font-medium max-w-[200px] truncate">
-                        {record.displayName}
-                      </TableCell>
-                      <TableCell>{record.size}</TableCell>
-                      <TableCell>
-                        <Badge variant="outline" className="text-xs">
-                          {getFeatureCode(record)}
-                        </Badge>
-                      </TableCell>
-                      <TableCell className="max-w-[150px]">
-                        <div className="flex flex-wrap gap-1">
-                          {record.climateControlled && (
-                            <Badge variant="secondary" className="text-xs">CC</Badge>
-                          )}
-                          {record.driveUp && (
-                            <Badge variant="secondary" className="text-xs">DU</Badge>
-                          )}
-                          {record.elevator && (
-                            <Badge variant="secondary" className="text-xs">EL</Badge>
-                          )}
-                        </div>
-                      </TableCell>
-                      <TableCell className="text-right font-mono">
-                        {formatCurrency(record.walkInPrice)}
-                      </TableCell>
-                      <TableCell className="text-right font-mono">
-                        {formatCurrency(record.onlinePrice)}
-                      </TableCell>
-                      <TableCell className="text-muted-foreground">
-                        {formatDate(record.date)}
-                      </TableCell>
-                    </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
-              {sortedRecords.length > 100 && (
-                <div className="text-center py-4 text-sm text-muted-foreground">
-                  Showing first 100 records. Export CSV for complete data.
-                </div>
-              )}
-            </ScrollArea>
-          )}
-        </CardContent>
+          </CardHeader>
+          <CardContent>
+            {rateRecords.length === 0 ? (
+              <div className="text-center py-12 text-muted-foreground">
+                <BarChart3 className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                <p>No rate data available yet.</p>
+                <p className="text-sm mt-1">Data will be fetched when you export.</p>
+              </div>
+            ) : (
+              <>
+                <TabsContent value="table" className="mt-0">
+                  <ScrollArea className="h-[400px]">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead 
+                            className="cursor-pointer hover:bg-muted/50"
+                            onClick={() => handleSort('storeName')}
+                          >
+                            Store Name <SortIcon field="storeName" />
+                          </TableHead>
+                          <TableHead 
+                            className="cursor-pointer hover:bg-muted/50"
+                            onClick={() => handleSort('size')}
+                          >
+                            Size <SortIcon field="size" />
+                          </TableHead>
+                          <TableHead>Code</TableHead>
+                          <TableHead>Features</TableHead>
+                          <TableHead 
+                            className="text-right cursor-pointer hover:bg-muted/50"
+                            onClick={() => handleSort('walkInPrice')}
+                          >
+                            Walk-in <SortIcon field="walkInPrice" />
+                          </TableHead>
+                          <TableHead 
+                            className="text-right cursor-pointer hover:bg-muted/50"
+                            onClick={() => handleSort('onlinePrice')}
+                          >
+                            Online <SortIcon field="onlinePrice" />
+                          </TableHead>
+                          <TableHead 
+                            className="text-right cursor-pointer hover:bg-muted/50"
+                            onClick={() => handleSort('walkInPerSqFt')}
+                          >
+                            $/SF <SortIcon field="walkInPerSqFt" />
+                          </TableHead>
+                          <TableHead 
+                            className="cursor-pointer hover:bg-muted/50"
+                            onClick={() => handleSort('date')}
+                          >
+                            Date <SortIcon field="date" />
+                          </TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {sortedRecords.slice(0, 100).map((record, idx) => (
+                          <TableRow key={`${record.storeId}-${record.date}-${record.size}-${idx}`}>
+                            <TableCell className="font-medium max-w-[200px] truncate">
+                              {record.displayName}
+                            </TableCell>
+                            <TableCell title={record.size}>
+                              <div>{record.unitSize.label}</div>
+                              {record.unitSize.squareFeet !== null && (
+                                <div className="text-xs text-muted-foreground">{record.unitSize.squareFeet} sq ft</div>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              <Badge variant="outline" className="text-xs">
+                                {resolveFeatureCode(record, featureCodes)}
+                              </Badge>
+                            </TableCell>
+                            <TableCell className="max-w-[150px]">
+                              <div className="flex flex-wrap gap-1">
+                                {record.climateControlled && (
+                                  <Badge variant="secondary" className="text-xs">CC</Badge>
+                                )}
+                                {record.driveUp && (
+                                  <Badge variant="secondary" className="text-xs">DU</Badge>
+                                )}
+                                {record.elevator && (
+                                  <Badge variant="secondary" className="text-xs">EL</Badge>
+                                )}
+                              </div>
+                            </TableCell>
+                            <TableCell className="text-right font-mono">
+                              {formatCurrency(record.walkInPrice)}
+                            </TableCell>
+                            <TableCell className="text-right font-mono">
+                              {formatCurrency(record.onlinePrice)}
+                            </TableCell>
+                            <TableCell className="text-right font-mono">
+                              {formatCurrency(record.walkInPerSqFt)}
+                            </TableCell>
+                            <TableCell className="text-muted-foreground">
+                              {formatDate(record.date)}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                    {sortedRecords.length > 100 && (
+                      <div className="text-center py-4 text-sm text-muted-foreground">
+                        Showing first 100 records. Export CSV for complete data.
+                      </div>
+                    )}
+                  </ScrollArea>
+                </TabsContent>
+                <TabsContent value="charts" className="mt-0">
+                  <RateTrendCharts
+                    subjectStore={subjectStore}
+                    selectedStores={selectedStores}
+                    rateRecords={rateRecords}
+                    customNames={customNames}
+                    featureCodes={featureCodes}
+                  />
+                </TabsContent>
+              </>
+            )}
+          </CardContent>
+        </Tabs>
       </Card>
 
       {/* Export Section */}
@@ -294,10 +369,10 @@ export function StepDataVisualization({
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <FileDown className="w-5 h-5" />
-            Export to CSV
+            Export Reports
           </CardTitle>
           <CardDescription>
-            Download your analysis as CSV files
+            Download your analysis as CSV files or a multi-tab Excel workbook
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -316,19 +391,25 @@ export function StepDataVisualization({
             </div>
           </div>
 
-          <Button onClick={onExport} disabled={isLoading} className="w-full" size="lg">
-            {isLoading ? (
-              <>
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                Generating Reports...
-              </>
-            ) : (
-              <>
-                <FileDown className="mr-2 h-4 w-4" />
-                Export CSV Reports
-              </>
-            )}
-          </Button>
+          <div className="grid md:grid-cols-2 gap-4">
+            <Button onClick={onExport} disabled={isLoading} className="w-full" size="lg">
+              {isLoading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Generating Reports...
+                </>
+              ) : (
+                <>
+                  <FileDown className="mr-2 h-4 w-4" />
+                  Export CSV Reports
+                </>
+              )}
+            </Button>
+            <Button onClick={onExportExcel} disabled={isLoading} variant="outline" className="w-full" size="lg">
+              <FileSpreadsheet className="mr-2 h-4 w-4" />
+              Export Excel Workbook
+            </Button>
+          </div>
         </CardContent>
       </Card>
 
@@ -336,7 +417,7 @@ export function StepDataVisualization({
         <Button variant="outline" onClick={onBack}>
           Back
         </Button>
-        <Button variant="ghost" onClick={() => window.location.reload()}>
+        <Button variant="ghost" onClick={onReset}>
           Start New Analysis
         </Button>
       </div>
@@ -1,34 +1,78 @@
-import { useEffect } from 'react';
-import { Tag, Info } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { Tag, Info, ListChecks, ChevronDown, ChevronUp, Library, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import type { FeatureCode } from '@/types/rca';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { FeatureCodeRulesEditor } from './FeatureCodeRulesEditor';
+import { PullJobProgress } from './PullJobProgress';
+import { PRESET_CODES } from '@/lib/featureCodeClassifier';
+import type { ClassificationConfidence, FeatureCode, FeatureCodeRule, PullJob } from '@/types/rca';
 
-const PRESET_CODES = [
-  { code: 'GLCC', label: 'Ground Level Climate Controlled' },
-  { code: 'GNCC', label: 'Ground Level Non-Climate Controlled' },
-  { code: 'ECC', label: 'Elevator Climate Controlled' },
-  { code: 'ENCC', label: 'Elevator Non-Climate Controlled' },
-  { code: 'DUCC', label: 'Drive-Up Climate Controlled' },
-  { code: 'DU', label: 'Drive-Up (Non-Climate)' },
-  { code: 'ICC', label: 'Interior Climate Controlled' },
-  { code: 'INCC', label: 'Interior Non-Climate Controlled' },
-  { code: 'CC', label: 'Climate Controlled (generic)' },
-  { code: 'NCC', label: 'Non-Climate Controlled (generic)' },
-];
+const CONFIDENCE_BADGES: Record<ClassificationConfidence, { label: string; className: string }> = {
+  high: { label: 'High confidence', className: 'border-emerald-500/50 text-emerald-700 dark:text-emerald-400' },
+  medium: { label: 'Medium confidence', className: 'border-amber-500/50 text-amber-700 dark:text-amber-400' },
+  low: { label: 'Needs review', className: 'border-destructive/50 text-destructive' },
+};
+
+// Library and hand-entered codes show where they came from; rule-based codes show confidence
+function originBadge(fc: FeatureCode): { label: string; className: string; title?: string } | null {
+  if (fc.origin === 'library') {
+    return { label: 'From library', className: 'border-primary/50 text-primary' };
+  }
+  if (fc.origin === 'manual') {
+    return fc.code === fc.libraryCode
+      ? { label: 'Edited · in library', className: 'border-primary/50 text-primary' }
+      : { label: fc.libraryCode ? `Edited · library has ${fc.libraryCode}` : 'Edited · new', className: '' };
+  }
+  if (fc.confidence) {
+    return {
+      ...CONFIDENCE_BADGES[fc.confidence],
+      title: fc.agreement !== undefined ? `${Math.round(fc.agreement * 100)}% of records match this code` : undefined,
+    };
+  }
+  return null;
+}
 
 interface StepFeatureCodesProps {
   featureCodes: FeatureCode[];
+  featureCodeRules: FeatureCodeRule[];
+  pullJob: PullJob | null;
   onUpdate: (tag: string, code: string) => void;
+  onUpdateRules: (rules: FeatureCodeRule[]) => void;
+  onPromote: () => Promise<void>;
   onInitialize: () => void;
   onNext: () => void;
   onBack: () => void;
 }
 
-export function StepFeatureCodes({ featureCodes, onUpdate, onInitialize, onNext, onBack }: StepFeatureCodesProps) {
+export function StepFeatureCodes({
+  featureCodes,
+  featureCodeRules,
+  pullJob,
+  onUpdate,
+  onUpdateRules,
+  onPromote,
+  onInitialize,
+  onNext,
+  onBack,
+}: StepFeatureCodesProps) {
+  const [rulesOpen, setRulesOpen] = useState(false);
+  const [isPromoting, setIsPromoting] = useState(false);
+  const needsReview = featureCodes.filter((fc) => fc.origin === 'rules' && fc.confidence === 'low').length;
+  const fromLibrary = featureCodes.filter((fc) => fc.origin === 'library').length;
+  const promotable = featureCodes.filter(
+    (fc) => fc.origin === 'manual' && fc.code.trim() !== '' && fc.code !== fc.libraryCode
+  ).length;
+
+  const handlePromote = async () => {
+    setIsPromoting(true);
+    await onPromote();
+    setIsPromoting(false);
+  };
+
   useEffect(() => {
     if (featureCodes.length === 0) {
       onInitialize();
@@ -44,6 +88,8 @@ export function StepFeatureCodes({ featureCodes, onUpdate, onInitialize, onNext,
         </p>
       </div>
 
+      <PullJobProgress job={pullJob} />
+
       <Card className="mb-6">
         <CardHeader className="pb-3">
           <CardTitle className="text-sm flex items-center gap-2">
@@ -63,56 +109,97 @@ export function StepFeatureCodes({ featureCodes, onUpdate, onInitialize, onNext,
         </CardContent>
       </Card>
 
+      <Collapsible open={rulesOpen} onOpenChange={setRulesOpen}>
+        <Card className="mb-6">
+          <CardHeader className="pb-3">
+            <CollapsibleTrigger asChild>
+              <button className="flex items-center justify-between w-full text-left">
+                <CardTitle className="text-sm flex items-center gap-2">
+                  <ListChecks className="w-4 h-4" />
+                  Classification Rules ({featureCodeRules.length})
+                </CardTitle>
+                {rulesOpen ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+              </button>
+            </CollapsibleTrigger>
+          </CardHeader>
+          <CollapsibleContent>
+            <CardContent>
+              <FeatureCodeRulesEditor rules={featureCodeRules} onChange={onUpdateRules} />
+            </CardContent>
+          </CollapsibleContent>
+        </Card>
+      </Collapsible>
+
       <Card>
         <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Tag className="w-5 h-5" />
-            Unit Classifications
-          </CardTitle>
-          <CardDescription>
-            Select a preset code or enter a custom code for each tag
-          </CardDescription>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Tag className="w-5 h-5" />
+                Unit Classifications
+              </CardTitle>
+              <CardDescription>
+                {fromLibrary} of {featureCodes.length} tags pre-filled from the shared library; the rest are suggested
+                by the rules above
+                {needsReview > 0 && ` · ${needsReview} tag${needsReview !== 1 ? 's' : ''} need review`}
+              </CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={handlePromote} disabled={promotable === 0 || isPromoting}>
+              {isPromoting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Library className="w-4 h-4 mr-2" />}
+              Save {promotable > 0 ? `${promotable} ` : ''}Edit{promotable !== 1 ? 's' : ''} to Library
+            </Button>
+          </div>
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
-            {featureCodes.map((fc, index) => (
-              <div key={fc.originalTag} className="space-y-2 p-4 bg-muted/30 rounded-lg">
-                <div className="flex items-center justify-between">
-                  <span className="text-sm font-medium">Tag {index + 1}</span>
-                  <Badge variant="secondary">{fc.count} records</Badge>
+            {featureCodes.map((fc, index) => {
+              const badge = originBadge(fc);
+              return (
+                <div key={fc.originalTag} className="space-y-2 p-4 bg-muted/30 rounded-lg">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium">Tag {index + 1}</span>
+                    <div className="flex items-center gap-2">
+                      {badge && (
+                        <Badge variant="outline" className={badge.className} title={badge.title}>
+                          {badge.label}
+                        </Badge>
+                      )}
+                      <Badge variant="secondary">{fc.count} records</Badge>
+                    </div>
+                  </div>
+                  <p className="text-sm text-muted-foreground">{fc.originalTag}</p>
+                  <div className="flex gap-2">
+                    <Select
+                      value={PRESET_CODES.some((p) => p.code === fc.code) ? fc.code : 'custom'}
+                      onValueChange={(value) => {
+                        if (value !== 'custom') {
+                          onUpdate(fc.originalTag, value);
+                        }
+                      }}
+                    >
+                      <SelectTrigger className="w-48">
+                        <SelectValue placeholder="Select code" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {PRESET_CODES.map(({ code, label }) => (
+                          <SelectItem key={code} value={code}>
+                            <span className="font-mono font-bold">{code}</span>
+                          </SelectItem>
+                        ))}
+                        <SelectItem value="custom">Custom...</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      value={fc.code}
+                      onChange={(e) => onUpdate(fc.originalTag, e.target.value.toUpperCase())}
+                      placeholder="Custom code"
+                      className="flex-1 font-mono uppercase"
+                      maxLength={10}
+                    />
+                  </div>
                 </div>
-                <p className="text-sm text-muted-foreground">{fc.originalTag}</p>
-                <div className="flex gap-2">
-                  <Select
-                    value={PRESET_CODES.some((p) => p.code === fc.code) ? fc.code : 'custom'}
-                    onValueChange={(value) => {
-                      if (value !== 'custom') {
-                        onUpdate(fc.originalTag, value);
-                      }
-                    }}
-                  >
-                    <SelectTrigger className="w-48">
-                      <SelectValue placeholder="Select code" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {PRESET_CODES.map(({ code, label }) => (
-                        <SelectItem key={code} value={code}>
-                          <span className="font-mono font-bold">{code}</span>
-                        </SelectItem>
-                      ))}
-                      <SelectItem value="custom">Custom...</SelectItem>
-                    </SelectContent>
-                  </Select>
-                  <Input
-                    value={fc.code}
-                    onChange={(e) => onUpdate(fc.originalTag, e.target.value.toUpperCase())}
-                    placeholder="Custom code"
-                    className="flex-1 font-mono uppercase"
-                    maxLength={10}
-                  />
-                </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
         </CardContent>
       </Card>
@@ -1,17 +1,19 @@
 import { useState } from 'react';
-import { Building2, Calendar, Ruler, Search, CheckCircle2, AlertCircle, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { Building2, Calendar, Ruler, Search, CheckCircle2, AlertCircle, Loader2, History } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { SalesforceMatchModal } from './SalesforceMatchModal';
-import type { Store, StoreMetadata, SalesforceMatch } from '@/types/rca';
+import type { Store, StoreMetadata, SalesforceMatch, ConfirmedMetadata } from '@/types/rca';
 
 interface StepMetadataProps {
   stores: Store[];
   metadata: Record<number, StoreMetadata>;
   onUpdate: (storeId: number, data: Partial<StoreMetadata>) => void;
+  onSaveLink: (store: Store, confirmed: ConfirmedMetadata) => void;
   onNext: () => void;
   onBack: () => void;
   onFetchMatches: (store: Store) => Promise<SalesforceMatch[]>;
@@ -21,6 +23,7 @@ export function StepMetadata({
   stores, 
   metadata, 
   onUpdate, 
+  onSaveLink,
   onNext, 
   onBack,
   onFetchMatches,
@@ -29,6 +32,7 @@ export function StepMetadata({
   const [selectedStore, setSelectedStore] = useState<Store | null>(null);
   const [currentMatches, setCurrentMatches] = useState<SalesforceMatch[]>([]);
   const [loadingStoreId, setLoadingStoreId] = useState<number | null>(null);
+  const [editedStoreIds, setEditedStoreIds] = useState<Set<number>>(new Set());
 
   const formatNumber = (value: number | null): string => {
     if (value === null) return '';
@@ -84,6 +88,7 @@ export function StepMetadata({
         squareFootage,
         salesforceMatch: match,
       });
+      onSaveLink(selectedStore, { salesforceId: match.Id, salesforceName: match.Name, yearBuilt, squareFootage });
     }
   };
 
@@ -95,11 +100,36 @@ export function StepMetadata({
       squareFootage,
       salesforceMatch: null, // Mark as manually entered
     });
+    onSaveLink(selectedStore, { salesforceId: null, salesforceName: null, yearBuilt, squareFootage });
+  };
+
+  const handleFieldChange = (store: Store, data: Partial<StoreMetadata>) => {
+    onUpdate(store.storeId, data);
+    setEditedStoreIds((prev) => new Set(prev).add(store.storeId));
+  };
+
+  // Typed-in figures are saved as overrides on the store's link, keeping whichever record it's matched to
+  const handleFieldBlur = (store: Store) => {
+    if (!editedStoreIds.has(store.storeId)) return;
+    setEditedStoreIds((prev) => {
+      const next = new Set(prev);
+      next.delete(store.storeId);
+      return next;
+    });
+
+    const storeMeta = metadata[store.storeId];
+    if (!storeMeta) return;
+    const record = storeMeta.salesforceMatch === undefined
+      ? { salesforceId: storeMeta.link?.salesforceId ?? null, salesforceName: storeMeta.link?.salesforceName ?? null }
+      : { salesforceId: storeMeta.salesforceMatch?.Id ?? null, salesforceName: storeMeta.salesforceMatch?.Name ?? null };
+    onSaveLink(store, { ...record, yearBuilt: storeMeta.yearBuilt, squareFootage: storeMeta.squareFootage });
   };
 
   const getMatchStatus = (storeMeta: StoreMetadata | undefined) => {
     if (!storeMeta) return 'none';
     if (storeMeta.salesforceMatch) return 'matched';
+    // A saved link counts until the analyst picks again in this session
+    if (storeMeta.salesforceMatch === undefined && storeMeta.link?.salesforceName) return 'matched';
     if (storeMeta.yearBuilt || storeMeta.squareFootage) return 'manual';
     return 'none';
   };
@@ -166,7 +196,8 @@ export function StepMetadata({
                       max="2030"
                       placeholder="e.g., 2015"
                       value={storeMeta.yearBuilt || ''}
-                      onChange={(e) => onUpdate(store.storeId, { yearBuilt: parseNumber(e.target.value) })}
+                      onChange={(e) => handleFieldChange(store, { yearBuilt: parseNumber(e.target.value) })}
+                      onBlur={() => handleFieldBlur(store)}
                     />
                   </div>
                   <div className="space-y-2">
@@ -179,7 +210,8 @@ export function StepMetadata({
                       type="text"
                       placeholder="e.g., 75,000"
                       value={formatNumber(storeMeta.squareFootage)}
-                      onChange={(e) => onUpdate(store.storeId, { squareFootage: parseNumber(e.target.value) })}
+                      onChange={(e) => handleFieldChange(store, { squareFootage: parseNumber(e.target.value) })}
+                      onBlur={() => handleFieldBlur(store)}
                     />
                   </div>
                   <div className="space-y-2">
@@ -220,6 +252,18 @@ export function StepMetadata({
                     </div>
                   </div>
                 )}
+
+                {storeMeta.link && (
+                  <div className="mt-3 flex items-center gap-2 text-sm text-muted-foreground">
+                    <History className="w-4 h-4" />
+                    <span>
+                      {storeMeta.salesforceMatch === undefined ? 'Previously verified' : 'Verified'} by{' '}
+                      {storeMeta.link.verifiedByUsername || 'a removed user'} on{' '}
+                      {format(new Date(storeMeta.link.verifiedAt), 'MMM d, yyyy')}
+                      {storeMeta.link.salesforceName ? ` as ${storeMeta.link.salesforceName}` : ' with figures entered manually'}
+                    </span>
+                  </div>
+                )}
               </CardContent>
             </Card>
           );
@@ -7,6 +7,7 @@ import { Slider } from '@/components/ui/slider';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { cn } from '@/lib/utils';
+import { calculateAgeRanking, calculateSizeRanking } from '@/lib/rateRecommendation';
 import type { Store, StoreRankings, StoreMetadata } from '@/types/rca';
 
 const RANKING_CATEGORIES = [
@@ -30,28 +31,6 @@ interface StepRankingsProps {
 export function StepRankings({ stores, rankings, metadata, onUpdate, onNext, onBack }: StepRankingsProps) {
   const [activeStore, setActiveStore] = useState(stores[0]?.storeId.toString() || '');
 
-  const calculateAgeRanking = (yearBuilt: number | null): number => {
-    if (!yearBuilt) return 5;
-    const age = new Date().getFullYear() - yearBuilt;
-    if (age <= 10) return 10;
-    if (age <= 20) return 9;
-    if (age <= 30) return 8;
-    if (age <= 40) return 7;
-    if (age <= 50) return 6;
-    return 5;
-  };
-
-  const calculateSizeRanking = (sf: number | null): number => {
-    if (!sf) return 7;
-    if (sf <= 50000) return 10;
-    if (sf <= 60000) return 9;
-    if (sf <= 70000) return 8;
-    if (sf <= 80000) return 7;
-    if (sf <= 90000) return 6;
-    if (sf <= 100000) return 5;
-    return 4;
-  };
-
   return (
     <div className="max-w-4xl mx-auto animate-fade-in">
       <div className="mb-6 text-center">
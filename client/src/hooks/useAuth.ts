@@ -0,0 +1,30 @@
+import { useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { getCurrentUser, login as loginRequest, logout as logoutRequest } from '@/lib/api';
+
+const CURRENT_USER_KEY = ['auth', 'me'];
+
+export function useAuth() {
+  const queryClient = useQueryClient();
+  const { data: user = null, isLoading } = useQuery({
+    queryKey: CURRENT_USER_KEY,
+    queryFn: getCurrentUser,
+    retry: false,
+    staleTime: Infinity,
+  });
+
+  const login = useCallback(async (username: string, password: string) => {
+    const signedIn = await loginRequest(username, password);
+    queryClient.setQueryData(CURRENT_USER_KEY, signedIn);
+    return signedIn;
+  }, [queryClient]);
+
+  // Drop every cached query so the next user never sees the previous user's analyses
+  const logout = useCallback(async () => {
+    await logoutRequest();
+    queryClient.clear();
+    queryClient.setQueryData(CURRENT_USER_KEY, null);
+  }, [queryClient]);
+
+  return { user, isLoading, login, logout };
+}
@@ -7,26 +7,62 @@ import type {
   StoreRankings,
   AdjustmentFactors,
   DateGap,
+  DateRange,
   FeatureCode,
+  FeatureCodeRule,
+  FeatureCodeMapping,
   RateRecord,
   WizardStep,
   SalesforceMatch,
+  SalesforceStoreLink,
+  ConfirmedMetadata,
+  AnalysisSnapshot,
+  BackfillRequest,
+  PullJob,
+  DuplicateStoreGroup,
 } from '@/types/rca';
 import {
   searchStoresByAddress,
   findCompetitors,
   fetchHistoricalData,
   getTrailing12MonthRates,
+  getBackfillPolicy,
   getSalesforceMetadataByAddress,
+  getSalesforceMetadataForStores,
   getSalesforceMatches,
+  getSalesforceStoreLinks,
+  saveSalesforceStoreLink,
+  getStoreInfo,
+  listFeatureCodeMappings,
+  saveFeatureCodeMappings,
+  getAnalysis,
+  createAnalysis,
+  updateAnalysis,
+  requestBackfill as createBackfillRequest,
+  getBackfillRequest,
+  startPullJob,
+  watchPullJob,
 } from '@/lib/api';
+import type { SalesforceMatchesQuery } from '@shared/api';
+import { toCSV, downloadFile } from '@/lib/csv';
+import { analyzeStoreGaps } from '@/lib/dateGaps';
+import { hasCoordinates } from '@/lib/geo';
+import { classifyFeatureCodes, DEFAULT_FEATURE_CODE_RULES } from '@/lib/featureCodeClassifier';
+import { tagOf } from '@/lib/featureCodes';
+import { backfillRanges, foldMergedDates, foldMergedStores, mergeRateRecords, rateStoreIds } from '@/lib/rateRecords';
+import { buildRCAWorkbook } from '@/lib/excelExport';
+import { buildSummaryReport, summaryRowToCSV, SUMMARY_HEADERS } from '@/lib/summaryReport';
 
 export interface RCAWizardState {
+  analysisId: number | null;
+  analysisName: string;
   currentStep: number;
   searchCriteria: SearchCriteria;
   searchResults: Store[];
   subjectStore: Store | null;
   competitors: Store[];
+  // Competitor-list stores that look like one facility, until merged or kept separate
+  duplicateGroups: DuplicateStoreGroup[];
   selectedStores: Store[];
   storeMetadata: Record<number, StoreMetadata>;
   storeRankings: Record<number, StoreRankings>;
@@ -34,7 +70,12 @@ export interface RCAWizardState {
   customNames: Record<number, string>;
   dateGaps: DateGap[];
   apiStoreIds: number[];
+  backfill: BackfillRequest | null;
+  // Latest progress of the background StorTrack pull feeding rateRecords; not saved
+  pullJob: PullJob | null;
   featureCodes: FeatureCode[];
+  featureCodeRules: FeatureCodeRule[];
+  featureCodeLibrary: FeatureCodeMapping[];
   rateRecords: RateRecord[];
   isLoading: boolean;
   error: string | null;
@@ -81,25 +122,166 @@ export const WIZARD_STEPS: WizardStep[] = [
   { id: 10, name: 'Data Visualization', description: 'View and export data', completed: false },
 ];
 
-export function useRCAWizard() {
-  const [state, setState] = useState<RCAWizardState>({
-    currentStep: 1,
-    searchCriteria: initialSearchCriteria,
-    searchResults: [],
-    subjectStore: null,
-    competitors: [],
-    selectedStores: [],
-    storeMetadata: {},
-    storeRankings: {},
-    adjustmentFactors: initialAdjustmentFactors,
-    customNames: {},
-    dateGaps: [],
-    apiStoreIds: [],
-    featureCodes: [],
-    rateRecords: [],
-    isLoading: false,
-    error: null,
+const createInitialState = (): RCAWizardState => ({
+  analysisId: null,
+  analysisName: '',
+  currentStep: 1,
+  searchCriteria: initialSearchCriteria,
+  searchResults: [],
+  subjectStore: null,
+  competitors: [],
+  duplicateGroups: [],
+  selectedStores: [],
+  storeMetadata: {},
+  storeRankings: {},
+  adjustmentFactors: initialAdjustmentFactors,
+  customNames: {},
+  dateGaps: [],
+  apiStoreIds: [],
+  backfill: null,
+  pullJob: null,
+  featureCodes: [],
+  featureCodeRules: DEFAULT_FEATURE_CODE_RULES,
+  featureCodeLibrary: [],
+  rateRecords: [],
+  isLoading: false,
+  error: null,
+});
+
+// Pick the persistable parts of the wizard state for a saved analysis
+const toSnapshot = (state: RCAWizardState): AnalysisSnapshot => ({
+  currentStep: state.currentStep,
+  searchCriteria: state.searchCriteria,
+  searchResults: state.searchResults,
+  subjectStore: state.subjectStore,
+  competitors: state.competitors,
+  duplicateGroups: state.duplicateGroups,
+  selectedStores: state.selectedStores,
+  storeMetadata: state.storeMetadata,
+  storeRankings: state.storeRankings,
+  adjustmentFactors: state.adjustmentFactors,
+  customNames: state.customNames,
+  dateGaps: state.dateGaps,
+  apiStoreIds: state.apiStoreIds,
+  backfill: state.backfill,
+  featureCodes: state.featureCodes,
+  featureCodeRules: state.featureCodeRules,
+});
+
+const libraryMap = (mappings: FeatureCodeMapping[]) => new Map(mappings.map((m) => [m.tag, m.code]));
+
+// What Salesforce matching compares a store on; coordinates only help when the record has them too
+const salesforceQueryFor = (store: Store): SalesforceMatchesQuery => ({
+  street: store.address,
+  city: store.city,
+  state: store.state,
+  postalCode: store.zip,
+  storeName: store.storeName,
+  latitude: store.latitude,
+  longitude: store.longitude,
+});
+
+// StorTrack results don't always carry coordinates; fill gaps from dbo.Stores for the competitor map
+async function withCoordinates(stores: Store[]): Promise<Store[]> {
+  const missing = stores.filter((store) => !hasCoordinates(store)).map((store) => store.storeId);
+  if (missing.length === 0) return stores;
+
+  try {
+    const infoById = new Map((await getStoreInfo(missing)).map((info) => [info.storeId, info]));
+    return stores.map((store) => {
+      const info = infoById.get(store.storeId);
+      return info && hasCoordinates(info) ? { ...store, latitude: info.latitude, longitude: info.longitude } : store;
+    });
+  } catch (error) {
+    console.error('Store coordinate lookup failed:', error);
+    return stores;
+  }
+}
+
+// Trailing 12-month window shared by gap analysis and rate loading
+function trailing12MonthWindow(): DateRange {
+  const toDate = new Date();
+  const fromDate = new Date(toDate);
+  fromDate.setMonth(fromDate.getMonth() - 12);
+  return {
+    from: fromDate.toISOString().split('T')[0],
+    to: toDate.toISOString().split('T')[0],
+  };
+}
+
+// Database rows for every store, plus API backfill of the missing years for
+// the stores ticked in the Data Gaps step once their backfill request is approved.
+// The StorTrack pulls run as a server-side job; `onProgress` sees each update.
+async function loadRateHistory(
+  stores: Store[],
+  gaps: DateGap[],
+  backfill: BackfillRequest | null,
+  onProgress: (job: PullJob) => void
+): Promise<RateRecord[]> {
+  const historyWindow = trailing12MonthWindow();
+  const storeIds = stores.map((s) => s.storeId);
+  
+  const { ratesByStore } = await getTrailing12MonthRates({
+    storeIds: rateStoreIds(stores),
+    fromDate: historyWindow.from,
+    toDate: historyWindow.to,
   });
+  const databaseRecords = foldMergedStores(Object.values(ratesByStore).flat(), stores);
+  
+  const apiRecords: RateRecord[] = [];
+  const failures = new Set<string>();
+  const approvedStores = backfill?.status === 'approved' ? backfill.stores : [];
+  const pullStores = approvedStores.flatMap(({ storeId, storeName, years }) => {
+    const gap = gaps.find((g) => g.storeId === storeId);
+    if (!gap || !storeIds.includes(storeId)) return [];
+    const ranges = backfillRanges({ ...gap, yearsNeeded: years }, historyWindow);
+    return ranges.length > 0 ? [{ storeId, storeName: storeName || gap.storeName, ranges }] : [];
+  });
+
+  if (backfill && pullStores.length > 0) {
+    try {
+      const job = await watchPullJob((await startPullJob({ backfillId: backfill.id, stores: pullStores })).id, onProgress);
+      // Finished stores are in the server's rate cache, so reading them back doesn't reach StorTrack
+      for (const store of job.stores) {
+        if (store.status !== 'completed') {
+          failures.add(`${store.storeName || `Store ${store.storeId}`}: ${store.error || 'pull failed'}`);
+          continue;
+        }
+        for (const range of store.ranges) {
+          try {
+            const records = await fetchHistoricalData({
+              storeId: store.storeId,
+              fromDate: range.from,
+              toDate: range.to,
+              backfillId: backfill.id,
+            });
+            apiRecords.push(...records);
+          } catch (e) {
+            console.warn(`Failed to fetch API history for store ${store.storeId} (${range.from} to ${range.to}):`, e);
+            failures.add(e instanceof Error ? e.message : 'Unknown error');
+          }
+        }
+      }
+    } catch (e) {
+      console.warn('StorTrack pull job failed:', e);
+      failures.add(e instanceof Error ? e.message : 'Unknown error');
+    }
+  }
+
+  // Database rows still load; say why the backfill is partial (e.g. the monthly budget is spent)
+  if (failures.size > 0) {
+    toast.error(`Some StorTrack history could not be loaded: ${Array.from(failures).join('; ')}`);
+  }
+  
+  return mergeRateRecords(databaseRecords, apiRecords);
+}
+
+export function useRCAWizard() {
+  const [state, setState] = useState<RCAWizardState>(createInitialState);
+
+  const trackPullJob = useCallback((job: PullJob) => {
+    setState((prev) => ({ ...prev, pullJob: job }));
+  }, []);
 
   const setStep = useCallback((step: number) => {
     setState((prev) => ({ ...prev, currentStep: step }));
@@ -170,12 +352,21 @@ export function useRCAWizard() {
         storeId: store.storeId,
         radius: state.searchCriteria.radius,
       });
+      const [subject, ...competitors] = await withCoordinates([
+        {
+          ...result.subject,
+          latitude: result.subject.latitude ?? store.latitude,
+          longitude: result.subject.longitude ?? store.longitude,
+        },
+        ...result.competitors,
+      ]);
       
       setState((prev) => ({
         ...prev,
         isLoading: false,
-        subjectStore: { ...result.subject, distance: 0 },
-        competitors: result.competitors,
+        subjectStore: { ...subject, distance: 0 },
+        competitors,
+        duplicateGroups: result.duplicates ?? [],
         error: null,
       }));
       
@@ -195,6 +386,7 @@ export function useRCAWizard() {
           isLoading: false,
           subjectStore: { ...store, distance: 0 },
           competitors,
+          duplicateGroups: [],
           error: null,
         };
       });
@@ -203,6 +395,35 @@ export function useRCAWizard() {
     }
   }, [state.searchCriteria.radius]);
 
+  // Treat a duplicate group as one facility: the kept store takes on the others' IDs (and
+  // any already merged into them) for rate history, and they leave the competitor list
+  const mergeDuplicateStores = useCallback((group: DuplicateStoreGroup, primaryId: number) => {
+    setState((prev) => {
+      const byId = new Map([prev.subjectStore, ...prev.competitors].filter(Boolean).map((s) => [s.storeId, s]));
+      const absorbedIds = group.storeIds.filter((id) => id !== primaryId);
+      const mergedStoreIds = Array.from(new Set([
+        ...(byId.get(primaryId)?.mergedStoreIds ?? []),
+        ...absorbedIds.flatMap((id) => [id, ...(byId.get(id)?.mergedStoreIds ?? [])]),
+      ]));
+      const merge = (store: Store) => (store.storeId === primaryId ? { ...store, mergedStoreIds } : store);
+
+      return {
+        ...prev,
+        subjectStore: prev.subjectStore && merge(prev.subjectStore),
+        competitors: prev.competitors.filter((s) => !absorbedIds.includes(s.storeId)).map(merge),
+        duplicateGroups: prev.duplicateGroups.filter((g) => !g.storeIds.includes(primaryId)),
+      };
+    });
+    toast.success(`Merged ${group.storeIds.length} store records into store ${primaryId}`);
+  }, []);
+
+  const dismissDuplicateGroup = useCallback((group: DuplicateStoreGroup) => {
+    setState((prev) => ({
+      ...prev,
+      duplicateGroups: prev.duplicateGroups.filter((g) => !g.storeIds.includes(group.storeIds[0])),
+    }));
+  }, []);
+
   const selectStoresForAnalysis = useCallback(async (stores: Store[]) => {
     setState((prev) => ({ ...prev, isLoading: true }));
     
@@ -218,31 +439,41 @@ export function useRCAWizard() {
       customNames[store.storeId] = store.storeName;
     });
     
-    // Fetch metadata from Salesforce_rawData for each store by matching address and name
+    // Stores an analyst already confirmed keep their saved figures and skip fuzzy matching
+    let links: Record<number, SalesforceStoreLink> = {};
+    try {
+      links = await getSalesforceStoreLinks(selected);
+      for (const [storeId, link] of Object.entries(links)) {
+        metadata[Number(storeId)] = {
+          ...metadata[Number(storeId)],
+          yearBuilt: link.yearBuilt,
+          squareFootage: link.squareFootage,
+          link,
+        };
+      }
+    } catch (error) {
+      console.warn('Failed to fetch Salesforce links:', error);
+    }
+    const unlinked = selected.filter((store) => !links[store.storeId]);
+
+    // Match the remaining stores against Salesforce_rawData by address and name in one request
     // Uses fuzzy matching logic like RCA_template.py
-    const metadataPromises = selected.map(async (store) => {
-      try {
-        const result = await getSalesforceMetadataByAddress({
-          street: store.address,
-          city: store.city,
-          state: store.state,
-          postalCode: store.zip,
-          storeName: store.storeName,
-        });
-        
-        if (result && result.matched) {
-          metadata[store.storeId] = {
-            ...metadata[store.storeId],
-            yearBuilt: result.yearBuilt,
-            squareFootage: result.squareFootage,
-          };
-        }
-      } catch (error) {
-        console.warn(`Failed to fetch metadata for store ${store.storeId}:`, error);
+    try {
+      const matched = unlinked.length === 0 ? {} : await getSalesforceMetadataForStores(unlinked.map((store) => ({
+        ...salesforceQueryFor(store),
+        storeId: store.storeId,
+      })));
+      for (const [storeId, result] of Object.entries(matched)) {
+        metadata[Number(storeId)] = {
+          ...metadata[Number(storeId)],
+          yearBuilt: result.yearBuilt,
+          squareFootage: result.squareFootage,
+        };
       }
-    });
-    
-    await Promise.all(metadataPromises);
+    } catch (error) {
+      console.warn('Failed to fetch Salesforce metadata:', error);
+      toast.error('Could not load Salesforce metadata; enter year built and square footage manually');
+    }
     
     setState((prev) => ({
       ...prev,
@@ -254,8 +485,10 @@ export function useRCAWizard() {
     }));
     
     const matchedCount = Object.values(metadata).filter(m => m.yearBuilt || m.squareFootage).length;
+    const linkedCount = Object.keys(links).length;
     if (matchedCount > 0) {
-      toast.success(`Found metadata for ${matchedCount} of ${selected.length} stores`);
+      const verified = linkedCount > 0 ? ` (${linkedCount} previously verified)` : '';
+      toast.success(`Found metadata for ${matchedCount} of ${selected.length} stores${verified}`);
     }
   }, [state.subjectStore]);
 
@@ -263,13 +496,7 @@ export function useRCAWizard() {
   // Uses fuzzy matching logic like RCA_template.py
   const fetchStoreMetadata = useCallback(async (store: Store) => {
     try {
-      const result = await getSalesforceMetadataByAddress({
-        street: store.address,
-        city: store.city,
-        state: store.state,
-        postalCode: store.zip,
-        storeName: store.storeName,
-      });
+      const result = await getSalesforceMetadataByAddress(salesforceQueryFor(store));
       
       if (result && result.matched) {
         setState((prev) => ({
@@ -295,13 +522,7 @@ export function useRCAWizard() {
   // Like RCA_template.py prompt_for_salesforce_match
   const fetchSalesforceMatchesForStore = useCallback(async (store: Store): Promise<SalesforceMatch[]> => {
     try {
-      const matches = await getSalesforceMatches({
-        street: store.address,
-        city: store.city,
-        state: store.state,
-        postalCode: store.zip,
-        storeName: store.storeName,
-      });
+      const matches = await getSalesforceMatches(salesforceQueryFor(store));
       return matches;
     } catch (error) {
       console.error('Failed to fetch Salesforce matches:', error);
@@ -319,6 +540,27 @@ export function useRCAWizard() {
     }));
   }, []);
 
+  // Remember the analyst's confirmation so later analyses reuse it instead of matching again
+  const saveStoreLink = useCallback(async (
+    store: Store,
+    confirmed: ConfirmedMetadata
+  ) => {
+    try {
+      const link = await saveSalesforceStoreLink(store.storeId, { ...confirmed, masterId: store.masterId ?? null });
+      setState((prev) => ({
+        ...prev,
+        storeMetadata: {
+          ...prev.storeMetadata,
+          [store.storeId]: { ...prev.storeMetadata[store.storeId], link },
+        },
+      }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Save Salesforce link error:', error);
+      toast.error(`Could not save the confirmed match for ${store.storeName}: ${message}`);
+    }
+  }, []);
+
   const updateStoreRankings = useCallback((storeId: number, rankings: Partial<StoreRankings>) => {
     setState((prev) => ({
       ...prev,
@@ -348,26 +590,21 @@ export function useRCAWizard() {
     setState((prev) => ({ ...prev, isLoading: true, error: null }));
     
     try {
-      const storeIds = state.selectedStores.map((s) => s.storeId);
-      const result = await getTrailing12MonthRates({ storeIds });
+      const storeIds = rateStoreIds(state.selectedStores);
+      const gapWindow = trailing12MonthWindow();
+      const [result, policy] = await Promise.all([
+        getTrailing12MonthRates({ storeIds, fromDate: gapWindow.from, toDate: gapWindow.to }),
+        getBackfillPolicy(),
+      ]);
+      const datesByStore = foldMergedDates(result.datesByStore, state.selectedStores);
       
-      // Calculate gaps based on actual data coverage
-      const gaps: DateGap[] = state.selectedStores.map((store) => {
-        const dates = result.datesByStore[store.storeId] || [];
-        const totalExpectedDays = 365;
-        const actualDays = dates.length;
-        const missingDays = Math.max(0, totalExpectedDays - actualDays);
-        
-        return {
-          storeId: store.storeId,
-          storeName: store.storeName,
-          missingDays,
-          coveragePercent: Math.round((actualDays / totalExpectedDays) * 100 * 10) / 10,
-          dateRanges: [], // Would need more detailed analysis
-          yearsNeeded: missingDays > 30 ? [2024, 2025] : [],
-          estimatedCost: missingDays > 30 ? 12.5 * Math.ceil(missingDays / 30) : 0,
-        };
-      });
+      // Walk each store's collection dates against the trailing window
+      const gaps: DateGap[] = state.selectedStores.map((store) =>
+        analyzeStoreGaps(store, datesByStore[store.storeId] || [], {
+          ...gapWindow,
+          costPerStoreYear: policy.costPerStoreYear,
+        })
+      );
       
       setState((prev) => ({
         ...prev,
@@ -388,66 +625,136 @@ export function useRCAWizard() {
     }
   }, [state.selectedStores]);
 
+  // Changing the backfill selection invalidates any rate records already loaded,
+  // and any backfill request made for the old selection
   const setApiStoreIds = useCallback((ids: number[]) => {
-    setState((prev) => ({ ...prev, apiStoreIds: ids }));
+    setState((prev) => ({ ...prev, apiStoreIds: ids, backfill: null, pullJob: null, rateRecords: [] }));
   }, []);
 
+  // Ask the server to price the selected stores' missing years; small backfills come back
+  // approved, larger ones wait for an approver
+  const requestBackfill = useCallback(async () => {
+    const stores = state.dateGaps
+      .filter((gap) => state.apiStoreIds.includes(gap.storeId) && gap.yearsNeeded.length > 0)
+      .map((gap) => ({ storeId: gap.storeId, storeName: gap.storeName, years: gap.yearsNeeded }));
+    if (stores.length === 0) return null;
+
+    try {
+      const backfill = await createBackfillRequest({ analysisName: state.analysisName || undefined, stores });
+      setState((prev) => ({ ...prev, backfill, rateRecords: [] }));
+      if (backfill.status === 'approved') {
+        toast.success(`Backfill approved ($${backfill.estimatedCost.toFixed(2)})`);
+      } else {
+        toast.info(`Backfill #${backfill.id} ($${backfill.estimatedCost.toFixed(2)}) is waiting for approver sign-off`);
+      }
+      return backfill;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to request backfill';
+      console.error('Backfill request error:', error);
+      toast.error(message);
+      return null;
+    }
+  }, [state.dateGaps, state.apiStoreIds, state.analysisName]);
+
+  const refreshBackfill = useCallback(async () => {
+    if (!state.backfill) return;
+    try {
+      const backfill = await getBackfillRequest(state.backfill.id);
+      setState((prev) => ({
+        ...prev,
+        backfill,
+        rateRecords: backfill.status !== prev.backfill?.status ? [] : prev.rateRecords,
+      }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to check backfill status';
+      console.error('Backfill status error:', error);
+      toast.error(message);
+    }
+  }, [state.backfill]);
+
   const updateFeatureCode = useCallback((tag: string, code: string) => {
     setState((prev) => ({
       ...prev,
       featureCodes: prev.featureCodes.map((fc) =>
-        fc.originalTag === tag ? { ...fc, code } : fc
+        fc.originalTag === tag ? { ...fc, code, origin: 'manual' as const } : fc
       ),
     }));
   }, []);
 
+  // Re-run the classifier with edited rules; hand-assigned and library codes are kept
+  const updateFeatureCodeRules = useCallback((rules: FeatureCodeRule[]) => {
+    setState((prev) => ({
+      ...prev,
+      featureCodeRules: rules,
+      featureCodes: prev.rateRecords.length > 0
+        ? classifyFeatureCodes(prev.rateRecords, rules, prev.featureCodes, libraryMap(prev.featureCodeLibrary))
+        : prev.featureCodes,
+    }));
+  }, []);
+
+  // Share the analyst's edited codes with everyone by saving them to the library
+  const promoteFeatureCodes = useCallback(async () => {
+    const edits = state.featureCodes.filter(
+      (fc) => fc.origin === 'manual' && fc.code.trim() !== '' && fc.code !== fc.libraryCode
+    );
+    if (edits.length === 0) {
+      toast.info('No edited codes to save');
+      return;
+    }
+
+    try {
+      const saved = await saveFeatureCodeMappings(edits.map((fc) => ({ tag: fc.originalTag, code: fc.code })));
+      const savedByTag = new Map(saved.map((m) => [m.tag, m]));
+
+      setState((prev) => ({
+        ...prev,
+        featureCodeLibrary: [
+          ...prev.featureCodeLibrary.filter((m) => !savedByTag.has(m.tag)),
+          ...saved,
+        ],
+        featureCodes: prev.featureCodes.map((fc) => {
+          const mapping = savedByTag.get(fc.originalTag);
+          return mapping ? { ...fc, libraryCode: mapping.code } : fc;
+        }),
+      }));
+      toast.success(`Saved ${saved.length} mapping${saved.length !== 1 ? 's' : ''} to the shared library`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to save mappings';
+      console.error('Promote feature codes error:', error);
+      toast.error(message);
+    }
+  }, [state.featureCodes]);
+
   // Initialize feature codes from actual rate data
   const initializeFeatureCodes = useCallback(async () => {
     setState((prev) => ({ ...prev, isLoading: true }));
     
     try {
-      // Fetch historical data to get unique tags
-      const today = new Date();
-      const fromDate = new Date(today);
-      fromDate.setMonth(fromDate.getMonth() - 12);
-      
-      const allRecords: RateRecord[] = [];
-      
-      for (const store of state.selectedStores) {
-        try {
-          const records = await fetchHistoricalData({
-            storeId: store.storeId,
-            fromDate: fromDate.toISOString().split('T')[0],
-            toDate: today.toISOString().split('T')[0],
-          });
-          allRecords.push(...records);
-        } catch (e) {
-          console.warn(`Failed to fetch data for store ${store.storeId}:`, e);
-        }
-      }
-      
-      // Extract unique tags and count occurrences
-      const tagCounts: Record<string, number> = {};
-      allRecords.forEach((record) => {
-        const tag = record.tag || record.unitType || 'Unknown';
-        tagCounts[tag] = (tagCounts[tag] || 0) + 1;
-      });
-      
-      // Convert to FeatureCode array
-      const featureCodes: FeatureCode[] = Object.entries(tagCounts)
-        .map(([tag, count]) => ({
-          originalTag: tag,
-          code: generateFeatureCode(tag),
-          count,
-        }))
-        .sort((a, b) => b.count - a.count);
+      // Load database rates plus any API backfill to get unique tags, and the shared tag library
+      const [allRecords, library] = await Promise.all([
+        loadRateHistory(state.selectedStores, state.dateGaps, state.backfill, trackPullJob),
+        listFeatureCodeMappings().catch((error) => {
+          console.error('Failed to load feature code library:', error);
+          toast.warning('Feature code library unavailable; using classification rules only');
+          return [];
+        }),
+      ]);
       
+      // Library codes first, then classify remaining tags from their records' flags and text
+      const mappings = libraryMap(library);
       setState((prev) => ({
         ...prev,
         isLoading: false,
-        featureCodes,
+        featureCodes: classifyFeatureCodes(allRecords, prev.featureCodeRules, prev.featureCodes, mappings),
+        featureCodeLibrary: library,
         rateRecords: allRecords,
       }));
+      
+      const tags = new Set(allRecords.map(tagOf));
+      const fromLibrary = Array.from(tags).filter((tag) => mappings.has(tag)).length;
+      if (fromLibrary > 0) {
+        toast.success(`Applied ${fromLibrary} of ${tags.size} codes from the shared library`);
+      }
     } catch (error) {
       console.error('Failed to initialize feature codes:', error);
       setState((prev) => ({
@@ -457,46 +764,17 @@ export function useRCAWizard() {
       }));
       toast.error('Failed to load feature codes');
     }
-  }, [state.selectedStores]);
-
-  // Generate feature code from tag
-  const generateFeatureCode = (tag: string): string => {
-    const lowerTag = tag.toLowerCase();
-    let code = '';
-    
-    if (lowerTag.includes('climate') || lowerTag.includes('cc')) code += 'CC';
-    if (lowerTag.includes('drive') || lowerTag.includes('du')) code += 'DU';
-    if (lowerTag.includes('ground') || lowerTag.includes('gl')) code += 'GL';
-    if (lowerTag.includes('elevator') || lowerTag.includes('el')) code += 'EL';
-    if (lowerTag.includes('outdoor')) code += 'OD';
-    
-    return code || tag.slice(0, 4).toUpperCase();
-  };
+  }, [state.selectedStores, state.dateGaps, state.backfill, trackPullJob]);
 
   // Export real CSV data
   const exportCSV = useCallback(async () => {
     setState((prev) => ({ ...prev, isLoading: true }));
     
     try {
-      // Fetch historical data for all selected stores
-      const today = new Date();
-      const fromDate = new Date(today);
-      fromDate.setMonth(fromDate.getMonth() - 12);
-      
-      const allRecords: RateRecord[] = [];
-      
-      for (const store of state.selectedStores) {
-        try {
-          const records = await fetchHistoricalData({
-            storeId: store.storeId,
-            fromDate: fromDate.toISOString().split('T')[0],
-            toDate: today.toISOString().split('T')[0],
-          });
-          allRecords.push(...records);
-        } catch (e) {
-          console.warn(`Failed to fetch data for store ${store.storeId}:`, e);
-        }
-      }
+      // Reuse the records loaded for feature codes, or load them now
+      const allRecords = state.rateRecords.length > 0
+        ? state.rateRecords
+        : await loadRateHistory(state.selectedStores, state.dateGaps, state.backfill, trackPullJob);
       
       if (allRecords.length === 0) {
         toast.error('No data available to export');
@@ -519,43 +797,50 @@ export function useRCAWizard() {
         'ZIP',
         'Unit Type',
         'Size',
+        'Size Bucket',
+        'Sq Ft',
         'Features',
         'Climate Controlled',
         'Drive Up',
         'Walk-In Price',
         'Online Price',
+        'Walk-In $/SF',
+        'Online $/SF',
         'Date',
         'Promo',
+        'Source',
       ];
       
       const rows = recordsWithNames.map((r) => [
-        `"${r.storeName}"`,
-        `"${r.address}"`,
-        `"${r.city}"`,
-        `"${r.state}"`,
-        `"${r.zip}"`,
-        `"${r.unitType}"`,
-        `"${r.size}"`,
-        `"${r.features || ''}"`,
+        r.storeName,
+        r.address,
+        r.city,
+        r.state,
+        r.zip,
+        r.unitType,
+        r.size,
+        r.unitSize.label,
+        r.unitSize.squareFeet,
+        r.features || '',
         r.climateControlled ? 'Yes' : 'No',
         r.driveUp ? 'Yes' : 'No',
-        r.walkInPrice || '',
-        r.onlinePrice || '',
+        r.walkInPrice,
+        r.onlinePrice,
+        r.walkInPerSqFt,
+        r.onlinePerSqFt,
         r.date,
-        `"${r.promo || ''}"`,
+        r.promo || '',
+        r.source,
       ]);
       
-      const csvContent = [headers.join(','), ...rows.map((r) => r.join(','))].join('\n');
+      const filePrefix = `RCA_export_${new Date().toISOString().slice(0, 10)}`;
+      downloadFile(toCSV(headers, rows), `${filePrefix}_data.csv`, 'text/csv');
       
-      const blob = new Blob([csvContent], { type: 'text/csv' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `RCA_export_${new Date().toISOString().slice(0, 10)}_data.csv`;
-      a.click();
-      URL.revokeObjectURL(url);
+      // Summary report: store × size × feature code averages over T-1/3/6/12
+      const summaryRows = buildSummaryReport(allRecords, state.featureCodes, state.customNames);
+      downloadFile(toCSV(SUMMARY_HEADERS, summaryRows.map(summaryRowToCSV)), `${filePrefix}_summary.csv`, 'text/csv');
       
-      toast.success(`Exported ${recordsWithNames.length} records`);
+      toast.success(`Exported ${recordsWithNames.length} records and ${summaryRows.length} summary rows`);
       setState((prev) => ({ ...prev, isLoading: false }));
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Failed to export data';
@@ -563,7 +848,118 @@ export function useRCAWizard() {
       toast.error(message);
       setState((prev) => ({ ...prev, isLoading: false }));
     }
-  }, [state.selectedStores, state.customNames]);
+  }, [
+    state.rateRecords,
+    state.selectedStores,
+    state.dateGaps,
+    state.backfill,
+    state.customNames,
+    state.featureCodes,
+    trackPullJob,
+  ]);
+
+  // Export the multi-tab Excel workbook for investment committee
+  const exportExcel = useCallback(async () => {
+    setState((prev) => ({ ...prev, isLoading: true }));
+    
+    try {
+      const allRecords = state.rateRecords.length > 0
+        ? state.rateRecords
+        : await loadRateHistory(state.selectedStores, state.dateGaps, state.backfill, trackPullJob);
+      
+      if (allRecords.length === 0) {
+        toast.error('No data available to export');
+        setState((prev) => ({ ...prev, isLoading: false }));
+        return;
+      }
+      
+      const workbook = await buildRCAWorkbook({
+        subjectStore: state.subjectStore,
+        selectedStores: state.selectedStores,
+        storeMetadata: state.storeMetadata,
+        storeRankings: state.storeRankings,
+        adjustmentFactors: state.adjustmentFactors,
+        customNames: state.customNames,
+        featureCodes: state.featureCodes,
+        rateRecords: allRecords,
+      });
+      
+      downloadFile(
+        workbook,
+        `RCA_export_${new Date().toISOString().slice(0, 10)}.xlsx`,
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+      );
+      
+      toast.success('Exported Excel workbook');
+      setState((prev) => ({ ...prev, isLoading: false }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to export workbook';
+      console.error('Excel export error:', error);
+      toast.error(message);
+      setState((prev) => ({ ...prev, isLoading: false }));
+    }
+  }, [
+    state.rateRecords,
+    state.subjectStore,
+    state.selectedStores,
+    state.dateGaps,
+    state.backfill,
+    state.storeMetadata,
+    state.storeRankings,
+    state.adjustmentFactors,
+    state.customNames,
+    state.featureCodes,
+    trackPullJob,
+  ]);
+
+  // Create or update the server-side copy of this analysis
+  const saveAnalysis = useCallback(async (name?: string) => {
+    const subjectName = state.subjectStore
+      ? state.customNames[state.subjectStore.storeId] || state.subjectStore.storeName
+      : null;
+    const analysisName = name || state.analysisName || subjectName || 'Untitled Analysis';
+    const snapshot = toSnapshot(state);
+
+    try {
+      const saved = state.analysisId
+        ? await updateAnalysis(state.analysisId, { name: analysisName, subjectStoreName: subjectName, state: snapshot })
+        : await createAnalysis({ name: analysisName, subjectStoreName: subjectName, state: snapshot });
+
+      setState((prev) => ({ ...prev, analysisId: saved.id, analysisName: saved.name }));
+      toast.success(`Saved "${saved.name}"`);
+      return saved.id;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to save analysis';
+      console.error('Save analysis error:', error);
+      toast.error(message);
+      return null;
+    }
+  }, [state]);
+
+  // Restore a saved analysis into the wizard
+  const loadAnalysis = useCallback(async (id: number) => {
+    setState((prev) => ({ ...prev, isLoading: true, error: null }));
+
+    try {
+      const saved = await getAnalysis(id);
+      setState({
+        ...createInitialState(),
+        ...saved.state,
+        analysisId: saved.id,
+        analysisName: saved.name,
+      });
+      toast.success(`Opened "${saved.name}"`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to load analysis';
+      console.error('Load analysis error:', error);
+      setState((prev) => ({ ...prev, isLoading: false, error: message }));
+      toast.error(message);
+    }
+  }, []);
+
+  const resetWizard = useCallback(() => {
+    setState(createInitialState());
+  }, []);
 
   return {
     state,
@@ -574,18 +970,29 @@ export function useRCAWizard() {
       updateSearchCriteria,
       searchStores,
       selectSubjectStore,
+      mergeDuplicateStores,
+      dismissDuplicateGroup,
       selectStoresForAnalysis,
       fetchStoreMetadata,
       fetchSalesforceMatchesForStore,
       updateStoreMetadata,
+      saveStoreLink,
       updateStoreRankings,
       updateAdjustmentFactors,
       updateCustomName,
       analyzeGaps,
       setApiStoreIds,
+      requestBackfill,
+      refreshBackfill,
       updateFeatureCode,
+      updateFeatureCodeRules,
+      promoteFeatureCodes,
       initializeFeatureCodes,
       exportCSV,
+      exportExcel,
+      saveAnalysis,
+      loadAnalysis,
+      resetWizard,
     },
   };
 }
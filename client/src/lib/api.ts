@@ -1,4 +1,47 @@
-import type { Store, RateRecord, SalesforceMatch } from "@/types/rca";
+import type {
+  Store,
+  RateRecord,
+  RawRateRecord,
+  SalesforceMatch,
+  SalesforceStoreLink,
+  ConfirmedMetadata,
+  AnalysisSnapshot,
+  AnalysisSummary,
+  SavedAnalysis,
+  FeatureCodeMapping,
+  AuthUser,
+  UserRole,
+  BackfillRequest,
+  BackfillStore,
+  BackfillPolicy,
+  SpendReport,
+  PullJob,
+  PullJobStore,
+} from "@/types/rca";
+import type {
+  ApiSalesforceMatch,
+  ApiStore,
+  CompetitorsQuery,
+  CompetitorsResponse,
+  SalesforceBatchMatchRequest,
+  SalesforceBatchMatchResponse,
+  SalesforceMatchesQuery,
+  StoreRatesQuery,
+  StoreRatesResponse,
+  StoreSearchQuery,
+} from "@shared/api";
+import { withUnitSize } from "@/lib/unitSize";
+
+export const LOGIN_PATH = '/login';
+
+// The session expired mid-use: send the browser through login and back to where it was
+function handleUnauthorized(): never {
+  if (window.location.pathname !== LOGIN_PATH) {
+    const next = encodeURIComponent(window.location.pathname + window.location.search);
+    window.location.assign(`${LOGIN_PATH}?next=${next}`);
+  }
+  throw new Error('Your session has expired. Please sign in again.');
+}
 
 async function apiRequest<T>(endpoint: string, body: { action: string; params: Record<string, any> }): Promise<T> {
   const response = await fetch(endpoint, {
@@ -9,139 +52,78 @@ async function apiRequest<T>(endpoint: string, body: { action: string; params: R
     body: JSON.stringify(body),
   });
 
-  if (!response.ok) {
-    throw new Error(`API error: ${response.status}`);
+  if (response.status === 401) {
+    handleUnauthorized();
   }
 
-  const data = await response.json();
-  if (!data.success) {
-    throw new Error(data.error || 'Unknown error');
+  // Refusals (role, backfill scope, monthly budget) carry their reason in the envelope
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(data?.error || `API error: ${response.status}`);
+  }
+  if (!data?.success) {
+    throw new Error(data?.error || 'Unknown error');
   }
 
   return data.data;
 }
 
-export async function searchStoresByAddress(params: {
-  state: string;
-  city: string;
-  zip: string;
-  storeName?: string;
-  companyName?: string;
-}): Promise<Store[]> {
-  const data = await apiRequest<any[]>('/api/stortrack', {
-    action: 'findStoresByAddress',
-    params: {
-      country: 'United States',
-      state: params.state,
-      city: params.city,
-      zip: params.zip,
-      storename: params.storeName || '',
-      companyname: params.companyName || '',
+// Same { success, data, error } envelope as apiRequest, for resource-style routes
+async function restRequest<T>(method: 'GET' | 'POST' | 'PUT' | 'DELETE', endpoint: string, body?: unknown): Promise<T> {
+  const response = await fetch(endpoint, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
     },
+    body: body === undefined ? undefined : JSON.stringify(body),
   });
 
-  return data.map((store: any) => ({
-    storeId: store.storeid || store.id,
-    masterId: store.masterid,
-    storeName: store.storename || store.name || '',
-    address: store.address || '',
-    city: store.city || '',
-    state: store.state || '',
-    zip: store.zip || '',
-    distance: store.distance || 0,
-    latitude: store.latitude,
-    longitude: store.longitude,
-  }));
+  if (response.status === 401) {
+    handleUnauthorized();
+  }
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data?.success) {
+    throw new Error(data?.error || `API error: ${response.status}`);
+  }
+
+  return data.data;
+}
+
+// Query string for the resource routes; empty values are left to the server's defaults
+function toQuery(params: Record<string, string | number | undefined>): string {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== '') query.set(key, String(value));
+  }
+  return query.toString();
+}
+
+export async function searchStoresByAddress(params: StoreSearchQuery): Promise<Store[]> {
+  return restRequest<ApiStore[]>('GET', `/api/stores/search?${toQuery({ country: 'United States', ...params })}`);
 }
 
 export async function findCompetitors(params: {
   storeId: number;
   radius: number;
-}): Promise<{ subject: Store; competitors: Store[] }> {
-  const data = await apiRequest<any>('/api/stortrack', {
-    action: 'findCompetitors',
-    params: {
-      storeid: params.storeId,
-      coveragezone: params.radius,
-    },
-  });
-
-  const storeData = Array.isArray(data) ? data[0] : data;
-
-  const subject: Store = {
-    storeId: storeData.storeid,
-    masterId: storeData.masterid,
-    storeName: storeData.storename || '',
-    address: storeData.address || '',
-    city: storeData.city || '',
-    state: storeData.state || '',
-    zip: storeData.zip || '',
-    distance: 0,
-  };
-
-  const competitorsData = storeData.competitorstores || [];
-  const competitors: Store[] = competitorsData.map((comp: any) => ({
-    storeId: comp.storeid,
-    masterId: comp.masterid,
-    storeName: comp.storename || '',
-    address: comp.address || '',
-    city: comp.city || '',
-    state: comp.state || '',
-    zip: comp.zip || '',
-    distance: comp.distance || 0,
-  }));
-
-  return { subject, competitors };
+}): Promise<CompetitorsResponse> {
+  const query: CompetitorsQuery = { radius: params.radius };
+  return restRequest('GET', `/api/stores/${params.storeId}/competitors?${toQuery(query)}`);
 }
 
+// The server only runs pulls covered by an approved backfill request the caller made
 export async function fetchHistoricalData(params: {
   storeId: number;
   fromDate: string;
   toDate: string;
+  backfillId: number;
 }): Promise<RateRecord[]> {
-  const data = await apiRequest<any[]>('/api/stortrack', {
-    action: 'fetchHistoricalData',
-    params: {
-      storeid: params.storeId,
-      from: params.fromDate,
-      to: params.toDate,
-    },
-  });
-
-  const records: RateRecord[] = [];
-
-  for (const storeData of data) {
-    const rates = storeData.rates || storeData.rateinfo || [];
-    for (const rate of rates) {
-      records.push({
-        storeId: params.storeId,
-        storeName: storeData.storename || '',
-        address: storeData.address || '',
-        city: storeData.city || '',
-        state: storeData.state || '',
-        zip: storeData.zip || '',
-        unitType: rate.spacetype || rate.unittype || '',
-        size: rate.size || rate.unitsize || '',
-        width: rate.width,
-        length: rate.length,
-        height: rate.height,
-        features: rate.features || '',
-        tag: rate.tag || rate.spacetype || '',
-        climateControlled: rate.climate_controlled || rate.cc || false,
-        humidityControlled: rate.humidity_controlled || false,
-        driveUp: rate.drive_up || rate.driveup || false,
-        elevator: rate.elevator || false,
-        outdoorAccess: rate.outdoor_access || false,
-        walkInPrice: rate.regular_rate || rate.regularrate || rate.rate,
-        onlinePrice: rate.online_rate || rate.onlinerate,
-        date: rate.date_collected || rate.datecollected || rate.date || '',
-        promo: rate.promo || rate.promotion || '',
-        source: 'API' as const,
-      });
-    }
-  }
-
-  return records;
+  const query: StoreRatesQuery = { from: params.fromDate, to: params.toDate, backfillId: params.backfillId };
+  const { records } = await restRequest<StoreRatesResponse>(
+    'GET',
+    `/api/stores/${params.storeId}/rates?${toQuery(query)}`
+  );
+  return records.map(withUnitSize);
 }
 
 export async function checkMCPHealth(): Promise<{ healthy: boolean; status: number }> {
@@ -169,93 +151,305 @@ export async function getTrailing12MonthRates(params: {
   fromDate?: string;
   toDate?: string;
 }): Promise<{ ratesByStore: Record<number, RateRecord[]>; datesByStore: Record<number, string[]> }> {
-  return apiRequest('/api/database', { action: 'getTrailing12MonthRates', params });
+  const data = await apiRequest<{
+    ratesByStore: Record<number, RawRateRecord[]>;
+    datesByStore: Record<number, string[]>;
+  }>('/api/database', { action: 'getTrailing12MonthRates', params });
+
+  const ratesByStore: Record<number, RateRecord[]> = {};
+  for (const [storeId, records] of Object.entries(data.ratesByStore || {})) {
+    ratesByStore[Number(storeId)] = records.map(withUnitSize);
+  }
+  return { ratesByStore, datesByStore: data.datesByStore || {} };
 }
 
-export async function getSalesforceMetadataByAddress(params: {
-  street: string;
-  city: string;
-  state: string;
-  postalCode: string;
-  storeName?: string;
-}): Promise<{
+export interface SalesforceMetadata {
   yearBuilt: number | null;
   squareFootage: number | null;
   matched: boolean;
   matchScore?: number;
-} | null> {
-  try {
-    const results = await apiRequest<any[]>('/api/database', {
-      action: 'getSalesforceMetadataByAddress',
-      params
-    });
-
-    if (!results || (Array.isArray(results) && results.length === 0)) {
-      return null;
-    }
-
-    const record = Array.isArray(results) ? results[0] : results;
+}
 
-    let yearBuilt: number | null = null;
-    let squareFootage: number | null = null;
+// Year built and rentable square feet from a match, when they're plausible
+function toSalesforceMetadata(record: SalesforceMatch): SalesforceMetadata {
+  let yearBuilt: number | null = null;
+  let squareFootage: number | null = null;
 
-    if (record.Year_Built__c) {
-      const parsed = parseInt(record.Year_Built__c, 10);
-      if (!isNaN(parsed) && parsed >= 1900 && parsed <= 2030) {
-        yearBuilt = parsed;
-      }
+  if (record.Year_Built__c) {
+    const parsed = parseInt(String(record.Year_Built__c), 10);
+    if (!isNaN(parsed) && parsed >= 1900 && parsed <= 2030) {
+      yearBuilt = parsed;
     }
+  }
 
-    if (record.Net_RSF__c) {
-      const parsed = parseFloat(record.Net_RSF__c);
-      if (!isNaN(parsed) && parsed > 0) {
-        squareFootage = parsed;
-      }
+  if (record.Net_RSF__c) {
+    const parsed = parseFloat(String(record.Net_RSF__c));
+    if (!isNaN(parsed) && parsed > 0) {
+      squareFootage = parsed;
     }
-
-    return {
-      yearBuilt,
-      squareFootage,
-      matched: true,
-      matchScore: record.combinedScore,
-    };
-  } catch (error) {
-    console.error('Failed to fetch Salesforce metadata by address:', error);
-    return null;
   }
+
+  return {
+    yearBuilt,
+    squareFootage,
+    matched: true,
+    matchScore: record.combinedScore,
+  };
 }
 
-export async function getSalesforceMatches(params: {
-  street: string;
-  city: string;
-  state: string;
-  postalCode: string;
-  storeName?: string;
-}): Promise<SalesforceMatch[]> {
-  try {
-    const results = await apiRequest<SalesforceMatch[]>('/api/database', {
-      action: 'getSalesforceMetadataByAddress',
-      params
-    });
+// Best Salesforce match for an address, with its year built and rentable square feet
+export async function getSalesforceMetadataByAddress(params: SalesforceMatchesQuery): Promise<SalesforceMetadata | null> {
+  const [record] = await getSalesforceMatches(params);
+  return record ? toSalesforceMetadata(record) : null;
+}
 
-    if (!results || !Array.isArray(results)) {
-      return [];
-    }
+// Best match for every store in one request, keyed by store ID; unmatched stores are left out
+export async function getSalesforceMetadataForStores(
+  stores: SalesforceBatchMatchRequest['stores']
+): Promise<Record<number, SalesforceMetadata>> {
+  const results = await restRequest<SalesforceBatchMatchResponse>('POST', '/api/salesforce/matches/batch', { stores });
+  const metadata: Record<number, SalesforceMetadata> = {};
+  for (const { storeId, matches: [best] } of results) {
+    if (best) metadata[storeId] = toSalesforceMetadata(best);
+  }
+  return metadata;
+}
 
-    return results;
+export async function getSalesforceMatches(params: SalesforceMatchesQuery): Promise<SalesforceMatch[]> {
+  try {
+    return await restRequest<ApiSalesforceMatch[]>('GET', `/api/salesforce/matches?${toQuery(params)}`);
   } catch (error) {
     console.error('Failed to fetch Salesforce matches:', error);
     return [];
   }
 }
 
-export async function getStoreInfo(storeIds: number[]): Promise<Record<number, {
-  storeId: number;
-  storeName: string;
-  address: string;
-  city: string;
-  state: string;
-  zip: string;
-}>> {
-  return apiRequest('/api/database', { action: 'getStoreInfo', params: { storeIds } });
+// Saved links for the stores, each under the store it belongs to; a store without its own
+// link picks up one made for the same facility (masterId) under another store ID
+export async function getSalesforceStoreLinks(
+  stores: Array<Pick<Store, 'storeId' | 'masterId'>>
+): Promise<Record<number, SalesforceStoreLink>> {
+  const masterIds = stores.map((store) => store.masterId).filter((id): id is number => id !== undefined);
+  const links = await restRequest<SalesforceStoreLink[]>('GET', `/api/salesforce/links?${toQuery({
+    storeIds: stores.map((store) => store.storeId).join(','),
+    masterIds: masterIds.join(','),
+  })}`);
+
+  const byStore: Record<number, SalesforceStoreLink> = {};
+  for (const store of stores) {
+    const link = links.find((l) => l.storeId === store.storeId)
+      ?? links.find((l) => store.masterId !== undefined && l.masterId === store.masterId);
+    if (link) byStore[store.storeId] = link;
+  }
+  return byStore;
+}
+
+export async function saveSalesforceStoreLink(
+  storeId: number,
+  params: Partial<ConfirmedMetadata & Pick<SalesforceStoreLink, 'masterId'>>
+): Promise<SalesforceStoreLink> {
+  return restRequest('PUT', `/api/salesforce/links/${storeId}`, params);
+}
+
+// dbo.Stores row as selected by the getStoreInfo action
+interface StoreInfoRow {
+  Store_ID: number;
+  Name: string | null;
+  Street_Address: string | null;
+  City: string | null;
+  State: string | null;
+  Zip: string | null;
+  Phone: string | null;
+  Latitude: number | string | null;
+  Longitude: number | string | null;
+}
+
+export async function getStoreInfo(storeIds: number[]): Promise<Store[]> {
+  const data = await apiRequest<StoreInfoRow[]>('/api/database', { action: 'getStoreInfo', params: { storeIds } });
+
+  return (Array.isArray(data) ? data : []).map((row) => ({
+    storeId: row.Store_ID,
+    storeName: row.Name || '',
+    address: row.Street_Address || '',
+    city: row.City || '',
+    state: row.State || '',
+    zip: row.Zip || '',
+    phone: row.Phone || undefined,
+    latitude: row.Latitude == null ? undefined : Number(row.Latitude),
+    longitude: row.Longitude == null ? undefined : Number(row.Longitude),
+  }));
+}
+
+export async function listAnalyses(): Promise<AnalysisSummary[]> {
+  return restRequest('GET', '/api/analyses');
+}
+
+export async function getAnalysis(id: number): Promise<SavedAnalysis> {
+  return restRequest('GET', `/api/analyses/${id}`);
+}
+
+export async function createAnalysis(params: {
+  name: string;
+  subjectStoreName: string | null;
+  state: AnalysisSnapshot;
+}): Promise<SavedAnalysis> {
+  return restRequest('POST', '/api/analyses', {
+    ...params,
+    currentStep: params.state.currentStep,
+  });
+}
+
+export async function updateAnalysis(id: number, params: {
+  name?: string;
+  subjectStoreName?: string | null;
+  state: AnalysisSnapshot;
+}): Promise<SavedAnalysis> {
+  return restRequest('PUT', `/api/analyses/${id}`, {
+    ...params,
+    currentStep: params.state.currentStep,
+  });
+}
+
+export async function deleteAnalysis(id: number): Promise<void> {
+  await restRequest('DELETE', `/api/analyses/${id}`);
+}
+
+export async function listFeatureCodeMappings(): Promise<FeatureCodeMapping[]> {
+  return restRequest('GET', '/api/feature-code-mappings');
+}
+
+export async function saveFeatureCodeMappings(mappings: Array<{ tag: string; code: string }>): Promise<FeatureCodeMapping[]> {
+  return restRequest('PUT', '/api/feature-code-mappings', { mappings });
+}
+
+// Null when signed out; unlike other requests this never redirects, so the login page can use it
+export async function getCurrentUser(): Promise<AuthUser | null> {
+  const response = await fetch('/api/auth/me');
+  if (response.status === 401) return null;
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data?.success) {
+    throw new Error(data?.error || `API error: ${response.status}`);
+  }
+  return data.data;
+}
+
+export async function login(username: string, password: string): Promise<AuthUser> {
+  const response = await fetch('/api/auth/login', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ username, password }),
+  });
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data?.success) {
+    throw new Error(data?.error || `API error: ${response.status}`);
+  }
+  return data.data;
+}
+
+export async function logout(): Promise<void> {
+  await restRequest('POST', '/api/auth/logout');
+}
+
+export async function listUsers(): Promise<AuthUser[]> {
+  return restRequest('GET', '/api/users');
+}
+
+export async function createUser(params: {
+  username: string;
+  email: string;
+  password: string;
+  role: UserRole;
+}): Promise<AuthUser> {
+  return restRequest('POST', '/api/users', params);
+}
+
+export async function updateUserRole(id: number, role: UserRole): Promise<AuthUser> {
+  return restRequest('PUT', `/api/users/${id}/role`, { role });
+}
+
+export async function getBackfillPolicy(): Promise<BackfillPolicy> {
+  return restRequest('GET', '/api/backfills/policy');
+}
+
+export async function listBackfillRequests(status?: BackfillRequest['status']): Promise<BackfillRequest[]> {
+  return restRequest('GET', status ? `/api/backfills?status=${status}` : '/api/backfills');
+}
+
+export async function getBackfillRequest(id: number): Promise<BackfillRequest> {
+  return restRequest('GET', `/api/backfills/${id}`);
+}
+
+export async function requestBackfill(params: {
+  analysisName?: string;
+  stores: BackfillStore[];
+}): Promise<BackfillRequest> {
+  return restRequest('POST', '/api/backfills', params);
+}
+
+export async function decideBackfillRequest(
+  id: number,
+  status: 'approved' | 'rejected',
+  note?: string
+): Promise<BackfillRequest> {
+  return restRequest('POST', `/api/backfills/${id}/decision`, { status, note });
+}
+
+export async function getSpendReport(from: string, to: string): Promise<SpendReport> {
+  const query = new URLSearchParams({ from, to });
+  return restRequest('GET', `/api/spend?${query}`);
+}
+
+export async function startPullJob(params: {
+  backfillId: number;
+  stores: Array<Pick<PullJobStore, 'storeId' | 'storeName' | 'ranges'>>;
+}): Promise<PullJob> {
+  return restRequest('POST', '/api/pull-jobs', params);
+}
+
+export async function getPullJob(id: number): Promise<PullJob> {
+  return restRequest('GET', `/api/pull-jobs/${id}`);
+}
+
+const PULL_JOB_POLL_MS = 3000;
+
+const isPullJobFinished = (job: PullJob) => job.status === 'completed' || job.status === 'failed';
+
+// Follows a pull job over server-sent events until it finishes, falling back to
+// polling if the stream can't be opened or drops part way
+export function watchPullJob(id: number, onUpdate: (job: PullJob) => void): Promise<PullJob> {
+  return new Promise((resolve, reject) => {
+    const update = (job: PullJob) => {
+      onUpdate(job);
+      if (isPullJobFinished(job)) resolve(job);
+      return isPullJobFinished(job);
+    };
+
+    const poll = async () => {
+      try {
+        while (!update(await getPullJob(id))) {
+          await new Promise((r) => setTimeout(r, PULL_JOB_POLL_MS));
+        }
+      } catch (err) {
+        reject(err);
+      }
+    };
+
+    if (typeof EventSource === 'undefined') {
+      poll();
+      return;
+    }
+
+    const source = new EventSource(`/api/pull-jobs/${id}/events`);
+    source.onmessage = (event) => {
+      if (update(JSON.parse(event.data))) source.close();
+    };
+    source.onerror = () => {
+      source.close();
+      poll();
+    };
+  });
 }
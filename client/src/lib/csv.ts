@@ -0,0 +1,21 @@
+export type CSVValue = string | number | null | undefined;
+
+const escapeCell = (value: CSVValue): string => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : '';
+  return `"${value.replace(/"/g, '""')}"`;
+};
+
+export function toCSV(headers: string[], rows: CSVValue[][]): string {
+  return [headers.map(escapeCell).join(','), ...rows.map((row) => row.map(escapeCell).join(','))].join('\n');
+}
+
+export function downloadFile(content: BlobPart, filename: string, type: string) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
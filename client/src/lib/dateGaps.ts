@@ -0,0 +1,119 @@
+import type { DateGap, DateRange } from '@/types/rca';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Work in whole UTC days so DST shifts never create phantom gaps
+const toDay = (date: string | Date): number => {
+  const iso = typeof date === 'string' ? date.slice(0, 10) : date.toISOString().slice(0, 10);
+  return Math.floor(Date.parse(`${iso}T00:00:00Z`) / DAY_MS);
+};
+
+const fromDay = (day: number): string => new Date(day * DAY_MS).toISOString().slice(0, 10);
+
+/**
+ * Infer the vendor's collection cadence in days from the spacing of observed
+ * dates. Uses the median spacing so a few missed collections don't inflate it.
+ */
+export function detectCadence(dates: string[]): number {
+  const days = Array.from(new Set(dates.filter(Boolean).map(toDay))).sort((a, b) => a - b);
+  if (days.length < 2) return 1;
+
+  const spacings = days.slice(1).map((day, i) => day - days[i]).sort((a, b) => a - b);
+  const median = spacings[Math.floor(spacings.length / 2)];
+  return Math.min(Math.max(median, 1), 31);
+}
+
+export interface GapAnalysisOptions {
+  from: Date | string;
+  to: Date | string;
+  // Expected days between collections; detected from the data when omitted
+  cadenceDays?: number;
+  // Most recent days not yet loaded into the database; excluded from the check
+  lagDays?: number;
+  // StorTrack bills historical pulls per store per calendar year; the price comes from /api/backfills/policy
+  costPerStoreYear: number;
+}
+
+const DEFAULT_LAG_DAYS = 2;
+
+function windowBounds(options: GapAnalysisOptions): { start: number; end: number } {
+  const start = toDay(options.from);
+  const end = Math.max(start, toDay(options.to) - (options.lagDays ?? DEFAULT_LAG_DAYS));
+  return { start, end };
+}
+
+/**
+ * Find the contiguous date ranges inside the window where no collection
+ * happened, allowing for the expected cadence (a weekly feed is only missing
+ * data once more than a week passes between collections).
+ */
+export function findMissingRanges(dates: string[], options: GapAnalysisOptions): DateRange[] {
+  const { start, end } = windowBounds(options);
+  const cadence = options.cadenceDays ?? detectCadence(dates);
+
+  const observed = Array.from(new Set(dates.filter(Boolean).map(toDay)))
+    .filter((day) => day >= start && day <= end)
+    .sort((a, b) => a - b);
+
+  if (observed.length === 0) {
+    return [{ from: fromDay(start), to: fromDay(end) }];
+  }
+
+  const ranges: DateRange[] = [];
+  // Treat the days just outside the window as collections so edge gaps are measured too
+  const checkpoints = [start - 1, ...observed, end + 1];
+
+  for (let i = 1; i < checkpoints.length; i++) {
+    const prev = checkpoints[i - 1];
+    const next = checkpoints[i];
+    if (next - prev <= cadence) continue;
+
+    const missingFrom = Math.max(prev + 1, start);
+    const missingTo = Math.min(next - 1, end);
+    if (missingFrom <= missingTo) {
+      ranges.push({ from: fromDay(missingFrom), to: fromDay(missingTo) });
+    }
+  }
+
+  return ranges;
+}
+
+// Calendar years that overlap any missing range; these are what must be purchased
+export function yearsForRanges(ranges: DateRange[]): number[] {
+  const years = new Set<number>();
+  for (const range of ranges) {
+    const fromYear = Number(range.from.slice(0, 4));
+    const toYear = Number(range.to.slice(0, 4));
+    for (let year = fromYear; year <= toYear; year++) {
+      years.add(year);
+    }
+  }
+  return Array.from(years).sort((a, b) => a - b);
+}
+
+const formatRange = ({ from, to }: DateRange) => (from === to ? from : `${from} – ${to}`);
+
+export function analyzeStoreGaps(
+  store: { storeId: number; storeName: string },
+  dates: string[],
+  options: GapAnalysisOptions
+): DateGap {
+  const cadenceDays = options.cadenceDays ?? detectCadence(dates);
+  const missingRanges = findMissingRanges(dates, { ...options, cadenceDays });
+  const { start, end } = windowBounds(options);
+  const totalDays = end - start + 1;
+  const missingDays = missingRanges.reduce((sum, r) => sum + toDay(r.to) - toDay(r.from) + 1, 0);
+  const yearsNeeded = yearsForRanges(missingRanges);
+
+  return {
+    storeId: store.storeId,
+    storeName: store.storeName,
+    missingDays,
+    coveragePercent: Math.round(((totalDays - missingDays) / totalDays) * 100 * 10) / 10,
+    dateRanges: missingRanges.map(formatRange),
+    missingRanges,
+    cadenceDays,
+    yearsNeeded,
+    estimatedCost: yearsNeeded.length * options.costPerStoreYear,
+  };
+}
@@ -0,0 +1,248 @@
+import type { Workbook, Worksheet } from 'exceljs';
+import type {
+  AdjustmentFactors,
+  FeatureCode,
+  RateRecord,
+  Store,
+  StoreMetadata,
+  StoreRankings,
+} from '@/types/rca';
+import { resolveFeatureCode } from '@/lib/featureCodes';
+import {
+  calculateAgeRanking,
+  calculateRankingScore,
+  calculateRateRecommendations,
+  calculateSizeRanking,
+} from '@/lib/rateRecommendation';
+
+const CURRENCY_FORMAT = '"$"#,##0.00';
+const PERCENT_FORMAT = '0.0%';
+const INTEGER_FORMAT = '#,##0';
+const DATE_FORMAT = 'yyyy-mm-dd';
+
+const RANKING_KEYS: Array<keyof StoreRankings> = [
+  'Location',
+  'Age',
+  'Accessibility',
+  'VPD',
+  'Visibility & Signage',
+  'Brand',
+  'Quality',
+  'Size',
+];
+
+export interface RCAWorkbookInput {
+  subjectStore: Store | null;
+  selectedStores: Store[];
+  storeMetadata: Record<number, StoreMetadata>;
+  storeRankings: Record<number, StoreRankings>;
+  adjustmentFactors: AdjustmentFactors;
+  customNames: Record<number, string>;
+  featureCodes: FeatureCode[];
+  rateRecords: RateRecord[];
+}
+
+interface ColumnSpec {
+  header: string;
+  width: number;
+  numFmt?: string;
+}
+
+function addSheet(workbook: Workbook, name: string, columns: ColumnSpec[]): Worksheet {
+  const sheet = workbook.addWorksheet(name, { views: [{ state: 'frozen', ySplit: 1 }] });
+  sheet.columns = columns.map(({ header, width, numFmt }) => ({
+    header,
+    width,
+    style: numFmt ? { numFmt } : {},
+  }));
+  sheet.getRow(1).font = { bold: true };
+  return sheet;
+}
+
+// ExcelJS writes dates from their UTC value, so day-only strings become UTC midnight
+// to keep the same calendar day in every time zone
+const toDate = (value: string): Date | null => {
+  if (!value) return null;
+  const date = new Date(value.length === 10 ? `${value}T00:00:00Z` : value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const displayName = (store: Store, customNames: Record<number, string>) =>
+  customNames[store.storeId] || store.storeName;
+
+/**
+ * Build the investment-committee workbook: one tab each for the store summary,
+ * rankings matrix, adjustment factors, feature-coded rate comparison and the
+ * raw rate dump. Returns the .xlsx file contents.
+ */
+export async function buildRCAWorkbook(input: RCAWorkbookInput): Promise<ArrayBuffer> {
+  const { default: ExcelJS } = await import('exceljs');
+  const {
+    subjectStore,
+    selectedStores,
+    storeMetadata,
+    storeRankings,
+    adjustmentFactors,
+    customNames,
+    featureCodes,
+    rateRecords,
+  } = input;
+
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+
+  const summary = addSheet(workbook, 'Summary', [
+    { header: 'Role', width: 12 },
+    { header: 'Store ID', width: 10 },
+    { header: 'Name', width: 32 },
+    { header: 'StorTrack Name', width: 32 },
+    { header: 'Address', width: 32 },
+    { header: 'City', width: 18 },
+    { header: 'State', width: 8 },
+    { header: 'ZIP', width: 10 },
+    { header: 'Year Built', width: 12 },
+    { header: 'Net RSF', width: 12, numFmt: INTEGER_FORMAT },
+    { header: 'Distance (mi)', width: 14, numFmt: '0.00' },
+  ]);
+  for (const store of selectedStores) {
+    const meta = storeMetadata[store.storeId];
+    summary.addRow([
+      store.storeId === subjectStore?.storeId ? 'Subject' : 'Competitor',
+      store.storeId,
+      displayName(store, customNames),
+      store.storeName,
+      store.address,
+      store.city,
+      store.state,
+      store.zip,
+      meta?.yearBuilt ?? null,
+      meta?.squareFootage ?? null,
+      meta?.distance ?? store.distance ?? null,
+    ]);
+  }
+
+  const rankings = addSheet(workbook, 'Rankings', [
+    { header: 'Store', width: 32 },
+    ...RANKING_KEYS.map((key) => ({ header: key, width: key.length + 6 })),
+    { header: 'Weighted Score', width: 16, numFmt: '0.00' },
+  ]);
+  for (const store of selectedStores) {
+    const storeRanks = storeRankings[store.storeId];
+    const meta = storeMetadata[store.storeId];
+    rankings.addRow([
+      displayName(store, customNames),
+      ...RANKING_KEYS.map((key) => {
+        if (key === 'Age') return calculateAgeRanking(meta?.yearBuilt);
+        if (key === 'Size') return calculateSizeRanking(meta?.squareFootage);
+        return storeRanks?.[key] ?? 5;
+      }),
+      calculateRankingScore(storeRanks, meta),
+    ]);
+  }
+
+  const adjustments = addSheet(workbook, 'Adjustments', [
+    { header: 'Factor', width: 28 },
+    { header: 'Value', width: 12, numFmt: PERCENT_FORMAT },
+  ]);
+  adjustments.addRow(['Captive Market Premium', (adjustmentFactors.captiveMarketPremium || 0) / 100]);
+  adjustments.addRow(['Loss to Lease', (adjustmentFactors.lossToLease || 0) / 100]);
+  adjustments.addRow(['CC Adjustment (climate-controlled units)', (adjustmentFactors.ccAdj || 0) / 100]);
+  const total = adjustments.addRow([
+    'Total',
+    ((adjustmentFactors.captiveMarketPremium || 0) + (adjustmentFactors.lossToLease || 0) + (adjustmentFactors.ccAdj || 0)) / 100,
+  ]);
+  total.font = { bold: true };
+
+  const comparison = addSheet(workbook, 'Rate Comparison', [
+    { header: 'Size', width: 10 },
+    { header: 'Feature Code', width: 14 },
+    { header: 'Subject Walk-In', width: 16, numFmt: CURRENCY_FORMAT },
+    { header: 'Subject Online', width: 16, numFmt: CURRENCY_FORMAT },
+    { header: 'Market Walk-In', width: 16, numFmt: CURRENCY_FORMAT },
+    { header: 'Market Online', width: 16, numFmt: CURRENCY_FORMAT },
+    { header: 'Adjustment', width: 12, numFmt: PERCENT_FORMAT },
+    { header: 'Recommended Walk-In', width: 20, numFmt: CURRENCY_FORMAT },
+    { header: 'Recommended Online', width: 20, numFmt: CURRENCY_FORMAT },
+    { header: 'Competitors', width: 12 },
+  ]);
+  if (subjectStore) {
+    const recommendations = calculateRateRecommendations({
+      subjectStore,
+      stores: selectedStores,
+      rateRecords,
+      rankings: storeRankings,
+      metadata: storeMetadata,
+      adjustmentFactors,
+      featureCodes,
+      customNames,
+    });
+    for (const rec of recommendations) {
+      comparison.addRow([
+        rec.size,
+        rec.featureCode,
+        rec.subjectWalkInRate,
+        rec.subjectOnlineRate,
+        rec.marketWalkInRate,
+        rec.marketOnlineRate,
+        rec.adjustmentPct / 100,
+        rec.recommendedWalkInRate,
+        rec.recommendedOnlineRate,
+        rec.competitors.length,
+      ]);
+    }
+  }
+
+  const raw = addSheet(workbook, 'Raw Data', [
+    { header: 'Store ID', width: 10 },
+    { header: 'Store Name', width: 32 },
+    { header: 'Address', width: 32 },
+    { header: 'City', width: 18 },
+    { header: 'State', width: 8 },
+    { header: 'ZIP', width: 10 },
+    { header: 'Unit Type', width: 16 },
+    { header: 'Size', width: 10 },
+    { header: 'Size Bucket', width: 12 },
+    { header: 'Sq Ft', width: 8, numFmt: INTEGER_FORMAT },
+    { header: 'Feature Code', width: 14 },
+    { header: 'Features', width: 32 },
+    { header: 'Climate Controlled', width: 10 },
+    { header: 'Drive Up', width: 10 },
+    { header: 'Elevator', width: 10 },
+    { header: 'Walk-In Price', width: 14, numFmt: CURRENCY_FORMAT },
+    { header: 'Online Price', width: 14, numFmt: CURRENCY_FORMAT },
+    { header: 'Walk-In $/SF', width: 12, numFmt: CURRENCY_FORMAT },
+    { header: 'Online $/SF', width: 12, numFmt: CURRENCY_FORMAT },
+    { header: 'Date', width: 12, numFmt: DATE_FORMAT },
+    { header: 'Promo', width: 32 },
+    { header: 'Source', width: 10 },
+  ]);
+  for (const r of rateRecords) {
+    raw.addRow([
+      r.storeId,
+      customNames[r.storeId] || r.storeName,
+      r.address,
+      r.city,
+      r.state,
+      r.zip,
+      r.unitType,
+      r.size,
+      r.unitSize.label,
+      r.unitSize.squareFeet,
+      resolveFeatureCode(r, featureCodes),
+      r.features,
+      r.climateControlled ? 'Yes' : 'No',
+      r.driveUp ? 'Yes' : 'No',
+      r.elevator ? 'Yes' : 'No',
+      r.walkInPrice ?? null,
+      r.onlinePrice ?? null,
+      r.walkInPerSqFt,
+      r.onlinePerSqFt,
+      toDate(r.date),
+      r.promo,
+      r.source,
+    ]);
+  }
+  raw.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: raw.columnCount } };
+
+  return workbook.xlsx.writeBuffer() as Promise<ArrayBuffer>;
+}
@@ -0,0 +1,174 @@
+import type {
+  ClassificationConfidence,
+  FeatureCode,
+  FeatureCodeRule,
+  RateRecord,
+  UnitFeature,
+} from '@/types/rca';
+import { tagOf } from '@/lib/featureCodes';
+
+export const PRESET_CODES = [
+  { code: 'GLCC', label: 'Ground Level Climate Controlled' },
+  { code: 'GNCC', label: 'Ground Level Non-Climate Controlled' },
+  { code: 'ECC', label: 'Elevator Climate Controlled' },
+  { code: 'ENCC', label: 'Elevator Non-Climate Controlled' },
+  { code: 'DUCC', label: 'Drive-Up Climate Controlled' },
+  { code: 'DU', label: 'Drive-Up (Non-Climate)' },
+  { code: 'ICC', label: 'Interior Climate Controlled' },
+  { code: 'INCC', label: 'Interior Non-Climate Controlled' },
+  { code: 'CC', label: 'Climate Controlled (generic)' },
+  { code: 'NCC', label: 'Non-Climate Controlled (generic)' },
+];
+
+export const UNIT_FEATURES: Array<{ key: UnitFeature; label: string }> = [
+  { key: 'climateControlled', label: 'Climate' },
+  { key: 'driveUp', label: 'Drive-Up' },
+  { key: 'elevator', label: 'Elevator' },
+  { key: 'groundLevel', label: 'Ground' },
+  { key: 'interior', label: 'Interior' },
+];
+
+// Whole-word patterns so "Level" no longer reads as elevator or "Access" as climate
+const FEATURE_PATTERNS: Record<UnitFeature, RegExp> = {
+  climateControlled: /\bclimate\b|\bc\/?c\b|temperature|heated|\bcooled\b|air[\s-]?conditioned/i,
+  driveUp: /\bdrive[\s-]?up\b|\bdu\b|roll[\s-]?up door/i,
+  elevator: /\belevator\b|\bupper (level|floor)\b|\b(2nd|3rd|second|third) (level|floor)\b/i,
+  groundLevel: /\bground\b|\b(1st|first) (level|floor)\b|\bgl\b|\bmain (level|floor)\b/i,
+  interior: /\binterior\b|\binside\b|\bindoor\b|\bhallway\b/i,
+};
+
+// Features that have a boolean on RateRecord; the rest can only come from tag text
+const RECORD_FLAGS: Partial<Record<UnitFeature, keyof RateRecord>> = {
+  climateControlled: 'climateControlled',
+  driveUp: 'driveUp',
+  elevator: 'elevator',
+};
+
+export const DEFAULT_FEATURE_CODE_RULES: FeatureCodeRule[] = [
+  { id: 'ducc', code: 'DUCC', when: { driveUp: true, climateControlled: true } },
+  { id: 'du', code: 'DU', when: { driveUp: true } },
+  { id: 'ecc', code: 'ECC', when: { elevator: true, climateControlled: true } },
+  { id: 'encc', code: 'ENCC', when: { elevator: true } },
+  { id: 'glcc', code: 'GLCC', when: { groundLevel: true, climateControlled: true } },
+  { id: 'gncc', code: 'GNCC', when: { groundLevel: true } },
+  { id: 'icc', code: 'ICC', when: { interior: true, climateControlled: true } },
+  { id: 'incc', code: 'INCC', when: { interior: true } },
+  { id: 'cc', code: 'CC', when: { climateControlled: true } },
+  { id: 'ncc', code: 'NCC', when: { climateControlled: false } },
+];
+
+type FeatureSource = 'flag' | 'text';
+
+// Detected features of one record and where each came from; absent means not detected
+export function detectFeatures(record: RateRecord): Partial<Record<UnitFeature, FeatureSource>> {
+  const text = [record.tag, record.unitType, record.features].filter(Boolean).join(' ');
+  const detected: Partial<Record<UnitFeature, FeatureSource>> = {};
+
+  for (const { key } of UNIT_FEATURES) {
+    const flag = RECORD_FLAGS[key];
+    if (flag && record[flag] === true) {
+      detected[key] = 'flag';
+    } else if (FEATURE_PATTERNS[key].test(text)) {
+      detected[key] = 'text';
+    }
+  }
+  return detected;
+}
+
+export interface Classification {
+  code: string;
+  confidence: ClassificationConfidence;
+  ruleId: string | null;
+}
+
+/**
+ * First matching rule wins. Confidence is high when every feature the rule
+ * requires came from a record flag, medium when the tag text was needed or
+ * the rule only matched on absent features, low when no rule matched.
+ */
+export function classifyRecord(record: RateRecord, rules: FeatureCodeRule[]): Classification {
+  const detected = detectFeatures(record);
+
+  for (const rule of rules) {
+    const conditions = Object.entries(rule.when) as Array<[UnitFeature, boolean]>;
+    if (conditions.length === 0) continue;
+    if (!conditions.every(([feature, expected]) => Boolean(detected[feature]) === expected)) continue;
+
+    const required = conditions.filter(([, expected]) => expected).map(([feature]) => detected[feature]);
+    const confidence = required.length > 0 && required.every((source) => source === 'flag') ? 'high' : 'medium';
+    return { code: rule.code, confidence, ruleId: rule.id };
+  }
+
+  const tag = record.tag || record.unitType || '';
+  return { code: tag.slice(0, 4).toUpperCase(), confidence: 'low', ruleId: null };
+}
+
+// Below this share of records agreeing on the code, a tag's confidence drops a level
+const AGREEMENT_THRESHOLD = 0.8;
+
+const LOWER: Record<Classification['confidence'], Classification['confidence']> = {
+  high: 'medium',
+  medium: 'low',
+  low: 'low',
+};
+
+/**
+ * Feature codes are assigned per tag, so classify every record carrying the
+ * tag and take the majority code. Mixed tags (e.g. some rows flagged climate
+ * controlled, some not) are reported with reduced confidence.
+ */
+export function classifyTag(
+  records: RateRecord[],
+  rules: FeatureCodeRule[]
+): Pick<FeatureCode, 'code' | 'confidence' | 'agreement'> {
+  const votes = new Map<string, { count: number; classification: Classification }>();
+  for (const record of records) {
+    const classification = classifyRecord(record, rules);
+    const vote = votes.get(classification.code);
+    if (vote) {
+      vote.count++;
+    } else {
+      votes.set(classification.code, { count: 1, classification });
+    }
+  }
+
+  const [winner] = Array.from(votes.values()).sort((a, b) => b.count - a.count);
+  if (!winner) return { code: '', confidence: 'low', agreement: 0 };
+
+  const agreement = winner.count / records.length;
+  const confidence = agreement < AGREEMENT_THRESHOLD ? LOWER[winner.classification.confidence] : winner.classification.confidence;
+  return { code: winner.classification.code, confidence, agreement };
+}
+
+/**
+ * Build the Feature Codes list from loaded records. A tag keeps the code the
+ * analyst set by hand in `previous`, else takes the shared library's code,
+ * else the rules' classification.
+ */
+export function classifyFeatureCodes(
+  records: RateRecord[],
+  rules: FeatureCodeRule[],
+  previous: FeatureCode[] = [],
+  library: Map<string, string> = new Map()
+): FeatureCode[] {
+  const byTag = new Map<string, RateRecord[]>();
+  for (const record of records) {
+    const tag = tagOf(record);
+    if (!byTag.has(tag)) byTag.set(tag, []);
+    byTag.get(tag)!.push(record);
+  }
+
+  const manual = new Map(previous.filter((fc) => fc.origin === 'manual').map((fc) => [fc.originalTag, fc]));
+
+  return Array.from(byTag.entries())
+    .map(([tag, tagRecords]): FeatureCode => {
+      const libraryCode = library.get(tag);
+      const kept = manual.get(tag);
+      if (kept) return { ...kept, count: tagRecords.length, libraryCode };
+      if (libraryCode) {
+        return { originalTag: tag, code: libraryCode, count: tagRecords.length, origin: 'library', libraryCode };
+      }
+      return { originalTag: tag, count: tagRecords.length, origin: 'rules', ...classifyTag(tagRecords, rules) };
+    })
+    .sort((a, b) => b.count - a.count);
+}
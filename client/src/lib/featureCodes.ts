@@ -0,0 +1,11 @@
+import type { FeatureCode, RateRecord } from '@/types/rca';
+
+// Key feature codes are assigned under in the Feature Codes step
+export const tagOf = (record: RateRecord) => record.tag || record.unitType || 'Unknown';
+
+// Look up the feature code assigned to a record's tag in the Feature Codes step
+export function resolveFeatureCode(record: RateRecord, featureCodes: FeatureCode[]): string {
+  const tag = tagOf(record);
+  const fc = featureCodes.find((f) => f.originalTag === tag);
+  return fc?.code || (record.tag || record.unitType)?.slice(0, 4).toUpperCase() || '-';
+}
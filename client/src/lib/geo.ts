@@ -0,0 +1,24 @@
+import type { Store } from '@/types/rca';
+import { EARTH_RADIUS_MILES, toRadians, type Coordinates } from '@shared/geo';
+
+export function hasCoordinates<T extends Pick<Store, 'latitude' | 'longitude'>>(
+  store: T
+): store is T & Coordinates {
+  return (
+    typeof store.latitude === 'number' &&
+    typeof store.longitude === 'number' &&
+    Number.isFinite(store.latitude) &&
+    Number.isFinite(store.longitude) &&
+    !(store.latitude === 0 && store.longitude === 0)
+  );
+}
+
+/**
+ * Equirectangular projection around `center`, in miles east (x) and north (y).
+ * Accurate to well under 1% over a competitor radius, which is all the map needs.
+ */
+export function projectMiles(center: Coordinates, point: Coordinates): { x: number; y: number } {
+  const x = toRadians(point.longitude - center.longitude) * Math.cos(toRadians(center.latitude)) * EARTH_RADIUS_MILES;
+  const y = toRadians(point.latitude - center.latitude) * EARTH_RADIUS_MILES;
+  return { x, y };
+}
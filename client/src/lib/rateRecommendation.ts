@@ -0,0 +1,231 @@
+import type {
+  AdjustmentFactors,
+  FeatureCode,
+  RateRecord,
+  Store,
+  StoreMetadata,
+  StoreRankings,
+} from '@/types/rca';
+import { resolveFeatureCode } from '@/lib/featureCodes';
+import { compareSizeLabels, UNKNOWN_SIZE_LABEL } from '@/lib/unitSize';
+
+// Relative weight of each ranking category in a store's overall score
+export const RANKING_WEIGHTS: Record<keyof StoreRankings, number> = {
+  Location: 1,
+  Age: 1,
+  Accessibility: 1,
+  VPD: 1,
+  'Visibility & Signage': 1,
+  Brand: 1,
+  Quality: 1,
+  Size: 1,
+};
+
+// Percent a competitor's rate moves for each point the subject out-ranks it (1-10 scale)
+export const RATE_ADJUSTMENT_PER_POINT = 2.5;
+
+export function calculateAgeRanking(yearBuilt: number | null | undefined): number {
+  if (!yearBuilt) return 5;
+  const age = new Date().getFullYear() - yearBuilt;
+  if (age <= 10) return 10;
+  if (age <= 20) return 9;
+  if (age <= 30) return 8;
+  if (age <= 40) return 7;
+  if (age <= 50) return 6;
+  return 5;
+}
+
+export function calculateSizeRanking(sf: number | null | undefined): number {
+  if (!sf) return 7;
+  if (sf <= 50000) return 10;
+  if (sf <= 60000) return 9;
+  if (sf <= 70000) return 8;
+  if (sf <= 80000) return 7;
+  if (sf <= 90000) return 6;
+  if (sf <= 100000) return 5;
+  return 4;
+}
+
+// Weighted 1-10 score; Age and Size come from metadata just like the Rankings step shows them
+export function calculateRankingScore(rankings: StoreRankings | undefined, metadata: StoreMetadata | undefined): number {
+  const scores: StoreRankings = {
+    Location: rankings?.Location ?? 5,
+    Age: calculateAgeRanking(metadata?.yearBuilt),
+    Accessibility: rankings?.Accessibility ?? 5,
+    VPD: rankings?.VPD ?? 5,
+    'Visibility & Signage': rankings?.['Visibility & Signage'] ?? 5,
+    Brand: rankings?.Brand ?? 5,
+    Quality: rankings?.Quality ?? 5,
+    Size: calculateSizeRanking(metadata?.squareFootage),
+  };
+
+  let total = 0;
+  let weightSum = 0;
+  for (const key of Object.keys(RANKING_WEIGHTS) as Array<keyof StoreRankings>) {
+    total += scores[key] * RANKING_WEIGHTS[key];
+    weightSum += RANKING_WEIGHTS[key];
+  }
+  return weightSum > 0 ? total / weightSum : 5;
+}
+
+export interface CompetitorRateDetail {
+  storeId: number;
+  storeName: string;
+  rankingScore: number;
+  rankingDelta: number;
+  rankingAdjustmentPct: number;
+  weight: number;
+  walkInRate: number | null;
+  onlineRate: number | null;
+  adjustedWalkInRate: number | null;
+  adjustedOnlineRate: number | null;
+  rateDate: string;
+}
+
+export interface RateRecommendation {
+  size: string;
+  featureCode: string;
+  climateControlled: boolean;
+  subjectRankingScore: number;
+  subjectWalkInRate: number | null;
+  subjectOnlineRate: number | null;
+  marketWalkInRate: number | null;
+  marketOnlineRate: number | null;
+  adjustmentPct: number;
+  recommendedWalkInRate: number | null;
+  recommendedOnlineRate: number | null;
+  competitors: CompetitorRateDetail[];
+}
+
+interface LatestRate {
+  walkInRate: number | null;
+  onlineRate: number | null;
+  date: string;
+}
+
+const average = (values: number[]): number | null =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+// Average the rates observed on a store's most recent collection date for one size/code
+function latestRate(records: RateRecord[]): LatestRate {
+  const latestDate = records.reduce((max, r) => (r.date > max ? r.date : max), '');
+  const latest = records.filter((r) => r.date === latestDate);
+  return {
+    walkInRate: average(latest.map((r) => r.walkInPrice).filter((v): v is number => typeof v === 'number' && v > 0)),
+    onlineRate: average(latest.map((r) => r.onlinePrice).filter((v): v is number => typeof v === 'number' && v > 0)),
+    date: latestDate,
+  };
+}
+
+function weightedAverage(pairs: Array<{ value: number | null; weight: number }>): number | null {
+  let total = 0;
+  let weightSum = 0;
+  for (const { value, weight } of pairs) {
+    if (value === null) continue;
+    total += value * weight;
+    weightSum += weight;
+  }
+  return weightSum > 0 ? total / weightSum : null;
+}
+
+const applyPct = (value: number | null, pct: number): number | null =>
+  value === null ? null : value * (1 + pct / 100);
+
+/**
+ * Recommend street rates for the subject store per unit size and feature code.
+ *
+ * Each competitor's latest rate is moved by the ranking gap to the subject
+ * (RATE_ADJUSTMENT_PER_POINT per point), then blended with weights that favour
+ * competitors ranked closest to the subject. The captive market premium and
+ * loss-to-lease apply to every unit; the CC adjustment only to climate-controlled units.
+ */
+export function calculateRateRecommendations(params: {
+  subjectStore: Store;
+  stores: Store[];
+  rateRecords: RateRecord[];
+  rankings: Record<number, StoreRankings>;
+  metadata: Record<number, StoreMetadata>;
+  adjustmentFactors: AdjustmentFactors;
+  featureCodes: FeatureCode[];
+  customNames?: Record<number, string>;
+}): RateRecommendation[] {
+  const { subjectStore, stores, rateRecords, rankings, metadata, adjustmentFactors, featureCodes, customNames = {} } = params;
+  const subjectId = subjectStore.storeId;
+  const subjectScore = calculateRankingScore(rankings[subjectId], metadata[subjectId]);
+  const storeNames = new Map(stores.map((s) => [s.storeId, customNames[s.storeId] || s.storeName]));
+
+  // size|code -> storeId -> records
+  const groups = new Map<string, Map<number, RateRecord[]>>();
+  for (const record of rateRecords) {
+    if (record.unitSize.label === UNKNOWN_SIZE_LABEL) continue;
+    const key = `${record.unitSize.label}|${resolveFeatureCode(record, featureCodes)}`;
+    if (!groups.has(key)) groups.set(key, new Map());
+    const byStore = groups.get(key)!;
+    if (!byStore.has(record.storeId)) byStore.set(record.storeId, []);
+    byStore.get(record.storeId)!.push(record);
+  }
+
+  const recommendations: RateRecommendation[] = [];
+
+  for (const [key, byStore] of groups) {
+    const [size, featureCode] = key.split('|');
+    const competitors: CompetitorRateDetail[] = [];
+
+    for (const [storeId, records] of byStore) {
+      if (storeId === subjectId) continue;
+      const rate = latestRate(records);
+      if (rate.walkInRate === null && rate.onlineRate === null) continue;
+
+      const rankingScore = calculateRankingScore(rankings[storeId], metadata[storeId]);
+      const rankingDelta = subjectScore - rankingScore;
+      const rankingAdjustmentPct = rankingDelta * RATE_ADJUSTMENT_PER_POINT;
+
+      competitors.push({
+        storeId,
+        storeName: storeNames.get(storeId) || records[0].storeName,
+        rankingScore,
+        rankingDelta,
+        rankingAdjustmentPct,
+        weight: 1 / (1 + Math.abs(rankingDelta)),
+        walkInRate: rate.walkInRate,
+        onlineRate: rate.onlineRate,
+        adjustedWalkInRate: applyPct(rate.walkInRate, rankingAdjustmentPct),
+        adjustedOnlineRate: applyPct(rate.onlineRate, rankingAdjustmentPct),
+        rateDate: rate.date,
+      });
+    }
+
+    if (competitors.length === 0) continue;
+
+    const groupRecords = Array.from(byStore.values()).flat();
+    const climateControlled =
+      groupRecords.filter((r) => r.climateControlled).length > groupRecords.length / 2;
+    const adjustmentPct =
+      (adjustmentFactors.captiveMarketPremium || 0) +
+      (adjustmentFactors.lossToLease || 0) +
+      (climateControlled ? adjustmentFactors.ccAdj || 0 : 0);
+
+    const marketWalkInRate = weightedAverage(competitors.map((c) => ({ value: c.adjustedWalkInRate, weight: c.weight })));
+    const marketOnlineRate = weightedAverage(competitors.map((c) => ({ value: c.adjustedOnlineRate, weight: c.weight })));
+    const subjectRate = byStore.has(subjectId) ? latestRate(byStore.get(subjectId)!) : null;
+
+    recommendations.push({
+      size,
+      featureCode,
+      climateControlled,
+      subjectRankingScore: subjectScore,
+      subjectWalkInRate: subjectRate?.walkInRate ?? null,
+      subjectOnlineRate: subjectRate?.onlineRate ?? null,
+      marketWalkInRate,
+      marketOnlineRate,
+      adjustmentPct,
+      recommendedWalkInRate: applyPct(marketWalkInRate, adjustmentPct),
+      recommendedOnlineRate: applyPct(marketOnlineRate, adjustmentPct),
+      competitors: competitors.sort((a, b) => b.weight - a.weight),
+    });
+  }
+
+  return recommendations.sort(
+    (a, b) => compareSizeLabels(a.size, b.size) || a.featureCode.localeCompare(b.featureCode)
+  );
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import type { RateRecord, Store } from '@/types/rca';
+import { foldMergedStores, mergeRateRecords, rateRecordKey } from './rateRecords';
+
+const record = (overrides: Partial<RateRecord>): RateRecord => ({
+  storeId: 1003,
+  storeName: 'Extra Space',
+  address: '4210 Manchaca Rd',
+  city: 'Austin',
+  state: 'TX',
+  zip: '78704',
+  unitType: 'Standard',
+  size: '10x10',
+  features: '',
+  tag: 'Standard',
+  climateControlled: true,
+  humidityControlled: false,
+  driveUp: false,
+  elevator: false,
+  outdoorAccess: false,
+  walkInPrice: 150,
+  onlinePrice: 135,
+  date: '2026-01-05',
+  promo: '',
+  source: 'Database',
+  unitSize: { width: 10, length: 10, height: null, squareFeet: 100, bucket: '10x10', label: '10x10' },
+  walkInPerSqFt: null,
+  onlinePerSqFt: null,
+  ...overrides,
+});
+
+describe('rateRecordKey', () => {
+  it('ignores prices, unit type and how the size is written', () => {
+    expect(rateRecordKey(record({ size: "10' x 10'", unitType: '', tag: 'cc', walkInPrice: 149.99, date: '2026-01-05T00:00:00' })))
+      .toBe(rateRecordKey(record({})));
+    expect(rateRecordKey(record({ size: '', width: 10, length: 10, height: 8 }))).toBe(rateRecordKey(record({})));
+  });
+
+  it('tells apart other days, sizes and amenities', () => {
+    const key = rateRecordKey(record({}));
+    expect(rateRecordKey(record({ date: '2026-01-06' }))).not.toBe(key);
+    expect(rateRecordKey(record({ size: '10x15' }))).not.toBe(key);
+    expect(rateRecordKey(record({ climateControlled: false }))).not.toBe(key);
+    expect(rateRecordKey(record({ driveUp: true }))).not.toBe(key);
+  });
+});
+
+describe('mergeRateRecords', () => {
+  it('keeps the database row when the API priced the same observation differently', () => {
+    const database = record({});
+    const api = record({ source: 'API', unitType: 'Climate Controlled', walkInPrice: 150.4 });
+    expect(mergeRateRecords([database], [api])).toEqual([database]);
+  });
+
+  it('adds API observations the database lacks, newest first within each store', () => {
+    const database = record({ date: '2026-01-05' });
+    const api = record({ source: 'API', date: '2025-06-01' });
+    const other = record({ storeId: 1001, source: 'API' });
+    expect(mergeRateRecords([database], [api, other])).toEqual([other, database, api]);
+  });
+
+  it('keeps API units that only differ from each other in features', () => {
+    const firstFloor = record({ source: 'API', date: '2025-06-01', features: '1st Floor' });
+    const upperFloor = record({ source: 'API', date: '2025-06-01', features: 'Upper Floor', walkInPrice: 120 });
+    expect(mergeRateRecords([], [firstFloor, upperFloor])).toEqual([firstFloor, upperFloor]);
+  });
+});
+
+describe('foldMergedStores', () => {
+  const primary = { storeId: 1003, storeName: 'Extra Space', address: '4210 Manchaca Rd', city: 'Austin', state: 'TX', zip: '78704', mergedStoreIds: [1010] } as Store;
+
+  it("files a merged ID's rows under the store, keeping the store's own row on collision", () => {
+    const own = record({});
+    const sameDay = record({ storeId: 1010, storeName: 'Manchaca Self Storage', walkInPrice: 145 });
+    const earlier = record({ storeId: 1010, storeName: 'Manchaca Self Storage', date: '2025-12-01' });
+    expect(foldMergedStores([own, sameDay, earlier], [primary])).toEqual([
+      own,
+      { ...earlier, storeId: 1003, storeName: 'Extra Space' },
+    ]);
+  });
+});
@@ -0,0 +1,107 @@
+import type { DateGap, DateRange, RateRecord, Store } from '@/types/rca';
+import { normalizeUnitSize } from './unitSize';
+
+// Floor dimensions, so "10' x 10'", "10x10" and width/length fields agree; height is
+// left out because only the API reports it
+function sizeKey(record: RateRecord): string {
+  const { width, length } = normalizeUnitSize(record);
+  if (width !== null && length !== null) return `${width}x${length}`;
+  return (record.size || '').toLowerCase().replace(/\s+/g, '');
+}
+
+/**
+ * Identity of one observed unit: same store, day, size and amenities. Prices
+ * are left out so the same observation priced slightly differently by two
+ * sources still matches, and so is the unit type, which the database and the
+ * API fill in differently.
+ */
+export function rateRecordKey(record: RateRecord): string {
+  return [
+    record.storeId,
+    (record.date || '').slice(0, 10),
+    sizeKey(record),
+    record.climateControlled ? 'cc' : '',
+    record.humidityControlled ? 'hc' : '',
+    record.driveUp ? 'du' : '',
+    record.elevator ? 'el' : '',
+    record.outdoorAccess ? 'oa' : '',
+  ].join('|');
+}
+
+// `preferred` rows all stay; `others` only drop rows `preferred` already observed. They
+// are never checked against each other: two units alike in size and amenities (a 1st
+// floor and an upper floor 10x10, say) are both real observations from the same source
+function addUnobserved(preferred: RateRecord[], others: RateRecord[]): RateRecord[] {
+  const observed = new Set(preferred.map(rateRecordKey));
+  return [...preferred, ...others.filter((record) => !observed.has(rateRecordKey(record)))];
+}
+
+/**
+ * Merge database and API rows into one series. Database rows win when both
+ * sources carry the same observation, so each record keeps the source it was
+ * first seen in.
+ */
+export function mergeRateRecords(databaseRecords: RateRecord[], apiRecords: RateRecord[]): RateRecord[] {
+  return addUnobserved(databaseRecords, apiRecords).sort(
+    (a, b) => a.storeId - b.storeId || (b.date || '').localeCompare(a.date || '')
+  );
+}
+
+// Every StorTrack ID to read rates for, including duplicates merged into a store
+export function rateStoreIds(stores: Store[]): number[] {
+  return stores.flatMap((store) => [store.storeId, ...(store.mergedStoreIds ?? [])]);
+}
+
+// The store each merged duplicate's ID now belongs to
+function mergedInto(stores: Store[]): Map<number, Store> {
+  const primaries = new Map<number, Store>();
+  for (const store of stores) {
+    for (const id of store.mergedStoreIds ?? []) primaries.set(id, store);
+  }
+  return primaries;
+}
+
+/**
+ * File rates collected under a merged duplicate's ID under the store it was
+ * merged into, so one facility carries one continuous series. When both IDs
+ * priced the same unit on the same day, the store's own row is kept.
+ */
+export function foldMergedStores(records: RateRecord[], stores: Store[]): RateRecord[] {
+  const primaries = mergedInto(stores);
+  if (primaries.size === 0) return records;
+
+  const own = records.filter((record) => !primaries.has(record.storeId));
+  const relabeled = records.flatMap((record) => {
+    const primary = primaries.get(record.storeId);
+    if (!primary) return [];
+    return [{
+      ...record,
+      storeId: primary.storeId,
+      storeName: primary.storeName,
+      address: primary.address,
+      city: primary.city,
+      state: primary.state,
+      zip: primary.zip,
+    }];
+  });
+
+  return addUnobserved(own, relabeled);
+}
+
+// Collection dates per store with a merged duplicate's dates counted as the store's own
+export function foldMergedDates(datesByStore: Record<number, string[]>, stores: Store[]): Record<number, string[]> {
+  const folded: Record<number, string[]> = {};
+  for (const store of stores) {
+    const dates = rateStoreIds([store]).flatMap((id) => datesByStore[id] || []);
+    folded[store.storeId] = Array.from(new Set(dates)).sort().reverse();
+  }
+  return folded;
+}
+
+// Date ranges to request from the API for a store: each missing year, clipped to the window
+export function backfillRanges(gap: DateGap, window: DateRange): DateRange[] {
+  return gap.yearsNeeded.map((year) => ({
+    from: `${year}-01-01` < window.from ? window.from : `${year}-01-01`,
+    to: `${year}-12-31` > window.to ? window.to : `${year}-12-31`,
+  }));
+}
@@ -0,0 +1,114 @@
+import { resolveFeatureCode } from '@/lib/featureCodes';
+import type { FeatureCode, RateRecord, Store } from '@/types/rca';
+
+export type TrendPriceField = 'walkInPrice' | 'onlinePrice' | 'walkInPerSqFt' | 'onlinePerSqFt';
+
+export const COMPETITOR_AVERAGE_KEY = 'competitorAvg';
+
+export interface TrendFilters {
+  size: string; // 'all' or a normalized size label
+  code: string; // 'all' or an assigned feature code
+}
+
+export interface TrendSeries {
+  key: string;
+  storeId: number;
+  name: string;
+  isSubject: boolean;
+}
+
+// One chart row per week: `week` plus one average price per series key
+export type TrendPoint = { week: string } & Record<string, number | string | null>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Stores collect on different days, so observations are aligned to the Monday of their week
+export function weekStart(date: string): string {
+  const day = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  const offset = (day.getUTCDay() + 6) % 7;
+  return new Date(day.getTime() - offset * DAY_MS).toISOString().slice(0, 10);
+}
+
+export const seriesKey = (storeId: number) => `store_${storeId}`;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function filterTrendRecords(
+  records: RateRecord[],
+  featureCodes: FeatureCode[],
+  filters: TrendFilters
+): RateRecord[] {
+  return records.filter(
+    (record) =>
+      (filters.size === 'all' || record.unitSize.label === filters.size) &&
+      (filters.code === 'all' || resolveFeatureCode(record, featureCodes) === filters.code)
+  );
+}
+
+/**
+ * Weekly average rate per store for the filtered records, plus the average of
+ * the competitor stores (excluding the subject) for each week.
+ */
+export function buildRateTrends(params: {
+  records: RateRecord[];
+  stores: Store[];
+  subjectStoreId: number | null;
+  customNames: Record<number, string>;
+  priceField: TrendPriceField;
+}): { data: TrendPoint[]; series: TrendSeries[] } {
+  const { records, stores, subjectStoreId, customNames, priceField } = params;
+
+  // week -> storeId -> prices
+  const buckets = new Map<string, Map<number, number[]>>();
+  for (const record of records) {
+    const price = record[priceField];
+    if (!record.date || typeof price !== 'number' || price <= 0) continue;
+
+    const week = weekStart(record.date);
+    if (!buckets.has(week)) buckets.set(week, new Map());
+    const byStore = buckets.get(week)!;
+    if (!byStore.has(record.storeId)) byStore.set(record.storeId, []);
+    byStore.get(record.storeId)!.push(price);
+  }
+
+  const storesWithData = new Set<number>();
+  buckets.forEach((byStore) => byStore.forEach((_, storeId) => storesWithData.add(storeId)));
+
+  const series: TrendSeries[] = stores
+    .filter((store) => storesWithData.has(store.storeId))
+    .map((store) => ({
+      key: seriesKey(store.storeId),
+      storeId: store.storeId,
+      name: customNames[store.storeId] || store.storeName,
+      isSubject: store.storeId === subjectStoreId,
+    }))
+    // Subject first so it is listed and drawn consistently
+    .sort((a, b) => Number(b.isSubject) - Number(a.isSubject));
+
+  const data = Array.from(buckets.keys())
+    .sort()
+    .map((week) => {
+      const byStore = buckets.get(week)!;
+      const point: TrendPoint = { week };
+      const competitorAverages: number[] = [];
+
+      for (const s of series) {
+        const prices = byStore.get(s.storeId);
+        if (!prices) {
+          point[s.key] = null;
+          continue;
+        }
+        const avg = prices.reduce((sum, p) => sum + p, 0) / prices.length;
+        point[s.key] = round2(avg);
+        if (!s.isSubject) competitorAverages.push(avg);
+      }
+
+      point[COMPETITOR_AVERAGE_KEY] =
+        competitorAverages.length > 0
+          ? round2(competitorAverages.reduce((sum, p) => sum + p, 0) / competitorAverages.length)
+          : null;
+      return point;
+    });
+
+  return { data, series };
+}
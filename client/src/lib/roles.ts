@@ -0,0 +1,15 @@
+import type { UserRole } from '@/types/rca';
+
+// Same order as the server's USER_ROLES; each role includes the ones before it
+export const USER_ROLES: UserRole[] = ['viewer', 'analyst', 'approver', 'admin'];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  viewer: 'Viewer',
+  analyst: 'Analyst',
+  approver: 'Approver',
+  admin: 'Admin',
+};
+
+export function hasRole(role: UserRole | undefined, minimum: UserRole): boolean {
+  return role !== undefined && USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(minimum);
+}
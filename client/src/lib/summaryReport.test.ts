@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import type { RateRecord } from '@/types/rca';
+import { buildSummaryReport } from './summaryReport';
+
+const record = (date: string): RateRecord => ({
+  storeId: 1003,
+  storeName: 'Extra Space',
+  address: '4210 Manchaca Rd',
+  city: 'Austin',
+  state: 'TX',
+  zip: '78704',
+  unitType: 'Standard',
+  size: '10x10',
+  features: '',
+  tag: 'Standard',
+  climateControlled: true,
+  humidityControlled: false,
+  driveUp: false,
+  elevator: false,
+  outdoorAccess: false,
+  walkInPrice: 150,
+  onlinePrice: 135,
+  date,
+  promo: '',
+  source: 'Database',
+  unitSize: { width: 10, length: 10, height: null, squareFeet: 100, bucket: '10x10', label: '10x10' },
+  walkInPerSqFt: 1.5,
+  onlinePerSqFt: 1.35,
+});
+
+const counts = (dates: string[]) => {
+  const [row] = buildSummaryReport(dates.map(record), []);
+  return Object.fromEntries(Object.entries(row.periods).map(([t, period]) => [t, period.count]));
+};
+
+describe('buildSummaryReport', () => {
+  it('averages each trailing period back from the latest collection date', () => {
+    const [row] = buildSummaryReport([record('2025-06-15'), { ...record('2025-01-15'), walkInPrice: 100 }], []);
+    expect(row.periods[1]).toMatchObject({ walkInAvg: 150, count: 1 });
+    expect(row.periods[12]).toMatchObject({ walkInAvg: 125, count: 2 });
+  });
+
+  it('clamps month-end windows to the last day of the shorter month', () => {
+    // T-1 from Mar 31 starts after Feb 28, so all of March counts
+    expect(counts(['2025-03-31', '2025-03-01', '2025-02-28'])[1]).toBe(2);
+    // T-3 from Mar 31 starts after Dec 31; leap years end February on the 29th
+    expect(counts(['2025-03-31', '2025-01-01', '2024-12-31'])[3]).toBe(2);
+    expect(counts(['2024-03-31', '2024-03-01', '2024-02-29'])[1]).toBe(2);
+  });
+
+  it('keeps the calendar day when the earlier month is long enough', () => {
+    expect(counts(['2025-05-15', '2025-04-16', '2025-04-15'])[1]).toBe(2);
+  });
+});
@@ -0,0 +1,131 @@
+import type { FeatureCode, RateRecord } from '@/types/rca';
+import { resolveFeatureCode } from '@/lib/featureCodes';
+import type { CSVValue } from '@/lib/csv';
+import { compareSizeLabels } from '@/lib/unitSize';
+
+// Trailing windows reported in the summary, in months back from the latest collection date
+export const T_PERIODS = [1, 3, 6, 12] as const;
+
+export type TPeriod = (typeof T_PERIODS)[number];
+
+export interface PeriodAverage {
+  walkInAvg: number | null;
+  onlineAvg: number | null;
+  walkInPerSqFtAvg: number | null;
+  onlinePerSqFtAvg: number | null;
+  count: number;
+}
+
+export interface SummaryRow {
+  storeId: number;
+  storeName: string;
+  size: string;
+  featureCode: string;
+  periods: Record<TPeriod, PeriodAverage>;
+}
+
+const average = (values: number[]): number | null =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+const isPrice = (v: number | null | undefined): v is number => typeof v === 'number' && v > 0;
+
+// asOf is UTC midnight, so step months in UTC too; local months shift the day west of UTC.
+// The day is clamped to the target month's last day so Mar 31 − 1 month is Feb 28, not Mar 3
+function periodStart(asOf: Date, months: number): string {
+  const year = asOf.getUTCFullYear();
+  const month = asOf.getUTCMonth() - months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(asOf.getUTCDate(), lastDay))).toISOString().slice(0, 10);
+}
+
+/**
+ * Group records by store × normalized unit size × feature code and average walk-in and
+ * online rates over each trailing T-period. Windows are anchored on the most
+ * recent collection date in the data so an older pull still yields a full T-1.
+ */
+export function buildSummaryReport(
+  records: RateRecord[],
+  featureCodes: FeatureCode[],
+  customNames: Record<number, string> = {}
+): SummaryRow[] {
+  const latestDate = records.reduce((max, r) => (r.date > max ? r.date : max), '');
+  if (!latestDate) return [];
+
+  const asOf = new Date(latestDate.slice(0, 10));
+  const starts = Object.fromEntries(T_PERIODS.map((t) => [t, periodStart(asOf, t)])) as Record<TPeriod, string>;
+
+  const groups = new Map<string, { storeId: number; storeName: string; size: string; featureCode: string; records: RateRecord[] }>();
+  for (const record of records) {
+    const featureCode = resolveFeatureCode(record, featureCodes);
+    const key = `${record.storeId}|${record.unitSize.label}|${featureCode}`;
+    if (!groups.has(key)) {
+      groups.set(key, {
+        storeId: record.storeId,
+        storeName: customNames[record.storeId] || record.storeName,
+        size: record.unitSize.label,
+        featureCode,
+        records: [],
+      });
+    }
+    groups.get(key)!.records.push(record);
+  }
+
+  const rows: SummaryRow[] = [];
+  for (const group of groups.values()) {
+    const periods = {} as Record<TPeriod, PeriodAverage>;
+    for (const t of T_PERIODS) {
+      const inWindow = group.records.filter((r) => r.date.slice(0, 10) > starts[t]);
+      periods[t] = {
+        walkInAvg: average(inWindow.map((r) => r.walkInPrice).filter(isPrice)),
+        onlineAvg: average(inWindow.map((r) => r.onlinePrice).filter(isPrice)),
+        walkInPerSqFtAvg: average(inWindow.map((r) => r.walkInPerSqFt).filter(isPrice)),
+        onlinePerSqFtAvg: average(inWindow.map((r) => r.onlinePerSqFt).filter(isPrice)),
+        count: inWindow.length,
+      };
+    }
+    rows.push({
+      storeId: group.storeId,
+      storeName: group.storeName,
+      size: group.size,
+      featureCode: group.featureCode,
+      periods,
+    });
+  }
+
+  return rows.sort(
+    (a, b) =>
+      a.storeName.localeCompare(b.storeName) ||
+      compareSizeLabels(a.size, b.size) ||
+      a.featureCode.localeCompare(b.featureCode)
+  );
+}
+
+export const SUMMARY_HEADERS = [
+  'Store Name',
+  'Size',
+  'Feature Code',
+  ...T_PERIODS.flatMap((t) => [
+    `T-${t} Walk-In Avg`,
+    `T-${t} Online Avg`,
+    `T-${t} Walk-In $/SF`,
+    `T-${t} Online $/SF`,
+    `T-${t} Count`,
+  ]),
+];
+
+const round2 = (v: number | null) => (v === null ? null : Math.round(v * 100) / 100);
+
+export function summaryRowToCSV(row: SummaryRow): CSVValue[] {
+  return [
+    row.storeName,
+    row.size,
+    row.featureCode,
+    ...T_PERIODS.flatMap((t) => [
+      round2(row.periods[t].walkInAvg),
+      round2(row.periods[t].onlineAvg),
+      round2(row.periods[t].walkInPerSqFtAvg),
+      round2(row.periods[t].onlinePerSqFtAvg),
+      row.periods[t].count,
+    ]),
+  ];
+}
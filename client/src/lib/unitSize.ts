@@ -0,0 +1,114 @@
+import type { RateRecord, RawRateRecord, SizeBucket, UnitSize } from '@/types/rca';
+
+// Standard size grid, smallest first; `area` is the nominal square footage
+export const SIZE_GRID: Array<{ bucket: SizeBucket; area: number }> = [
+  { bucket: '5x5', area: 25 },
+  { bucket: '5x10', area: 50 },
+  { bucket: '10x10', area: 100 },
+  { bucket: '10x15', area: 150 },
+  { bucket: '10x20', area: 200 },
+  { bucket: '10x30', area: 300 },
+];
+
+export const SIZE_BUCKET_ORDER: SizeBucket[] = [...SIZE_GRID.map((g) => g.bucket), 'Parking', 'Other'];
+
+// Units outside these bounds (lockers, warehouse bays) are kept as 'Other' rather than forced onto the grid
+const MIN_GRID_AREA = 15;
+const MAX_GRID_AREA = 450;
+
+// Label for records with neither dimensions nor size text
+export const UNKNOWN_SIZE_LABEL = 'Unknown';
+
+const PARKING_PATTERN = /parking|\brv\b|boat|vehicle|\bcar\b/i;
+
+// "10x10", "10 x 10", "10'x15'", "5X5X8", "7.5 × 10"
+const DIMENSIONS_PATTERN = /(\d+(?:\.\d+)?)\s*['’]?\s*[x×*]\s*(\d+(?:\.\d+)?)(?:\s*['’]?\s*[x×*]\s*(\d+(?:\.\d+)?))?/i;
+
+const positive = (value: unknown): number | null => {
+  const num = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof num === 'number' && Number.isFinite(num) && num > 0 ? num : null;
+};
+
+const formatDimension = (value: number) => String(Math.round(value * 10) / 10);
+
+export function parseSizeText(size: string): { width: number; length: number; height: number | null } | null {
+  const match = DIMENSIONS_PATTERN.exec(size || '');
+  if (!match) return null;
+  return { width: Number(match[1]), length: Number(match[2]), height: match[3] ? Number(match[3]) : null };
+}
+
+// Nearest grid size by area, with boundaries at the geometric midpoint between neighbours
+export function bucketForArea(squareFeet: number): SizeBucket {
+  if (squareFeet < MIN_GRID_AREA || squareFeet > MAX_GRID_AREA) return 'Other';
+  for (let i = 0; i < SIZE_GRID.length - 1; i++) {
+    if (squareFeet < Math.sqrt(SIZE_GRID[i].area * SIZE_GRID[i + 1].area)) return SIZE_GRID[i].bucket;
+  }
+  return SIZE_GRID[SIZE_GRID.length - 1].bucket;
+}
+
+/**
+ * Canonical size for a rate record. Numeric width/length/height fields win
+ * over dimensions parsed from the free-form `size` text; width is always the
+ * shorter side so 10x5 and 5x10 land together.
+ */
+export function normalizeUnitSize(
+  record: Pick<RateRecord, 'size' | 'width' | 'length' | 'height' | 'unitType' | 'tag'>
+): UnitSize {
+  const parsed = parseSizeText(record.size);
+  const a = positive(record.width) ?? parsed?.width ?? null;
+  const b = positive(record.length) ?? parsed?.length ?? null;
+  const height = positive(record.height) ?? parsed?.height ?? null;
+
+  const width = a !== null && b !== null ? Math.min(a, b) : a;
+  const length = a !== null && b !== null ? Math.max(a, b) : b;
+  const squareFeet = width !== null && length !== null ? Math.round(width * length * 100) / 100 : null;
+
+  const isParking = [record.size, record.unitType, record.tag].some((text) => PARKING_PATTERN.test(text || ''));
+  const bucket: SizeBucket = isParking ? 'Parking' : squareFeet !== null ? bucketForArea(squareFeet) : 'Other';
+
+  // Off-grid units keep their own dimensions as the label so distinct sizes don't merge
+  let label: string = bucket;
+  if (bucket === 'Other') {
+    label = width !== null && length !== null
+      ? `${formatDimension(width)}x${formatDimension(length)}`
+      : (record.size || '').trim() || UNKNOWN_SIZE_LABEL;
+  }
+
+  return { width, length, height, squareFeet, bucket, label };
+}
+
+export function pricePerSquareFoot(price: number | undefined, squareFeet: number | null): number | null {
+  if (typeof price !== 'number' || price <= 0 || !squareFeet) return null;
+  return Math.round((price / squareFeet) * 100) / 100;
+}
+
+// Attach the normalized size and $/SF fields to a record coming from the API or database
+export function withUnitSize(record: RawRateRecord): RateRecord {
+  const unitSize = normalizeUnitSize(record);
+  return {
+    ...record,
+    unitSize,
+    walkInPerSqFt: pricePerSquareFoot(record.walkInPrice, unitSize.squareFeet),
+    onlinePerSqFt: pricePerSquareFoot(record.onlinePrice, unitSize.squareFeet),
+  };
+}
+
+/**
+ * Order size labels by the grid (5x5 … 10x30, Parking), then off-grid sizes
+ * by area. Used wherever sizes are sorted so 10x15 no longer precedes 5x5.
+ */
+export function compareSizeLabels(a: string, b: string): number {
+  const rank = (label: string) => {
+    const index = SIZE_BUCKET_ORDER.indexOf(label as SizeBucket);
+    return index === -1 ? SIZE_BUCKET_ORDER.indexOf('Other') : index;
+  };
+  const area = (label: string) => {
+    const parsed = parseSizeText(label);
+    return parsed ? parsed.width * parsed.length : Number.MAX_VALUE;
+  };
+  return rank(a) - rank(b) || area(a) - area(b) || a.localeCompare(b);
+}
+
+export function compareUnitSizes(a: UnitSize, b: UnitSize): number {
+  return compareSizeLabels(a.label, b.label) || (a.squareFeet ?? Number.MAX_VALUE) - (b.squareFeet ?? Number.MAX_VALUE);
+}
@@ -0,0 +1,147 @@
+import { Link } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { BarChart3, FolderOpen, Loader2, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { WIZARD_STEPS } from '@/hooks/useRCAWizard';
+import { listAnalyses, deleteAnalysis } from '@/lib/api';
+import { UserMenu } from '@/components/UserMenu';
+
+export default function AnalysesPage() {
+  const queryClient = useQueryClient();
+
+  const { data: analyses = [], isLoading, error } = useQuery({
+    queryKey: ['analyses'],
+    queryFn: listAnalyses,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteAnalysis,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['analyses'] });
+      toast.success('Analysis deleted');
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete analysis');
+    },
+  });
+
+  const stepName = (step: number) =>
+    WIZARD_STEPS.find((s) => s.id === step)?.name || `Step ${step}`;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-lg bg-primary/10">
+                <BarChart3 className="w-6 h-6 text-primary" />
+              </div>
+              <div>
+                <h1 className="text-xl font-semibold">Saved Analyses</h1>
+                <p className="text-sm text-muted-foreground">Resume a rate comparison where you left off</p>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button size="sm" asChild>
+                <Link to="/rca">
+                  <Plus className="w-4 h-4 mr-2" />
+                  New Analysis
+                </Link>
+              </Button>
+              <UserMenu />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 max-w-4xl">
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : error ? (
+          <Card>
+            <CardContent className="py-12 text-center text-destructive">
+              {error instanceof Error ? error.message : 'Failed to load analyses'}
+            </CardContent>
+          </Card>
+        ) : analyses.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              <FolderOpen className="w-12 h-12 mx-auto mb-4 opacity-50" />
+              <p>No saved analyses yet.</p>
+              <p className="text-sm mt-1">Use "Save Analysis" in the wizard to keep your work.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {analyses.map((analysis) => (
+              <Card key={analysis.id}>
+                <CardHeader className="pb-2">
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="min-w-0">
+                      <CardTitle className="text-base truncate">{analysis.name}</CardTitle>
+                      <CardDescription>
+                        {analysis.subjectStoreName || 'No subject store'} • Updated{' '}
+                        {format(new Date(analysis.updatedAt), 'MMM d, yyyy h:mm a')}
+                      </CardDescription>
+                    </div>
+                    <Badge variant="outline" className="shrink-0">
+                      Step {analysis.currentStep}: {stepName(analysis.currentStep)}
+                    </Badge>
+                  </div>
+                </CardHeader>
+                <CardContent className="flex justify-end gap-2">
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="ghost" size="sm" disabled={deleteMutation.isPending}>
+                        <Trash2 className="w-4 h-4 mr-2" />
+                        Delete
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Delete "{analysis.name}"?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          This permanently removes the saved analysis. This cannot be undone.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => deleteMutation.mutate(analysis.id)}>
+                          Delete
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                  <Button size="sm" asChild>
+                    <Link to={`/rca?analysis=${analysis.id}`}>
+                      <FolderOpen className="w-4 h-4 mr-2" />
+                      Open
+                    </Link>
+                  </Button>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { ArrowLeft, Check, ClipboardCheck, Loader2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { UserMenu } from '@/components/UserMenu';
+import { decideBackfillRequest, getBackfillPolicy, listBackfillRequests } from '@/lib/api';
+import type { BackfillRequest, BackfillStatus } from '@/types/rca';
+
+const STATUS_VARIANTS: Record<BackfillStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'outline',
+  approved: 'default',
+  rejected: 'destructive',
+};
+
+const storeYears = (request: BackfillRequest) => request.stores.reduce((sum, s) => sum + s.years.length, 0);
+
+export default function ApprovalsPage() {
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<BackfillStatus>('pending');
+  const [notes, setNotes] = useState<Record<number, string>>({});
+
+  const { data: requests = [], isLoading, error } = useQuery({
+    queryKey: ['backfills', status],
+    queryFn: () => listBackfillRequests(status),
+  });
+  const { data: policy } = useQuery({ queryKey: ['backfill-policy'], queryFn: getBackfillPolicy, staleTime: Infinity });
+
+  const decideMutation = useMutation({
+    mutationFn: ({ id, decision }: { id: number; decision: 'approved' | 'rejected' }) =>
+      decideBackfillRequest(id, decision, notes[id]?.trim() || undefined),
+    onSuccess: (request) => {
+      queryClient.invalidateQueries({ queryKey: ['backfills'] });
+      toast.success(`Backfill #${request.id} ${request.status}`);
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : 'Failed to record decision');
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-lg bg-primary/10">
+                <ClipboardCheck className="w-6 h-6 text-primary" />
+              </div>
+              <div>
+                <h1 className="text-xl font-semibold">Backfill Approvals</h1>
+                <p className="text-sm text-muted-foreground">
+                  {policy
+                    ? `StorTrack pulls above $${policy.approvalThreshold.toFixed(2)} need sign-off`
+                    : 'Sign off on StorTrack historical pulls'}
+                </p>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" asChild>
+                <Link to="/">
+                  <ArrowLeft className="w-4 h-4 mr-2" />
+                  Home
+                </Link>
+              </Button>
+              <UserMenu />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 max-w-4xl space-y-4">
+        <Tabs value={status} onValueChange={(value) => setStatus(value as BackfillStatus)}>
+          <TabsList>
+            <TabsTrigger value="pending">Pending</TabsTrigger>
+            <TabsTrigger value="approved">Approved</TabsTrigger>
+            <TabsTrigger value="rejected">Rejected</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : error ? (
+          <Card>
+            <CardContent className="py-12 text-center text-destructive">
+              {error instanceof Error ? error.message : 'Failed to load backfill requests'}
+            </CardContent>
+          </Card>
+        ) : requests.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              No {status} backfill requests.
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {requests.map((request) => (
+              <Card key={request.id}>
+                <CardHeader className="pb-2">
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="min-w-0">
+                      <CardTitle className="text-base truncate">
+                        #{request.id} · {request.analysisName || 'Untitled analysis'}
+                      </CardTitle>
+                      <CardDescription>
+                        {request.requestedByUsername || `User ${request.requestedBy}`} •{' '}
+                        {format(new Date(request.createdAt), 'MMM d, yyyy h:mm a')} • {request.stores.length} stores,{' '}
+                        {storeYears(request)} store-years
+                      </CardDescription>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <span className="font-mono font-medium">${request.estimatedCost.toFixed(2)}</span>
+                      <Badge variant={STATUS_VARIANTS[request.status]}>{request.status}</Badge>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <ul className="text-sm text-muted-foreground space-y-0.5">
+                    {request.stores.map((store) => (
+                      <li key={store.storeId}>
+                        {store.storeName || `Store ${store.storeId}`}: {store.years.join(', ')}
+                      </li>
+                    ))}
+                  </ul>
+                  {request.note && <p className="text-sm">Note: {request.note}</p>}
+                  {request.status === 'pending' && (
+                    <div className="flex gap-2">
+                      <Input
+                        placeholder="Note (optional)"
+                        value={notes[request.id] || ''}
+                        onChange={(e) => setNotes((prev) => ({ ...prev, [request.id]: e.target.value }))}
+                        className="h-9"
+                      />
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={decideMutation.isPending}
+                        onClick={() => decideMutation.mutate({ id: request.id, decision: 'rejected' })}
+                      >
+                        <X className="w-4 h-4 mr-2" />
+                        Reject
+                      </Button>
+                      <Button
+                        size="sm"
+                        disabled={decideMutation.isPending}
+                        onClick={() => decideMutation.mutate({ id: request.id, decision: 'approved' })}
+                      >
+                        <Check className="w-4 h-4 mr-2" />
+                        Approve
+                      </Button>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
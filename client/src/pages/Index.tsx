@@ -1,12 +1,16 @@
 import { Link } from 'react-router-dom';
-import { BarChart3, ArrowRight, Building2, Database, FileSpreadsheet, TrendingUp } from 'lucide-react';
+import { BarChart3, ArrowRight, Building2, Database, FileSpreadsheet, FolderOpen, TrendingUp } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { UserMenu } from '@/components/UserMenu';
 const Index = () => {
   return <div className="min-h-screen bg-background">
       {/* Hero Section */}
       <div className="relative overflow-hidden">
         <div className="absolute inset-0 bg-gradient-to-br from-primary/5 via-transparent to-transparent" />
+        <div className="container mx-auto px-4 pt-4 flex justify-end relative">
+          <UserMenu />
+        </div>
         <div className="container mx-auto px-4 py-20 relative">
           <div className="max-w-3xl mx-auto text-center">
             <div className="inline-flex items-center gap-2 px-4 py-2 rounded-full bg-primary/10 text-primary mb-6">
@@ -25,12 +29,20 @@ const Index = () => {
               customizable adjustments.
             </p>
             
-            <Link to="/rca">
-              <Button size="lg" className="gap-2">
-                Start Analysis
-                <ArrowRight className="w-4 h-4" />
-              </Button>
-            </Link>
+            <div className="flex flex-wrap justify-center gap-3">
+              <Link to="/rca">
+                <Button size="lg" className="gap-2">
+                  Start Analysis
+                  <ArrowRight className="w-4 h-4" />
+                </Button>
+              </Link>
+              <Link to="/analyses">
+                <Button size="lg" variant="outline" className="gap-2">
+                  <FolderOpen className="w-4 h-4" />
+                  Saved Analyses
+                </Button>
+              </Link>
+            </div>
           </div>
         </div>
       </div>
@@ -1,4 +1,7 @@
-import { BarChart3, Building2 } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { BarChart3, Building2, FolderOpen, Loader2, Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
 import { useRCAWizard, WIZARD_STEPS } from '@/hooks/useRCAWizard';
 import { WizardProgress } from '@/components/rca/WizardProgress';
 import { StepSearch } from '@/components/rca/StepSearch';
@@ -11,9 +14,40 @@ import { StepNames } from '@/components/rca/StepNames';
 import { StepDataGaps } from '@/components/rca/StepDataGaps';
 import { StepFeatureCodes } from '@/components/rca/StepFeatureCodes';
 import { StepDataVisualization } from '@/components/rca/StepDataVisualization';
+import { UserMenu } from '@/components/UserMenu';
+import { useAuth } from '@/hooks/useAuth';
+import { hasRole } from '@/lib/roles';
 
 export default function RCAPage() {
   const { state, actions } = useRCAWizard();
+  const { user } = useAuth();
+  // Viewers can open analyses but not save them
+  const canSave = hasRole(user?.role, 'analyst');
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [isSaving, setIsSaving] = useState(false);
+  const requestedAnalysisId = Number(searchParams.get('analysis')) || null;
+  const { loadAnalysis } = actions;
+
+  // Open a saved analysis when arriving from /analyses?analysis=<id>
+  useEffect(() => {
+    if (requestedAnalysisId && requestedAnalysisId !== state.analysisId) {
+      loadAnalysis(requestedAnalysisId);
+    }
+  }, [requestedAnalysisId, state.analysisId, loadAnalysis]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const id = await actions.saveAnalysis();
+    setIsSaving(false);
+    if (id && id !== requestedAnalysisId) {
+      setSearchParams({ analysis: String(id) }, { replace: true });
+    }
+  };
+
+  const handleReset = () => {
+    actions.resetWizard();
+    setSearchParams({}, { replace: true });
+  };
 
   const renderStep = () => {
     switch (state.currentStep) {
@@ -46,7 +80,11 @@ export default function RCAPage() {
           <StepCompetitors
             subjectStore={state.subjectStore!}
             competitors={state.competitors}
+            duplicateGroups={state.duplicateGroups}
+            radius={state.searchCriteria.radius}
             onSelect={actions.selectStoresForAnalysis}
+            onMerge={actions.mergeDuplicateStores}
+            onDismissDuplicate={actions.dismissDuplicateGroup}
             onNext={actions.nextStep}
             onBack={actions.prevStep}
             isLoading={state.isLoading}
@@ -58,6 +96,7 @@ export default function RCAPage() {
             stores={state.selectedStores}
             metadata={state.storeMetadata}
             onUpdate={actions.updateStoreMetadata}
+            onSaveLink={actions.saveStoreLink}
             onNext={actions.nextStep}
             onBack={actions.prevStep}
             onFetchMatches={actions.fetchSalesforceMatchesForStore}
@@ -101,6 +140,9 @@ export default function RCAPage() {
             onSetApiStores={actions.setApiStoreIds}
             onAnalyze={actions.analyzeGaps}
             isLoading={state.isLoading}
+            backfill={state.backfill}
+            onRequestBackfill={actions.requestBackfill}
+            onRefreshBackfill={actions.refreshBackfill}
             onNext={actions.nextStep}
             onBack={actions.prevStep}
           />
@@ -109,7 +151,11 @@ export default function RCAPage() {
         return (
           <StepFeatureCodes
             featureCodes={state.featureCodes}
+            featureCodeRules={state.featureCodeRules}
+            pullJob={state.pullJob}
             onUpdate={actions.updateFeatureCode}
+            onUpdateRules={actions.updateFeatureCodeRules}
+            onPromote={actions.promoteFeatureCodes}
             onInitialize={actions.initializeFeatureCodes}
             onNext={actions.nextStep}
             onBack={actions.prevStep}
@@ -120,13 +166,18 @@ export default function RCAPage() {
           <StepDataVisualization
             subjectStore={state.subjectStore}
             selectedStores={state.selectedStores}
+            storeRankings={state.storeRankings}
+            storeMetadata={state.storeMetadata}
             adjustmentFactors={state.adjustmentFactors}
             rateRecords={state.rateRecords}
             customNames={state.customNames}
             featureCodes={state.featureCodes}
+            pullJob={state.pullJob}
             onExport={actions.exportCSV}
+            onExportExcel={actions.exportExcel}
             isLoading={state.isLoading}
             onBack={actions.prevStep}
+            onReset={handleReset}
           />
         );
       default:
@@ -139,13 +190,34 @@ export default function RCAPage() {
       {/* Header */}
       <header className="border-b bg-card sticky top-0 z-50">
         <div className="container mx-auto px-4 py-4">
-          <div className="flex items-center gap-3">
-            <div className="p-2 rounded-lg bg-primary/10">
-              <BarChart3 className="w-6 h-6 text-primary" />
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-lg bg-primary/10">
+                <BarChart3 className="w-6 h-6 text-primary" />
+              </div>
+              <div>
+                <h1 className="text-xl font-semibold">Rate Comparison Analysis</h1>
+                <p className="text-sm text-muted-foreground">
+                  {state.analysisName || 'Self-Storage Competitor Analysis Tool'}
+                </p>
+              </div>
             </div>
-            <div>
-              <h1 className="text-xl font-semibold">Rate Comparison Analysis</h1>
-              <p className="text-sm text-muted-foreground">Self-Storage Competitor Analysis Tool</p>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" asChild>
+                <Link to="/analyses">
+                  <FolderOpen className="w-4 h-4 mr-2" />
+                  Saved Analyses
+                </Link>
+              </Button>
+              <Button size="sm" onClick={handleSave} disabled={isSaving || !state.subjectStore || !canSave}>
+                {isSaving ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Save className="w-4 h-4 mr-2" />
+                )}
+                {state.analysisId ? 'Save' : 'Save Analysis'}
+              </Button>
+              <UserMenu />
             </div>
           </div>
         </div>
@@ -0,0 +1,177 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { format, subMonths } from 'date-fns';
+import { ArrowLeft, DollarSign, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { UserMenu } from '@/components/UserMenu';
+import { getSpendReport } from '@/lib/api';
+import type { SpendGroup } from '@/types/rca';
+
+const dollars = (value: number) => `$${value.toFixed(2)}`;
+
+function SpendTable({ groups, heading }: { groups: SpendGroup[]; heading: string }) {
+  if (groups.length === 0) {
+    return <p className="py-8 text-center text-sm text-muted-foreground">No StorTrack calls in this range.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{heading}</TableHead>
+          <TableHead className="text-right">Calls</TableHead>
+          <TableHead className="text-right">Estimated Cost</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {groups.map((group) => (
+          <TableRow key={group.key}>
+            <TableCell className="font-medium">{group.label}</TableCell>
+            <TableCell className="text-right">{group.calls}</TableCell>
+            <TableCell className="text-right font-mono">{dollars(group.cost)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export default function SpendPage() {
+  const [from, setFrom] = useState(() => format(subMonths(new Date(), 5), 'yyyy-MM'));
+  const [to, setTo] = useState(() => format(new Date(), 'yyyy-MM'));
+
+  const { data: report, isLoading, error } = useQuery({
+    queryKey: ['spend', from, to],
+    queryFn: () => getSpendReport(from, to),
+    enabled: Boolean(from && to),
+  });
+
+  const budget = report?.budget;
+  const budgetUsed = budget && budget.monthlyBudget > 0 ? Math.min(100, (budget.spent / budget.monthlyBudget) * 100) : 0;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-lg bg-primary/10">
+                <DollarSign className="w-6 h-6 text-primary" />
+              </div>
+              <div>
+                <h1 className="text-xl font-semibold">StorTrack Spend</h1>
+                <p className="text-sm text-muted-foreground">Estimated API cost by user, month and market</p>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" asChild>
+                <Link to="/">
+                  <ArrowLeft className="w-4 h-4 mr-2" />
+                  Home
+                </Link>
+              </Button>
+              <UserMenu />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 max-w-4xl space-y-6">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="spend-from">From</Label>
+            <Input id="spend-from" type="month" value={from} max={to} onChange={(e) => setFrom(e.target.value)} className="h-9 w-44" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="spend-to">To</Label>
+            <Input id="spend-to" type="month" value={to} min={from} onChange={(e) => setTo(e.target.value)} className="h-9 w-44" />
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : error ? (
+          <Card>
+            <CardContent className="py-12 text-center text-destructive">
+              {error instanceof Error ? error.message : 'Failed to load spend report'}
+            </CardContent>
+          </Card>
+        ) : report && budget ? (
+          <>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>
+                    {report.from === report.to ? report.from : `${report.from} to ${report.to}`}
+                  </CardDescription>
+                  <CardTitle className="text-2xl font-mono">{dollars(report.total.cost)}</CardTitle>
+                </CardHeader>
+                <CardContent className="text-sm text-muted-foreground">{report.total.calls} StorTrack calls</CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Budget for {budget.month}</CardDescription>
+                  <CardTitle className="text-2xl font-mono">
+                    {dollars(budget.spent)}
+                    {budget.monthlyBudget > 0 && (
+                      <span className="text-base text-muted-foreground"> / {dollars(budget.monthlyBudget)}</span>
+                    )}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {budget.monthlyBudget > 0 ? (
+                    <>
+                      <Progress value={budgetUsed} />
+                      <p className="text-sm text-muted-foreground">
+                        {dollars(Math.max(0, budget.monthlyBudget - budget.spent))} left; calls beyond this are refused
+                      </p>
+                    </>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">No monthly limit configured</p>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            <Tabs defaultValue="user">
+              <TabsList>
+                <TabsTrigger value="user">By User</TabsTrigger>
+                <TabsTrigger value="month">By Month</TabsTrigger>
+                <TabsTrigger value="market">By Market</TabsTrigger>
+              </TabsList>
+              <Card className="mt-2">
+                <CardContent className="p-0">
+                  <TabsContent value="user" className="mt-0">
+                    <SpendTable groups={report.byUser} heading="User" />
+                  </TabsContent>
+                  <TabsContent value="month" className="mt-0">
+                    <SpendTable groups={report.byMonth} heading="Month" />
+                  </TabsContent>
+                  <TabsContent value="market" className="mt-0">
+                    <SpendTable groups={report.byMarket} heading="Market" />
+                  </TabsContent>
+                </CardContent>
+              </Card>
+            </Tabs>
+          </>
+        ) : null}
+      </main>
+    </div>
+  );
+}
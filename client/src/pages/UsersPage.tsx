@@ -0,0 +1,195 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { ArrowLeft, Loader2, UserPlus, Users } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { UserMenu } from '@/components/UserMenu';
+import { useAuth } from '@/hooks/useAuth';
+import { createUser, listUsers, updateUserRole } from '@/lib/api';
+import { ROLE_LABELS, USER_ROLES } from '@/lib/roles';
+import type { UserRole } from '@/types/rca';
+
+const emptyForm = { username: '', email: '', password: '', role: 'analyst' as UserRole };
+
+function RoleSelect({ value, onChange, disabled }: { value: UserRole; onChange: (role: UserRole) => void; disabled?: boolean }) {
+  return (
+    <Select value={value} onValueChange={(role) => onChange(role as UserRole)} disabled={disabled}>
+      <SelectTrigger className="h-9 w-[140px]">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {USER_ROLES.map((role) => (
+          <SelectItem key={role} value={role}>
+            {ROLE_LABELS[role]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export default function UsersPage() {
+  const queryClient = useQueryClient();
+  const { user: currentUser } = useAuth();
+  const [form, setForm] = useState(emptyForm);
+
+  const { data: users = [], isLoading, error } = useQuery({
+    queryKey: ['users'],
+    queryFn: listUsers,
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: ({ id, role }: { id: number; role: UserRole }) => updateUserRole(id, role),
+    onSuccess: (user) => {
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+      toast.success(`${user.username} is now ${ROLE_LABELS[user.role]}`);
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : 'Failed to change role');
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: createUser,
+    onSuccess: (user) => {
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+      setForm(emptyForm);
+      toast.success(`Added ${user.username}`);
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : 'Failed to add user');
+    },
+  });
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    createMutation.mutate({ ...form, username: form.username.trim(), email: form.email.trim() });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-lg bg-primary/10">
+                <Users className="w-6 h-6 text-primary" />
+              </div>
+              <div>
+                <h1 className="text-xl font-semibold">Users</h1>
+                <p className="text-sm text-muted-foreground">Manage accounts and roles</p>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" asChild>
+                <Link to="/">
+                  <ArrowLeft className="w-4 h-4 mr-2" />
+                  Home
+                </Link>
+              </Button>
+              <UserMenu />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 max-w-4xl space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Add User</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleCreate} className="flex flex-wrap gap-2">
+              <Input
+                placeholder="Username"
+                value={form.username}
+                onChange={(e) => setForm((prev) => ({ ...prev, username: e.target.value }))}
+                className="h-9 w-40"
+              />
+              <Input
+                type="email"
+                placeholder="Email"
+                value={form.email}
+                onChange={(e) => setForm((prev) => ({ ...prev, email: e.target.value }))}
+                className="h-9 w-56"
+              />
+              <Input
+                type="password"
+                placeholder="Password (8+ characters)"
+                autoComplete="new-password"
+                value={form.password}
+                onChange={(e) => setForm((prev) => ({ ...prev, password: e.target.value }))}
+                className="h-9 w-56"
+              />
+              <RoleSelect value={form.role} onChange={(role) => setForm((prev) => ({ ...prev, role }))} />
+              <Button
+                type="submit"
+                size="sm"
+                disabled={createMutation.isPending || !form.username.trim() || !form.email.trim() || form.password.length < 8}
+              >
+                <UserPlus className="w-4 h-4 mr-2" />
+                Add
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : error ? (
+          <Card>
+            <CardContent className="py-12 text-center text-destructive">
+              {error instanceof Error ? error.message : 'Failed to load users'}
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Username</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Added</TableHead>
+                    <TableHead>Role</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {users.map((user) => (
+                    <TableRow key={user.id}>
+                      <TableCell className="font-medium">{user.username}</TableCell>
+                      <TableCell>{user.email}</TableCell>
+                      <TableCell>{format(new Date(user.createdAt), 'MMM d, yyyy')}</TableCell>
+                      <TableCell>
+                        <RoleSelect
+                          value={user.role}
+                          onChange={(role) => roleMutation.mutate({ id: user.id, role })}
+                          disabled={roleMutation.isPending || user.id === currentUser?.id}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,5 +1,9 @@
 // RCA Tool Type Definitions
 
+import type { ApiSalesforceMatch, DuplicateStoreGroup } from '@shared/api';
+
+export type { DuplicateStoreGroup };
+
 export interface SearchCriteria {
   streetAddress: string;
   country: string;
@@ -24,28 +28,41 @@ export interface Store {
   longitude?: number;
   storeStatus?: number;
   distance?: number;
+  // Other StorTrack IDs merged into this store as the same facility; their rates are filed under it
+  mergedStoreIds?: number[];
 }
 
 export interface StoreMetadata {
   yearBuilt: number | null;
   squareFootage: number | null;
   distance?: number;
+  // Picked in this session; null when the analyst entered the figures by hand
   salesforceMatch?: SalesforceMatch | null;
+  // Saved confirmation from this or an earlier analysis
+  link?: SalesforceStoreLink;
 }
 
 // Salesforce match from fuzzy matching (like RCA_template.py)
-export interface SalesforceMatch {
-  Name: string;
-  Year_Built__c: string | number | null;
-  Net_RSF__c: string | number | null;
-  ShippingAddress: string | null;
-  nameScore: number;
-  addressScore: number;
-  combinedScore: number;
-  parsedStoreName: string;
-  parsedAddress: string;
+// Scored Salesforce_rawData row; the contract for GET /api/salesforce/matches
+export type SalesforceMatch = ApiSalesforceMatch;
+
+// Analyst-confirmed Salesforce record for a store; no record when the figures were entered by hand
+export interface SalesforceStoreLink {
+  id: number;
+  storeId: number;
+  masterId: number | null;
+  salesforceId: string | null;
+  salesforceName: string | null;
+  yearBuilt: number | null;
+  squareFootage: number | null;
+  verifiedBy: number | null;
+  verifiedByUsername: string | null;
+  verifiedAt: string;
 }
 
+// Figures the analyst confirmed for a store; saved as its link via PUT /api/salesforce/links/:storeId
+export type ConfirmedMetadata = Pick<SalesforceStoreLink, 'salesforceId' | 'salesforceName' | 'yearBuilt' | 'squareFootage'>;
+
 export interface StoreRankings {
   Location: number;
   Age: number;
@@ -63,20 +80,68 @@ export interface AdjustmentFactors {
   ccAdj: number;
 }
 
+export interface DateRange {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string;   // YYYY-MM-DD, inclusive
+}
+
 export interface DateGap {
   storeId: number;
   storeName: string;
   missingDays: number;
   coveragePercent: number;
   dateRanges: string[];
+  missingRanges: DateRange[];
+  cadenceDays: number;
   yearsNeeded: number[];
   estimatedCost: number;
 }
 
+export type UnitFeature = 'climateControlled' | 'driveUp' | 'elevator' | 'groundLevel' | 'interior';
+
+export type ClassificationConfidence = 'high' | 'medium' | 'low';
+
+// Where a tag's code came from: the shared library, the classifier rules, or the analyst
+export type FeatureCodeOrigin = 'library' | 'rules' | 'manual';
+
 export interface FeatureCode {
   originalTag: string;
   code: string;
   count: number;
+  origin?: FeatureCodeOrigin;
+  // Classifier confidence; set for origin 'rules'
+  confidence?: ClassificationConfidence;
+  // Share of the tag's records that classified to `code`
+  agreement?: number;
+  // Code currently stored for this tag in the shared library, if any
+  libraryCode?: string;
+}
+
+export interface FeatureCodeMapping {
+  id: number;
+  tag: string;
+  code: string;
+  updatedAt: string;
+}
+
+// Ordered classifier rule: matches when each listed feature is present (true) or absent (false)
+export interface FeatureCodeRule {
+  id: string;
+  code: string;
+  when: Partial<Record<UnitFeature, boolean>>;
+}
+
+// Standard unit size grid; see lib/unitSize.ts
+export type SizeBucket = '5x5' | '5x10' | '10x10' | '10x15' | '10x20' | '10x30' | 'Parking' | 'Other';
+
+export interface UnitSize {
+  width: number | null;
+  length: number | null;
+  height: number | null;
+  squareFeet: number | null;
+  bucket: SizeBucket;
+  // Bucket name, or the unit's own dimensions when it falls off the grid
+  label: string;
 }
 
 export interface RateRecord {
@@ -105,8 +170,14 @@ export interface RateRecord {
   date: string;
   promo: string;
   source: 'Database' | 'API';
+  unitSize: UnitSize;
+  walkInPerSqFt: number | null;
+  onlinePerSqFt: number | null;
 }
 
+// Rate record as returned by the API or database, before size normalization
+export type RawRateRecord = Omit<RateRecord, 'unitSize' | 'walkInPerSqFt' | 'onlinePerSqFt'>;
+
 export interface WizardStep {
   id: number;
   name: string;
@@ -126,3 +197,117 @@ export type FeatureCodeType =
   | 'CC'    // Climate Controlled (generic)
   | 'NCC'   // Non-Climate Controlled (generic)
   | string; // Custom code
+
+// Wizard state persisted with a saved analysis. Rate records are not stored;
+// they are re-fetched when the analysis reaches the Feature Codes step again.
+export interface AnalysisSnapshot {
+  currentStep: number;
+  searchCriteria: SearchCriteria;
+  searchResults: Store[];
+  subjectStore: Store | null;
+  competitors: Store[];
+  selectedStores: Store[];
+  storeMetadata: Record<number, StoreMetadata>;
+  storeRankings: Record<number, StoreRankings>;
+  adjustmentFactors: AdjustmentFactors;
+  customNames: Record<number, string>;
+  dateGaps: DateGap[];
+  apiStoreIds: number[];
+  featureCodes: FeatureCode[];
+  featureCodeRules: FeatureCodeRule[];
+  // Absent in analyses saved before backfills needed approval
+  backfill?: BackfillRequest | null;
+  // Absent in analyses saved before duplicate competitors were detected
+  duplicateGroups?: DuplicateStoreGroup[];
+}
+
+export interface AnalysisSummary {
+  id: number;
+  name: string;
+  subjectStoreName: string | null;
+  currentStep: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SavedAnalysis extends AnalysisSummary {
+  state: AnalysisSnapshot;
+}
+
+export type UserRole = 'viewer' | 'analyst' | 'approver' | 'admin';
+
+export interface AuthUser {
+  id: number;
+  username: string;
+  email: string;
+  role: UserRole;
+  createdAt: string;
+}
+
+export type BackfillStatus = 'pending' | 'approved' | 'rejected';
+
+export interface BackfillStore {
+  storeId: number;
+  storeName?: string;
+  years: number[];
+}
+
+// Approval record for a batch of StorTrack historical pulls
+export interface BackfillRequest {
+  id: number;
+  requestedBy: number;
+  requestedByUsername?: string | null;
+  analysisName: string | null;
+  stores: BackfillStore[];
+  estimatedCost: number;
+  status: BackfillStatus;
+  decidedBy: number | null;
+  decidedAt: string | null;
+  note: string | null;
+  createdAt: string;
+}
+
+export interface BackfillPolicy {
+  costPerStoreYear: number;
+  approvalThreshold: number;
+}
+
+export type PullJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface PullJobStore {
+  storeId: number;
+  storeName?: string;
+  ranges: DateRange[];
+  status: PullJobStatus;
+  records: number;
+  error?: string;
+}
+
+// A server-side batch of StorTrack historical pulls for an approved backfill
+export interface PullJob {
+  id: number;
+  backfillId: number;
+  status: PullJobStatus;
+  stores: PullJobStore[];
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+export interface SpendGroup {
+  key: string;
+  label: string;
+  calls: number;
+  cost: number;
+}
+
+export interface SpendReport {
+  from: string;
+  to: string;
+  total: SpendGroup;
+  byUser: SpendGroup[];
+  byMonth: SpendGroup[];
+  byMarket: SpendGroup[];
+  // monthlyBudget is 0 when no limit is configured
+  budget: { monthlyBudget: number; month: string; spent: number };
+}
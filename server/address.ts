@@ -0,0 +1,114 @@
+import addressParser from "parse-address";
+
+// Offline USPS-style (Publication 28) standardization of US street lines, so
+// records from StorTrack and Salesforce compare on the address rather than its
+// spelling: "2500 South Lamar Boulevard Ste 200" and "2500 S Lamar Blvd" are the
+// same facility. Nothing here calls a geocoding service; coordinates are only
+// compared where the source data carries them.
+
+export const US_STATE_CODES: Record<string, string> = {
+  alabama: 'AL', alaska: 'AK', arizona: 'AZ', arkansas: 'AR', california: 'CA', colorado: 'CO',
+  connecticut: 'CT', delaware: 'DE', 'district of columbia': 'DC', florida: 'FL', georgia: 'GA',
+  hawaii: 'HI', idaho: 'ID', illinois: 'IL', indiana: 'IN', iowa: 'IA', kansas: 'KS', kentucky: 'KY',
+  louisiana: 'LA', maine: 'ME', maryland: 'MD', massachusetts: 'MA', michigan: 'MI', minnesota: 'MN',
+  mississippi: 'MS', missouri: 'MO', montana: 'MT', nebraska: 'NE', nevada: 'NV', 'new hampshire': 'NH',
+  'new jersey': 'NJ', 'new mexico': 'NM', 'new york': 'NY', 'north carolina': 'NC', 'north dakota': 'ND',
+  ohio: 'OH', oklahoma: 'OK', oregon: 'OR', pennsylvania: 'PA', 'rhode island': 'RI',
+  'south carolina': 'SC', 'south dakota': 'SD', tennessee: 'TN', texas: 'TX', utah: 'UT', vermont: 'VT',
+  virginia: 'VA', washington: 'WA', 'west virginia': 'WV', wisconsin: 'WI', wyoming: 'WY',
+  'puerto rico': 'PR',
+};
+
+export interface StandardStreet {
+  number: string | null;
+  // Directionals, name and street type in USPS abbreviations, upper case, without the unit
+  street: string;
+  unit: string | null;
+}
+
+// What parse-address returns for a street line; every part is optional
+interface ParsedLocation {
+  number?: string;
+  prefix?: string;
+  street?: string;
+  type?: string;
+  suffix?: string;
+  sec_unit_type?: string;
+  sec_unit_num?: string;
+}
+
+// US, state and plain highways are written every which way ("US-290", "Hwy 290",
+// "US Highway 290", "SH 71"); they all become "HWY <n>", and interstates "I <n>".
+// The parser drops a route number it sees as a separate word, so routes are
+// written as one word ("HWY290") while parsing.
+const HIGHWAY = /\b(?:(?:U S|US|STATE|SH|SR|TX)[\s-]*(?:HWY|HIGHWAY|RTE|ROUTE)?|HWY|HIGHWAY|RTE|ROUTE)[\s-]*(\d+[A-Z]?)\b/g;
+const INTERSTATE = /\b(?:INTERSTATE|IH|I)(?:[\s-]*HWY)?[\s-]*(\d+[A-Z]?)\b/g;
+const JOINED_ROUTE = /\b(HWY|I)(\d+[A-Z]?)\b/g;
+const ROUTE = /^(?:HWY|I) \d+[A-Z]?$/;
+const DIRECTIONAL = /^(?:N|S|E|W|NE|NW|SE|SW)$/;
+
+const UNIT = /\s+(?:#|(?:STE|SUITE|UNIT|APT|BLDG|BUILDING|SPC|SPACE|RM|ROOM)\b\.?)\s*[\w-]+$/i;
+
+const clean = (text: string) => text.toUpperCase().replace(/[.,]/g, '').replace(/\s+/g, ' ').trim();
+
+const joinRoutes = (text: string) => text.replace(HIGHWAY, 'HWY$1').replace(INTERSTATE, 'I$1');
+
+const splitRoutes = (text: string) => text.replace(JOINED_ROUTE, '$1 $2');
+
+/**
+ * Splits a street line into house number, standardized street and unit. Lines
+ * the parser can't read fall back to upper-casing with the unit cut off, so a
+ * comparison still has something to work with.
+ */
+export function standardizeStreet(line: string): StandardStreet {
+  const text = joinRoutes(clean(line || ''));
+  if (!text) return { number: null, street: '', unit: null };
+
+  const parsed: ParsedLocation | null = addressParser.parseLocation(text);
+  if (!parsed?.number || !parsed.street) {
+    const withoutUnit = text.replace(UNIT, '');
+    const number = withoutUnit.match(/^(\d+)\s/)?.[1] ?? null;
+    return {
+      number,
+      street: splitRoutes(number ? withoutUnit.slice(number.length).trim() : withoutUnit),
+      unit: withoutUnit === text ? null : text.slice(withoutUnit.length).trim(),
+    };
+  }
+
+  let prefix = parsed.prefix ? clean(parsed.prefix) : '';
+  let suffix = parsed.suffix ? clean(parsed.suffix) : '';
+  const name = splitRoutes(clean(parsed.street));
+  const type = parsed.type ? clean(parsed.type) : '';
+
+  // USPS writes a highway's direction after it: "HWY 290 W"
+  if (ROUTE.test(name) && !type && prefix && !suffix && DIRECTIONAL.test(prefix)) {
+    suffix = prefix;
+    prefix = '';
+  }
+
+  const unit = [parsed.sec_unit_type, parsed.sec_unit_num].filter(Boolean).join(' ');
+  return {
+    number: parsed.number,
+    street: [prefix, name, type, suffix].filter(Boolean).join(' '),
+    unit: unit ? clean(unit) : null,
+  };
+}
+
+// House number and street for comparison, without the unit
+export function streetKey(line: string): string {
+  const { number, street } = standardizeStreet(line);
+  return [number, street].filter(Boolean).join(' ');
+}
+
+// The 5-digit ZIP out of a ZIP or ZIP+4
+export const zip5 = (postalCode: unknown) => String(postalCode ?? '').match(/\b(\d{5})(?:-\d{4})?\b/)?.[1] ?? null;
+
+// Two-letter code for a state written out or abbreviated
+export function stateCode(state: unknown): string | null {
+  const text = String(state ?? '').trim().replace(/\./g, '').replace(/\s+/g, ' ');
+  if (!text) return null;
+  return US_STATE_CODES[text.toLowerCase()] ?? text.toUpperCase();
+}
+
+export const cityKey = (city: unknown) =>
+  String(city ?? '').toLowerCase().replace(/[.,]/g, '').replace(/\s+/g, ' ').trim() || null;
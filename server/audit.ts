@@ -0,0 +1,13 @@
+import { storage } from "./storage";
+
+/**
+ * Append an audit entry for the acting user. Auditing must never fail the
+ * request it describes, so storage errors are logged and swallowed.
+ */
+export async function recordAudit(userId: number, action: string, details: Record<string, unknown> = {}) {
+  try {
+    await storage.createAuditEntry({ userId, action, details });
+  } catch (error: unknown) {
+    console.error('Audit entry error:', error);
+  }
+}
@@ -0,0 +1,170 @@
+import type { Express, NextFunction, Request, Response } from "express";
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { hasRole, loginSchema, type PublicUser, type User, type UserRole } from "@shared/schema";
+import { storage } from "./storage";
+import { recordAudit } from "./audit";
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+const SESSION_COOKIE = "rca_session";
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const KEY_LENGTH = 64;
+
+// Signed in, but the user's role doesn't allow the action
+export class AccessDeniedError extends Error {
+  readonly status = 403;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "AccessDeniedError";
+  }
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${salt}:${hash.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [salt, hash] = stored.split(":");
+  if (!salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scryptAsync(password, salt, expected.length);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// Sessions are stored under the token's hash; only the browser ever holds the token itself
+const hashToken = (token: string) => createHash("sha256").update(token).digest("hex");
+
+function readSessionToken(req: Request): string | undefined {
+  for (const part of (req.headers.cookie || "").split(";")) {
+    const [name, ...value] = part.trim().split("=");
+    if (name === SESSION_COOKIE) return decodeURIComponent(value.join("="));
+  }
+  return undefined;
+}
+
+export function toPublicUser({ passwordHash, ...user }: User): PublicUser {
+  return user;
+}
+
+// Set by requireAuth; every handler behind it can rely on a signed-in user
+export function currentUser(res: Response): PublicUser {
+  const user = res.locals.user as PublicUser | undefined;
+  if (!user) throw new Error("No signed-in user on this request");
+  return user;
+}
+
+async function startSession(res: Response, userId: number) {
+  const token = randomBytes(32).toString("hex");
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+  await storage.createSession({ id: hashToken(token), userId, expiresAt });
+  res.cookie(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    expires: expiresAt,
+  });
+}
+
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  try {
+    const token = readSessionToken(req);
+    let session = token ? await storage.getSession(hashToken(token)) : undefined;
+    if (session && session.expiresAt.getTime() <= Date.now()) {
+      await storage.deleteSession(session.id);
+      session = undefined;
+    }
+    const user = session ? await storage.getUser(session.userId) : undefined;
+    if (!user) {
+      return res.status(401).json({ success: false, error: 'Not signed in' });
+    }
+    res.locals.user = toPublicUser(user);
+    next();
+  } catch (error: unknown) {
+    next(error);
+  }
+}
+
+export function assertRole(user: PublicUser, minimum: UserRole, action: string) {
+  if (!hasRole(user.role, minimum)) {
+    throw new AccessDeniedError(`${action} requires the ${minimum} role (you are ${user.role})`);
+  }
+}
+
+// Route-level guard for handlers that need more than a signed-in viewer
+export function requireRole(minimum: UserRole) {
+  return (_req: Request, res: Response, next: NextFunction) => {
+    const user = currentUser(res);
+    if (!hasRole(user.role, minimum)) {
+      return res.status(403).json({ success: false, error: `Requires the ${minimum} role` });
+    }
+    next();
+  };
+}
+
+/**
+ * Creates the first admin account from ADMIN_USERNAME / ADMIN_PASSWORD / ADMIN_EMAIL
+ * when it doesn't exist yet, so a fresh deployment has someone who can sign in.
+ */
+export async function ensureBootstrapUser() {
+  const username = process.env.ADMIN_USERNAME;
+  const password = process.env.ADMIN_PASSWORD;
+  if (!username || !password) return;
+  if (await storage.getUserByUsername(username)) return;
+
+  await storage.createUser({
+    username,
+    email: process.env.ADMIN_EMAIL || `${username}@localhost`,
+    passwordHash: await hashPassword(password),
+    role: "admin",
+  });
+  console.log(`Created initial admin "${username}"`);
+}
+
+/**
+ * Login is the only open /api route. Everything registered after this call
+ * sits behind requireAuth.
+ */
+export function registerAuthRoutes(app: Express) {
+  app.post("/api/auth/login", async (req, res) => {
+    try {
+      const parsed = loginSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, error: 'Username and password are required' });
+      }
+      const user = await storage.getUserByUsername(parsed.data.username);
+      if (!user || !(await verifyPassword(parsed.data.password, user.passwordHash))) {
+        return res.status(401).json({ success: false, error: 'Invalid username or password' });
+      }
+      await startSession(res, user.id);
+      await recordAudit(user.id, 'auth.login');
+      res.json({ success: true, data: toPublicUser(user) });
+    } catch (error: unknown) {
+      console.error('Login error:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ success: false, error: message });
+    }
+  });
+
+  app.use("/api", requireAuth);
+
+  app.post("/api/auth/logout", async (req, res) => {
+    try {
+      const token = readSessionToken(req);
+      if (token) await storage.deleteSession(hashToken(token));
+      res.clearCookie(SESSION_COOKIE);
+      res.json({ success: true, data: null });
+    } catch (error: unknown) {
+      console.error('Logout error:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ success: false, error: message });
+    }
+  });
+
+  app.get("/api/auth/me", (_req, res) => {
+    res.json({ success: true, data: currentUser(res) });
+  });
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import type { PublicUser } from "@shared/schema";
+import { AccessDeniedError } from "./auth";
+import { BACKFILL_APPROVAL_THRESHOLD, authorizeHistoricalPull, initialBackfillStatus, pullUnderBackfill } from "./backfills";
+import { storage } from "./storage";
+
+async function createUser(role: PublicUser["role"]): Promise<PublicUser> {
+  const username = `${role}-${Math.random().toString(36).slice(2)}`;
+  const { passwordHash: _, ...user } = await storage.createUser({
+    username,
+    email: `${username}@example.com`,
+    passwordHash: "x",
+    role,
+  });
+  return user;
+}
+
+async function requestBackfill(user: PublicUser, estimatedCost: number) {
+  const { status, decidedBy } = await initialBackfillStatus(user, estimatedCost);
+  return storage.createBackfillRequest({
+    requestedBy: user.id,
+    stores: [{ storeId: 1001, years: [2023, 2024] }, { storeId: 1002, years: [2024] }],
+    estimatedCost,
+    status,
+    decidedBy,
+  });
+}
+
+describe("initialBackfillStatus", () => {
+  it("approves a backfill under the threshold", async () => {
+    const analyst = await createUser("analyst");
+    expect(await initialBackfillStatus(analyst, BACKFILL_APPROVAL_THRESHOLD)).toEqual({ status: "approved", decidedBy: null });
+  });
+
+  it("counts the requester's unsigned backfills this month toward the threshold", async () => {
+    const analyst = await createUser("analyst");
+    const half = BACKFILL_APPROVAL_THRESHOLD / 2;
+    expect((await requestBackfill(analyst, half)).status).toBe("approved");
+    expect((await requestBackfill(analyst, half)).status).toBe("approved");
+    expect((await requestBackfill(analyst, 1)).status).toBe("pending");
+    // The pending request counts too
+    expect((await requestBackfill(analyst, 1)).status).toBe("pending");
+  });
+
+  it("doesn't count another requester's backfills", async () => {
+    const [first, second] = [await createUser("analyst"), await createUser("analyst")];
+    await requestBackfill(first, BACKFILL_APPROVAL_THRESHOLD);
+    expect((await requestBackfill(second, BACKFILL_APPROVAL_THRESHOLD)).status).toBe("approved");
+  });
+
+  it("takes an approver's own request over the threshold as their sign-off", async () => {
+    const approver = await createUser("approver");
+    expect(await initialBackfillStatus(approver, BACKFILL_APPROVAL_THRESHOLD + 1)).toEqual({
+      status: "approved",
+      decidedBy: approver.id,
+    });
+  });
+});
+
+// Reports whether each pull was allowed to reach StorTrack
+const cacheOnly = async ({ cacheOnly }: { cacheOnly: boolean }) => cacheOnly;
+const failing = async () => {
+  throw new Error("StorTrack unavailable");
+};
+
+describe("authorizeHistoricalPull", () => {
+  const pull = { storeid: 1001, from: "2024-01-01", to: "2024-12-31" };
+
+  it("pays for each store-year once, then serves it from the cache only", async () => {
+    const analyst = await createUser("analyst");
+    const { id: backfillId } = await requestBackfill(analyst, 10);
+    expect(await authorizeHistoricalPull(analyst, { ...pull, backfillId }, cacheOnly)).toBe(false);
+    expect(await authorizeHistoricalPull(analyst, { ...pull, backfillId }, cacheOnly)).toBe(true);
+  });
+
+  it("still pays for the backfill's other stores and years after the first pull", async () => {
+    const analyst = await createUser("analyst");
+    const { id: backfillId } = await requestBackfill(analyst, 10);
+    expect(await authorizeHistoricalPull(analyst, { ...pull, backfillId }, cacheOnly)).toBe(false);
+    expect(await authorizeHistoricalPull(analyst, { ...pull, backfillId, from: "2023-01-01", to: "2023-12-31" }, cacheOnly))
+      .toBe(false);
+    expect(await authorizeHistoricalPull(analyst, { ...pull, backfillId, storeid: 1002 }, cacheOnly)).toBe(false);
+  });
+
+  it("lets a failed pull's store-years be pulled again", async () => {
+    const analyst = await createUser("analyst");
+    const { id: backfillId } = await requestBackfill(analyst, 10);
+    await expect(authorizeHistoricalPull(analyst, { ...pull, backfillId }, failing)).rejects.toThrow("StorTrack unavailable");
+    expect(await authorizeHistoricalPull(analyst, { ...pull, backfillId }, cacheOnly)).toBe(false);
+  });
+
+  it("refuses pulls outside the backfill or under someone else's", async () => {
+    const [owner, other] = [await createUser("analyst"), await createUser("analyst")];
+    const backfill = await requestBackfill(owner, 10);
+    await expect(authorizeHistoricalPull(owner, { ...pull, backfillId: backfill.id, to: "2025-01-31" }, cacheOnly))
+      .rejects.toThrow(AccessDeniedError);
+    await expect(authorizeHistoricalPull(other, { ...pull, backfillId: backfill.id }, cacheOnly))
+      .rejects.toThrow(`Backfill request ${backfill.id} not found`);
+  });
+
+  it("refuses a backfill still waiting for sign-off", async () => {
+    const analyst = await createUser("analyst");
+    const backfill = await requestBackfill(analyst, BACKFILL_APPROVAL_THRESHOLD + 1);
+    await expect(authorizeHistoricalPull(analyst, { ...pull, backfillId: backfill.id }, cacheOnly))
+      .rejects.toThrow(`Backfill request ${backfill.id} is pending, not approved`);
+  });
+});
+
+describe("pullUnderBackfill", () => {
+  it("lets a pull job keep its claims when a restart runs the store again", async () => {
+    const analyst = await createUser("analyst");
+    const { id: backfillId } = await requestBackfill(analyst, 10);
+    const scope = { backfillId, storeId: 1001, from: "2024-01-01", to: "2024-12-31" };
+    expect(await pullUnderBackfill({ ...scope, pullJobId: 1 }, cacheOnly)).toBe(false);
+    expect(await pullUnderBackfill({ ...scope, pullJobId: 1 }, cacheOnly)).toBe(false);
+    expect(await pullUnderBackfill({ ...scope, pullJobId: 2 }, cacheOnly)).toBe(true);
+    expect(await pullUnderBackfill(scope, cacheOnly)).toBe(true);
+  });
+});
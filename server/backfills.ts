@@ -0,0 +1,117 @@
+import { hasRole, type BackfillRequest, type BackfillStore, type PublicUser } from "@shared/schema";
+import { storage } from "./storage";
+import { AccessDeniedError } from "./auth";
+import { API_COST_PER_STORE_YEAR, monthOf, numberFromEnv } from "./spend";
+
+// Backfills estimated above this need an approver's sign-off before any pull runs
+export const BACKFILL_APPROVAL_THRESHOLD = numberFromEnv("BACKFILL_APPROVAL_THRESHOLD", 100);
+
+export function estimateBackfillCost(stores: BackfillStore[]): number {
+  const storeYears = stores.reduce((sum, store) => sum + new Set(store.years).size, 0);
+  return Math.round(storeYears * API_COST_PER_STORE_YEAR * 100) / 100;
+}
+
+// What the requester already has waiting or approved without sign-off this month. Counting
+// it keeps a large backfill split into several small requests from approving itself.
+async function unsignedMonthToDateCost(userId: number, now = new Date()): Promise<number> {
+  const requests = await storage.listBackfillRequests({ requestedBy: userId });
+  return requests
+    .filter((request) => monthOf(request.createdAt) === monthOf(now))
+    .filter((request) => request.status === "pending" || (request.status === "approved" && request.decidedBy === null))
+    .reduce((sum, request) => sum + request.estimatedCost, 0);
+}
+
+/**
+ * While the requester's unsigned backfills this month, this one included, stay
+ * under the threshold, it is approved as soon as it is requested. Above it, an
+ * approver's own request counts as their sign-off; anyone else waits.
+ */
+export async function initialBackfillStatus(user: PublicUser, estimatedCost: number) {
+  if ((await unsignedMonthToDateCost(user.id)) + estimatedCost <= BACKFILL_APPROVAL_THRESHOLD) {
+    return { status: "approved" as const, decidedBy: null };
+  }
+  if (hasRole(user.role, "approver")) return { status: "approved" as const, decidedBy: user.id };
+  return { status: "pending" as const, decidedBy: null };
+}
+
+const yearOf = (date: unknown) => Number(String(date ?? "").slice(0, 4));
+
+// Calendar years from `from` through `to`; empty when the range runs backwards
+function yearsBetween(from: unknown, to: unknown): number[] {
+  const [fromYear, toYear] = [yearOf(from), yearOf(to)];
+  return fromYear <= toYear ? Array.from({ length: toYear - fromYear + 1 }, (_, i) => fromYear + i) : [];
+}
+
+/**
+ * Every StorTrack historical pull must fall inside an approved backfill that
+ * the caller requested, for a store and years the backfill covers.
+ */
+export async function assertBackfillCovers(
+  user: PublicUser,
+  params: { backfillId?: unknown; storeid?: unknown; from?: unknown; to?: unknown }
+): Promise<BackfillRequest> {
+  const backfillId = Number(params?.backfillId);
+  if (!Number.isInteger(backfillId) || backfillId < 1) {
+    throw new AccessDeniedError("Historical pulls must reference an approved backfill request");
+  }
+
+  const backfill = await storage.getBackfillRequest(backfillId);
+  if (!backfill || backfill.requestedBy !== user.id) {
+    throw new AccessDeniedError(`Backfill request ${backfillId} not found`);
+  }
+  if (backfill.status !== "approved") {
+    throw new AccessDeniedError(`Backfill request ${backfillId} is ${backfill.status}, not approved`);
+  }
+
+  const store = backfill.stores.find((s) => s.storeId === Number(params.storeid));
+  const years = yearsBetween(params.from, params.to);
+  const covered = store && years.length > 0 && years.every((year) => store.years.includes(year));
+  if (!covered) {
+    throw new AccessDeniedError(
+      `Store ${params.storeid} (${yearOf(params.from)}–${yearOf(params.to)}) is outside backfill request ${backfillId}`
+    );
+  }
+  return backfill;
+}
+
+export interface BackfillPullScope {
+  backfillId: number;
+  storeId: number;
+  from: string;
+  to: string;
+  // Set for a pull job's pulls, so the job keeps its claims when a restart runs it again
+  pullJobId?: number;
+}
+
+/**
+ * Runs one store's historical pull under an approved backfill, which pays for each
+ * store-year once. The pull reaches StorTrack when it claims a year no earlier pull
+ * has; otherwise it is answered from the rate cache only. A pull that fails drops
+ * its claims, so those years can be pulled again.
+ */
+export async function pullUnderBackfill<T>(
+  scope: BackfillPullScope,
+  pull: (options: { cacheOnly: boolean }) => Promise<T>
+): Promise<T> {
+  const { backfillId, storeId, from, to, pullJobId } = scope;
+  const claimed = await storage.claimBackfillYears(backfillId, storeId, yearsBetween(from, to), pullJobId);
+  try {
+    return await pull({ cacheOnly: claimed.length === 0 });
+  } catch (error) {
+    if (claimed.length > 0) await storage.releaseBackfillYears(backfillId, storeId, claimed);
+    throw error;
+  }
+}
+
+// A direct historical pull (outside a pull job), checked against the caller's backfill first
+export async function authorizeHistoricalPull<T>(
+  user: PublicUser,
+  params: { backfillId?: unknown; storeid?: unknown; from?: unknown; to?: unknown },
+  pull: (options: { cacheOnly: boolean }) => Promise<T>
+): Promise<T> {
+  const backfill = await assertBackfillCovers(user, params);
+  return pullUnderBackfill(
+    { backfillId: backfill.id, storeId: Number(params.storeid), from: String(params.from), to: String(params.to) },
+    pull
+  );
+}
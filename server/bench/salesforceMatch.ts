@@ -0,0 +1,92 @@
+import { performance } from "perf_hooks";
+import {
+  buildSalesforceIndex,
+  matchSalesforceRecords,
+  scoreCandidates,
+  type SalesforceMatchTarget,
+  type SalesforceRecord,
+} from "../salesforce";
+
+// Compares the old Salesforce match (every record parsed and scored for every
+// store) against the indexed one on a generated Salesforce_rawData of tens of
+// thousands of records.
+//
+//   npm run bench:salesforce -- [records=30000] [stores=25]
+
+const RECORDS = Number(process.argv[2]) || 30000;
+const STORES = Number(process.argv[3]) || 25;
+
+const BRANDS = ['CubeSmart', 'Public Storage', 'Extra Space', 'Life Storage', 'StorQuest', 'U-Haul', 'SmartStop', 'Storage King'];
+const STREETS = ['Main Street', 'Oak Avenue', 'S Lamar Boulevard', 'N Lamar Blvd', 'Research Blvd', 'Airport Road', 'W Ben White Blvd', 'Pine Lane', 'Market Street', 'E Riverside Drive'];
+const MARKETS = [
+  { city: 'Austin', state: 'TX', zip: 78704 },
+  { city: 'Dallas', state: 'TX', zip: 75201 },
+  { city: 'Phoenix', state: 'AZ', zip: 85004 },
+  { city: 'Denver', state: 'CO', zip: 80202 },
+  { city: 'Atlanta', state: 'GA', zip: 30303 },
+  { city: 'Orlando', state: 'FL', zip: 32801 },
+];
+
+// Small seeded generator so every run sees the same fixture
+let seed = 42;
+function random(): number {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+}
+const pick = <T>(items: T[]) => items[Math.floor(random() * items.length)];
+
+function generateRecords(count: number): SalesforceRecord[] {
+  return Array.from({ length: count }, () => {
+    const brand = pick(BRANDS);
+    const street = `${Math.floor(random() * 9900) + 100} ${pick(STREETS)}`;
+    const market = pick(MARKETS);
+    const zip = String(market.zip + Math.floor(random() * 40));
+    return {
+      Name: `${brand} - ${street}`,
+      Year_Built__c: String(1980 + Math.floor(random() * 44)),
+      Net_RSF__c: String(40000 + Math.floor(random() * 60000)),
+      ShippingAddress: `{'street': '${street}', 'city': '${market.city}', 'state': '${market.state}', 'postalCode': '${zip}', 'country': 'US'}`,
+    };
+  });
+}
+
+// Stores as StorTrack spells them: abbreviated street types, a longer brand name
+function targetsFrom(records: SalesforceRecord[], count: number): SalesforceMatchTarget[] {
+  return Array.from({ length: count }, () => {
+    const record = pick(records);
+    const [brand, street] = record.Name.split(' - ');
+    const address = JSON.parse(String(record.ShippingAddress).replace(/'/g, '"'));
+    return {
+      street: street.replace('Boulevard', 'Blvd').replace('Avenue', 'Ave').replace('Street', 'St'),
+      city: address.city,
+      state: address.state,
+      postalCode: address.postalCode,
+      storeName: `${brand} Self Storage`,
+    };
+  });
+}
+
+function time<T>(run: () => T): { result: T; ms: number } {
+  const start = performance.now();
+  const result = run();
+  return { result, ms: performance.now() - start };
+}
+
+const records = generateRecords(RECORDS);
+const targets = targetsFrom(records, STORES);
+
+const fullScan = time(() =>
+  targets.map((target) => scoreCandidates(buildSalesforceIndex(records).entries, target))
+);
+const indexed = time(() => {
+  const index = buildSalesforceIndex(records);
+  return targets.map((target) => matchSalesforceRecords(index, target));
+});
+
+const agree = targets.filter((_, i) => fullScan.result[i][0]?.Name === indexed.result[i][0]?.Name).length;
+
+console.log(`${RECORDS} Salesforce records, ${STORES} stores`);
+console.log(`  full scan per store: ${fullScan.ms.toFixed(0)} ms`);
+console.log(`  indexed, one load:   ${indexed.ms.toFixed(0)} ms`);
+console.log(`  speedup:             ${(fullScan.ms / indexed.ms).toFixed(1)}x`);
+console.log(`  same best match:     ${agree} of ${STORES} stores`);
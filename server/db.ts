@@ -4,11 +4,8 @@ import * as schema from "@shared/schema";
 
 const { Pool } = pg;
 
-if (!process.env.DATABASE_URL) {
-  throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
-  );
-}
+// Without a database the server falls back to in-memory storage (see server/storage.ts)
+export const hasDatabase = Boolean(process.env.DATABASE_URL);
 
 export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
 export const db = drizzle(pool, { schema });
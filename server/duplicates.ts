@@ -0,0 +1,80 @@
+import type { ApiStore, DuplicateReason, DuplicateStoreGroup } from "@shared/api";
+import { streetKey, zip5 } from "./address";
+import { haversineMiles, type Coordinates } from "@shared/geo";
+import { toCoordinates } from "./geo";
+
+// StorTrack sometimes lists one facility under several store IDs: after a
+// rebrand, when a second ID was opened for it, or under a different masterid.
+// Stores are grouped when any pair of them shares a masterid, the same
+// standardized street address in the same ZIP, or practically the same spot.
+
+// Closer than this and two stores are taken to be one building (about 50 m)
+const SAME_SITE_MILES = 0.03;
+
+interface StoreKeys {
+  store: ApiStore;
+  address: string | null;
+  coordinates: Coordinates | null;
+}
+
+function keysOf(store: ApiStore): StoreKeys {
+  const street = streetKey(store.address);
+  const zip = zip5(store.zip);
+  return {
+    store,
+    // A street without a house number is too vague to call two stores the same
+    address: /^\d/.test(street) ? `${street}|${zip ?? ''}` : null,
+    coordinates: toCoordinates(store.latitude, store.longitude),
+  };
+}
+
+function reasonsFor(a: StoreKeys, b: StoreKeys): DuplicateReason[] {
+  const reasons: DuplicateReason[] = [];
+  if (a.store.masterId && a.store.masterId === b.store.masterId) reasons.push('masterId');
+  if (a.address && a.address === b.address) reasons.push('address');
+  if (a.coordinates && b.coordinates && haversineMiles(a.coordinates, b.coordinates) <= SAME_SITE_MILES) {
+    reasons.push('coordinates');
+  }
+  return reasons;
+}
+
+/**
+ * Groups of two or more stores that look like one facility, in the order the
+ * stores were given. Grouping is transitive: if A matches B and B matches C, all
+ * three are one group, carrying every reason that linked them.
+ */
+export function findDuplicateStores(stores: ApiStore[]): DuplicateStoreGroup[] {
+  const keys = stores.map(keysOf);
+  const parent = stores.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const reasonsByRoot = new Map<number, Set<DuplicateReason>>();
+
+  for (let i = 0; i < keys.length; i++) {
+    for (let j = i + 1; j < keys.length; j++) {
+      const reasons = reasonsFor(keys[i], keys[j]);
+      if (reasons.length === 0) continue;
+      const [rootI, rootJ] = [find(i), find(j)];
+      const merged = new Set([...(reasonsByRoot.get(rootI) ?? []), ...(reasonsByRoot.get(rootJ) ?? []), ...reasons]);
+      const root = Math.min(rootI, rootJ);
+      parent[rootI] = root;
+      parent[rootJ] = root;
+      reasonsByRoot.delete(rootI);
+      reasonsByRoot.delete(rootJ);
+      reasonsByRoot.set(root, merged);
+    }
+  }
+
+  const members = new Map<number, number[]>();
+  stores.forEach((store, i) => {
+    const root = find(i);
+    if (!reasonsByRoot.has(root)) return;
+    const group = members.get(root);
+    if (group) group.push(store.storeId);
+    else members.set(root, [store.storeId]);
+  });
+
+  return Array.from(members, ([root, storeIds]) => ({
+    storeIds,
+    reasons: Array.from(reasonsByRoot.get(root) ?? []),
+  }));
+}
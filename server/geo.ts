@@ -0,0 +1,25 @@
+import { toRadians, type Coordinates } from "@shared/geo";
+
+// Latitude/longitude box that contains every point within `miles` of the center,
+// for narrowing a query before the exact distance check
+export function boundingBox(center: Coordinates, miles: number) {
+  const latDelta = miles / 69;
+  const lonDelta = miles / (69 * Math.max(Math.cos(toRadians(center.latitude)), 0.01));
+  return {
+    minLatitude: center.latitude - latDelta,
+    maxLatitude: center.latitude + latDelta,
+    minLongitude: center.longitude - lonDelta,
+    maxLongitude: center.longitude + lonDelta,
+  };
+}
+
+// Coordinates from loosely typed fields; null when either is missing, not a number, or
+// both are zero (a placeholder in some sources rather than a real location)
+export function toCoordinates(latitude: unknown, longitude: unknown): Coordinates | null {
+  if (latitude == null || longitude == null || latitude === '' || longitude === '') return null;
+  const lat = Number(latitude);
+  const lon = Number(longitude);
+  if (!Number.isFinite(lat) || !Number.isFinite(lon) || (lat === 0 && lon === 0)) return null;
+  if (Math.abs(lat) > 90 || Math.abs(lon) > 180) return null;
+  return { latitude: lat, longitude: lon };
+}
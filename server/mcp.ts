@@ -0,0 +1,86 @@
+import type { SqlFragment } from "./sql";
+import { MOCK_PROVIDERS, MOCK_PROVIDER_BASE_URL } from "./mock/providers";
+
+// Client for the MCP server, which fronts the Sites and Stortrack SQL databases
+// (`/query/universal`) and a handful of read-only REST endpoints.
+
+const MCP_BASE_URL = MOCK_PROVIDERS
+  ? `${MOCK_PROVIDER_BASE_URL}/mcp`
+  : (process.env.MCP_BASE_URL || 'https://mcp.wwgmcpserver.com').replace(/\/$/, '');
+const MCP_API_KEY = process.env.WWG_MCP_API_KEY || '';
+
+export async function universalQuery(database: string, sqlQuery: SqlFragment) {
+  const url = `${MCP_BASE_URL}/query/universal`;
+
+  const body = {
+    database,
+    query: sqlQuery.text
+  };
+
+  console.log(`MCP Universal Query: ${url}`, JSON.stringify(body));
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'X-API-Key': MCP_API_KEY,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error(`MCP API Error: ${response.status} - ${errorText}`);
+    throw new Error(`MCP API error: ${response.status} - ${errorText}`);
+  }
+
+  const jsonResponse = await response.json();
+  console.log(`MCP Universal Query response keys:`, Object.keys(jsonResponse));
+
+  if (jsonResponse.results && Array.isArray(jsonResponse.results)) {
+    console.log(`MCP response has ${jsonResponse.results.length} results`);
+    return jsonResponse.results;
+  }
+
+  if (Array.isArray(jsonResponse)) {
+    return jsonResponse;
+  } else if (jsonResponse.data && Array.isArray(jsonResponse.data)) {
+    return jsonResponse.data;
+  }
+
+  return jsonResponse;
+}
+
+export async function mcpRequest(endpoint: string, params?: Record<string, string>) {
+  const url = new URL(`${MCP_BASE_URL}${endpoint}`);
+  if (params) {
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) {
+        url.searchParams.append(key, value);
+      }
+    });
+  }
+
+  console.log(`MCP Request: ${url.toString()}`);
+
+  const response = await fetch(url.toString(), {
+    method: 'GET',
+    headers: {
+      'X-API-Key': MCP_API_KEY,
+      'Content-Type': 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error(`MCP API Error: ${response.status} - ${errorText}`);
+    throw new Error(`MCP API error: ${response.status} - ${errorText}`);
+  }
+
+  return await response.json();
+}
+
+export async function healthCheck() {
+  const response = await fetch(`${MCP_BASE_URL}/health`);
+  return { healthy: response.ok, status: response.status };
+}
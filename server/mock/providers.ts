@@ -0,0 +1,309 @@
+import { Router, type Request, type Response } from "express";
+import storeFixtures from "./fixtures/stores.json";
+import unitFixtures from "./fixtures/units.json";
+import salesforceFixtures from "./fixtures/salesforce.json";
+import { haversineMiles } from "@shared/geo";
+
+// Stand-ins for StorTrack and the MCP database server, mounted at /mock when
+// PROVIDER_MODE=mock. They answer the same contracts the real services do, from
+// the fixtures next to this file, so the wizard runs end to end offline.
+//
+// Failure scenarios:
+// - a fixture store with "scenario": "rate-limited" answers its first historicaldata
+//   call per date range with 429 (Retry-After: 1), then succeeds
+// - a fixture store with "scenario": "unavailable" always answers historicaldata with 503
+// - MOCK_PROVIDER_SCENARIO=unavailable answers every StorTrack call with 503, and
+//   =rate-limited treats every store as rate-limited
+
+export type MockScenario = "rate-limited" | "unavailable";
+
+export const MOCK_PROVIDERS = process.env.PROVIDER_MODE === "mock";
+
+// Where the server reaches its own /mock routes
+export const MOCK_PROVIDER_BASE_URL = (process.env.MOCK_PROVIDER_BASE_URL || "http://127.0.0.1:5000/mock").replace(/\/$/, "");
+
+interface MockStore {
+  storeid: number;
+  masterid: number;
+  storename: string;
+  companyname: string;
+  address: string;
+  city: string;
+  state: string;
+  zip: string;
+  phone: string;
+  latitude: number;
+  longitude: number;
+  // Scales every unit's base rate
+  priceFactor: number;
+  // Trailing months of history in dbo.Rates; StorTrack's historicaldata has it all
+  databaseMonths: number;
+  scenario?: string;
+}
+
+interface MockUnit {
+  spacetype: string;
+  size: string;
+  width: number;
+  length: number;
+  features: string;
+  cc: boolean;
+  driveup: boolean;
+  elevator: boolean;
+  baseRate: number;
+}
+
+const STORES = storeFixtures as MockStore[];
+const UNITS = unitFixtures as MockUnit[];
+
+const MOCK_TOKEN = "mock-stortrack-token";
+const RETRY_AFTER_SECONDS = 1;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Rates are "collected" weekly on Mondays, counted from here, so every call agrees on dates
+const FIRST_COLLECTION = Date.UTC(2020, 0, 6);
+
+const GLOBAL_SCENARIO = process.env.MOCK_PROVIDER_SCENARIO as MockScenario | undefined;
+
+const isoDay = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+const contains = (value: string, search: unknown) =>
+  !search || value.toLowerCase().includes(String(search).trim().toLowerCase());
+
+// StorTrack store objects carry everything except the fixture-only fields
+function stortrackStore({ priceFactor, databaseMonths, scenario, ...store }: MockStore, distance = 0) {
+  return { ...store, distance: Math.round(distance * 100) / 100 };
+}
+
+interface Observation {
+  date: string;
+  unit: MockUnit;
+  regularRate: number;
+  onlineRate: number;
+  promo: string;
+}
+
+// Deterministic weekly rates: a yearly increase, a small per-store wobble, and a
+// move-in promo every fourth week
+function observations(store: MockStore, from: string, to: string): Observation[] {
+  const start = Math.max(Date.parse(`${from}T00:00:00Z`), FIRST_COLLECTION);
+  const end = Math.min(Date.parse(`${to}T00:00:00Z`), Date.now());
+  const results: Observation[] = [];
+  let week = Math.ceil((start - FIRST_COLLECTION) / (7 * DAY_MS));
+  for (let time = FIRST_COLLECTION + week * 7 * DAY_MS; time <= end; time += 7 * DAY_MS, week++) {
+    const trend = 1 + 0.035 * (week / 52);
+    const wobble = 1 + 0.03 * Math.sin(week / 3 + store.storeid);
+    for (const unit of UNITS) {
+      const regularRate = Math.round(unit.baseRate * store.priceFactor * trend * wobble);
+      results.push({
+        date: isoDay(time),
+        unit,
+        regularRate,
+        onlineRate: Math.round(regularRate * 0.9),
+        promo: week % 4 === 0 ? "First month $1" : "",
+      });
+    }
+  }
+  return results;
+}
+
+function findStore(storeId: unknown): MockStore | undefined {
+  return STORES.find((store) => store.storeid === Number(storeId));
+}
+
+function requireToken(req: Request, res: Response): boolean {
+  if (req.headers.authorization !== `Bearer ${MOCK_TOKEN}`) {
+    res.status(401).json({ message: "Authorization has been denied for this request." });
+    return false;
+  }
+  return true;
+}
+
+function unavailable(res: Response) {
+  res.status(503).send("Service Unavailable");
+}
+
+function rateLimited(res: Response) {
+  res.setHeader("Retry-After", String(RETRY_AFTER_SECONDS));
+  res.status(429).json({ message: "API calls quota exceeded! maximum admitted 60 per Minute." });
+}
+
+const unquote = (literal: string | undefined) => literal?.replace(/''/g, "'");
+
+// The text inside each N'%text%' rendered by containsPattern(), with its [%], [_] and [[] escapes undone
+const likePatterns = (query: string) =>
+  Array.from(query.matchAll(/LIKE N'%((?:[^']|'')*)%'/gi), (match) => unquote(match[1]).replace(/\[(.)\]/g, "$1"));
+
+// dbo.* rows for the handful of queries the app sends to /query/universal
+function answerUniversalQuery(query: string): Record<string, unknown>[] {
+  const ids = (query.match(/\bIN \(([\d,\s]+)\)/i)?.[1] ?? "").split(",").map(Number).filter(Boolean);
+  const [from, to] = Array.from(query.matchAll(/'(\d{4}-\d{2}-\d{2})'/g), (match) => match[1]);
+
+  if (/FROM dbo\.Rates/i.test(query)) {
+    return ids.flatMap((id) => {
+      const store = findStore(id);
+      if (!store || store.databaseMonths <= 0) return [];
+      const coveredFrom = new Date();
+      coveredFrom.setUTCMonth(coveredFrom.getUTCMonth() - store.databaseMonths);
+      const start = from && from > isoDay(coveredFrom.getTime()) ? from : isoDay(coveredFrom.getTime());
+      return observations(store, start, to ?? isoDay(Date.now()))
+        .map(({ date, unit, regularRate, onlineRate, promo }) => ({
+          Store_ID: store.storeid,
+          Store_Name: store.storename,
+          Street_Address: store.address,
+          City: store.city,
+          State: store.state,
+          Zip: store.zip,
+          Size: unit.size,
+          Width: unit.width,
+          Length: unit.length,
+          Spacetype: unit.spacetype,
+          Climate_Controlled: unit.cc,
+          Humidity_Controlled: false,
+          Drive_Up: unit.driveup,
+          Elevator: unit.elevator,
+          Outdoor_Access: unit.driveup,
+          Regular_Rate: regularRate,
+          Online_Rate: onlineRate,
+          Promo: promo,
+          Date_Collected: date,
+        }))
+        .sort((a, b) => b.Date_Collected.localeCompare(a.Date_Collected));
+    });
+  }
+
+  if (/FROM dbo\.Stores/i.test(query)) {
+    const equals = (column: string) =>
+      unquote(query.match(new RegExp(`\\b${column} = N'((?:[^']|'')*)'`, "i"))?.[1]);
+    const between = (column: string, value: number) => {
+      const match = query.match(new RegExp(`\\b${column} BETWEEN (-?[\\d.]+) AND (-?[\\d.]+)`, "i"));
+      return !match || (value >= Number(match[1]) && value <= Number(match[2]));
+    };
+    const [state, city, zip] = [equals("State"), equals("City"), equals("Zip")];
+    const excluded = Number(query.match(/\bID <> (\d+)/i)?.[1]);
+    const names = likePatterns(query);
+
+    return STORES
+      .filter((store) =>
+        (ids.length === 0 || ids.includes(store.storeid)) &&
+        store.storeid !== excluded &&
+        (!state || store.state === state) &&
+        (!city || store.city === city) &&
+        (!zip || store.zip === zip) &&
+        names.every((name) => contains(store.storename, name)) &&
+        between("Latitude", store.latitude) &&
+        between("Longitude", store.longitude)
+      )
+      .map((store) => ({
+        Store_ID: store.storeid,
+        Name: store.storename,
+        Street_Address: store.address,
+        City: store.city,
+        State: store.state,
+        Zip: store.zip,
+        Country: "United States",
+        Phone: store.phone,
+        Latitude: store.latitude,
+        Longitude: store.longitude,
+      }));
+  }
+
+  if (/FROM dbo\.Salesforce_rawData/i.test(query)) {
+    const [name] = likePatterns(query);
+    return salesforceFixtures.filter((record) => contains(record.Name, name));
+  }
+
+  return [];
+}
+
+export function createMockProviderRouter(): Router {
+  const router = Router();
+  // Keys are "storeid|from|to"; each rate-limited store fails once per range
+  const rateLimitedOnce = new Set<string>();
+
+  router.use("/stortrack", (_req, res, next) => {
+    if (GLOBAL_SCENARIO === "unavailable") return unavailable(res);
+    next();
+  });
+
+  router.post("/stortrack/authtoken", (_req, res) => {
+    res.json({ access_token: MOCK_TOKEN, token_type: "bearer", expires_in: 3599 });
+  });
+
+  router.post("/stortrack/storesbyaddress", (req, res) => {
+    if (!requireToken(req, res)) return;
+    const { state, city, zip, storename, companyname } = req.body || {};
+    const stores = STORES.filter((store) =>
+      (!state || store.state.toLowerCase() === String(state).trim().toLowerCase()) &&
+      contains(store.city, city) &&
+      (!zip || store.zip === String(zip).trim()) &&
+      contains(store.storename, storename) &&
+      contains(store.companyname, companyname)
+    );
+    res.json({ stores: stores.map((store) => stortrackStore(store)) });
+  });
+
+  router.post("/stortrack/findcompetitors", (req, res) => {
+    if (!requireToken(req, res)) return;
+    const { storeid = [], masterid = [], coveragezone = 5 } = req.body || {};
+    const subject = findStore(storeid[0]) ?? STORES.find((store) => store.masterid === Number(masterid[0]));
+    if (!subject) {
+      return res.json([]);
+    }
+    const competitorstores = STORES
+      .filter((store) => store.storeid !== subject.storeid)
+      .map((store) => ({ store, distance: haversineMiles(subject, store) }))
+      .filter(({ distance }) => distance <= Number(coveragezone))
+      .sort((a, b) => a.distance - b.distance)
+      .map(({ store, distance }) => stortrackStore(store, distance));
+    res.json([{ ...stortrackStore(subject), competitorstores }]);
+  });
+
+  router.post("/stortrack/historicaldata", (req, res) => {
+    if (!requireToken(req, res)) return;
+    const { storeid, from, to } = req.body || {};
+    const store = findStore(storeid);
+    if (!store) {
+      return res.status(404).json({ message: `Store ${storeid} not found` });
+    }
+
+    const scenario = GLOBAL_SCENARIO ?? store.scenario;
+    if (scenario === "unavailable") return unavailable(res);
+    const key = `${store.storeid}|${from}|${to}`;
+    if (scenario === "rate-limited" && !rateLimitedOnce.has(key)) {
+      rateLimitedOnce.add(key);
+      return rateLimited(res);
+    }
+
+    const rates = observations(store, String(from), String(to)).map(({ date, unit, regularRate, onlineRate, promo }) => ({
+      spacetype: unit.spacetype,
+      size: unit.size,
+      width: unit.width,
+      length: unit.length,
+      features: unit.features,
+      climate_controlled: unit.cc,
+      drive_up: unit.driveup,
+      elevator: unit.elevator,
+      regular_rate: regularRate,
+      online_rate: onlineRate,
+      promo,
+      date_collected: date,
+    }));
+    res.json([{ ...stortrackStore(store), rates }]);
+  });
+
+  router.get("/mcp/health", (_req, res) => {
+    res.json({ status: "ok", mock: true });
+  });
+
+  router.post("/mcp/query/universal", (req, res) => {
+    const query = String(req.body?.query || "");
+    res.json({ database: req.body?.database, results: answerUniversalQuery(query) });
+  });
+
+  // Anything else would fall through to the client app's index.html
+  router.use((req, res) => {
+    res.status(404).json({ message: `No mock for ${req.method} ${req.path}` });
+  });
+
+  return router;
+}
@@ -0,0 +1,146 @@
+import { sql, date, integerList, containsPattern, joinSql, SqlValidationError, type SqlFragment } from "../sql";
+import { cachedRateRows } from "../rateCache";
+import { universalQuery } from "../mcp";
+import { haversineMiles } from "@shared/geo";
+import { boundingBox } from "../geo";
+import { toDatabaseRateRecord, toDatabaseStore } from "../resources";
+import type { RateDataProvider } from "./types";
+
+// Most stores a search or competitor query returns
+const STORE_QUERY_LIMIT = 200;
+
+const STORE_COLUMNS = sql`ID as Store_ID, Name, Street_Address, City, State, Zip, Country, Phone, Latitude, Longitude`;
+
+async function queryStores(where: SqlFragment): Promise<Record<string, unknown>[]> {
+  const rows = await universalQuery('Stortrack', sql`
+    SELECT TOP ${STORE_QUERY_LIMIT} ${STORE_COLUMNS}
+    FROM dbo.Stores
+    WHERE ${where}
+  `);
+  return Array.isArray(rows) ? rows : [];
+}
+
+// dbo.Rates rows for the given stores and date range, newest first within each store
+async function queryRateRows(storeIds: number[], from: string, to: string) {
+  const rateSql = sql`
+    SELECT
+      r.Store_ID,
+      s.Name as Store_Name,
+      s.Street_Address,
+      s.City,
+      s.State,
+      s.Zip,
+      r.Size,
+      r.Width,
+      r.Length,
+      r.Spacetype,
+      r.CC as Climate_Controlled,
+      r.Humidity_Controlled,
+      r.Drive_Up,
+      r.Elevator,
+      r.Outdoor_Access,
+      r.Regular_Rate,
+      r.Online_Rate,
+      r.Promo,
+      r.Date_Collected
+    FROM dbo.Rates r
+    LEFT JOIN dbo.Stores s ON r.Store_ID = s.ID
+    WHERE r.Store_ID IN (${integerList(storeIds)})
+    AND r.Date_Collected >= ${date(from)}
+    AND r.Date_Collected <= ${date(to)}
+    ORDER BY r.Store_ID, r.Date_Collected DESC, r.Width, r.Length
+  `;
+
+  const rawResult = await universalQuery('Stortrack', rateSql);
+  // universalQuery already extracts the results array, so rawResult is the array directly
+  return Array.isArray(rawResult) ? rawResult : [];
+}
+
+async function cachedDatabaseRates(storeIds: unknown[], from: string, to: string) {
+  // Validate before the IDs become cache keys
+  integerList(storeIds);
+
+  const { rows, cache } = await cachedRateRows({
+    source: 'database',
+    storeIds: storeIds.map(Number),
+    from,
+    to,
+    fetchRows: queryRateRows,
+    rowStoreId: (row) => Number(row.Store_ID),
+    rowDate: (row) => String(row.Date_Collected || ''),
+  });
+
+  rows.sort((a, b) =>
+    Number(a.Store_ID) - Number(b.Store_ID) || String(b.Date_Collected || '').localeCompare(String(a.Date_Collected || ''))
+  );
+  return { rows, cache };
+}
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+async function historicalRates(storeIds: number[], from: string, to: string) {
+  const { rows, cache } = await cachedDatabaseRates(storeIds, from, to);
+  return { records: rows.map(toDatabaseRateRecord), cache };
+}
+
+// Our own copy of the StorTrack data (dbo.Stores, dbo.Rates) behind the MCP server.
+// Nothing is billed per call, and dbo.Rates only reaches back as far as we've collected.
+export const databaseProvider: RateDataProvider = {
+  id: 'database',
+  name: 'Stortrack database',
+
+  // dbo.Stores has no company column, so a company name narrows by store name too;
+  // the country is not filtered on
+  async searchStores(_context, { state, city, zip, storeName, companyName }) {
+    if (!state && !city && !zip) {
+      throw new SqlValidationError('Provide a state, city or ZIP to search');
+    }
+    const clauses: SqlFragment[] = [];
+    if (state) clauses.push(sql`State = ${state}`);
+    if (city) clauses.push(sql`City = ${city}`);
+    if (zip) clauses.push(sql`Zip = ${zip}`);
+    if (storeName) clauses.push(sql`Name LIKE ${containsPattern(storeName)}`);
+    if (companyName) clauses.push(sql`Name LIKE ${containsPattern(companyName)}`);
+    const rows = await queryStores(joinSql(clauses, ' AND '));
+    return rows.map((row) => toDatabaseStore(row));
+  },
+
+  async findCompetitors(_context, storeId, radiusMiles) {
+    const [subjectRow] = await queryStores(sql`ID IN (${integerList([storeId])})`);
+    if (!subjectRow) {
+      throw new Error(`Store ${storeId} is not in the Stortrack database`);
+    }
+    const subject = toDatabaseStore(subjectRow);
+    if (subject.latitude === undefined || subject.longitude === undefined) {
+      throw new Error(`Store ${storeId} has no coordinates to search around`);
+    }
+
+    const center = { latitude: subject.latitude, longitude: subject.longitude };
+    const box = boundingBox(center, radiusMiles);
+    const nearby = await queryStores(sql`
+      ID <> ${storeId}
+      AND Latitude BETWEEN ${box.minLatitude} AND ${box.maxLatitude}
+      AND Longitude BETWEEN ${box.minLongitude} AND ${box.maxLongitude}
+    `);
+
+    const competitors = nearby
+      .map((row) => toDatabaseStore(row))
+      .filter((store) => store.latitude !== undefined && store.longitude !== undefined)
+      .map((store) => {
+        const miles = haversineMiles(center, { latitude: store.latitude, longitude: store.longitude });
+        return { ...store, distance: Math.round(miles * 100) / 100 };
+      })
+      .filter((store) => store.distance <= radiusMiles)
+      .sort((a, b) => a.distance - b.distance);
+
+    return { subject, competitors };
+  },
+
+  historicalRates(_context, storeIds, from, to) {
+    return historicalRates(storeIds, from, to);
+  },
+
+  latestRates(_context, storeIds, days) {
+    return historicalRates(storeIds, daysAgo(days), daysAgo(0));
+  },
+};
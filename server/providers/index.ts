@@ -0,0 +1,15 @@
+// Rate data sources. Routes and the pull job queue reach vendors only through
+// RateDataProvider; a new vendor implements it in this directory.
+import type { RateDataProvider } from "./types";
+import type { RateCacheSource } from "../rateCache";
+import { stortrackProvider } from "./stortrack";
+import { databaseProvider } from "./database";
+
+export type { ProviderContext, RateDataProvider, RateHistory, StoreSearchParams } from "./types";
+export { stortrackProvider, databaseProvider };
+
+// Looked up by the `source` the store search and competitor routes accept
+export const rateDataProviders: Record<RateCacheSource, RateDataProvider> = {
+  stortrack: stortrackProvider,
+  database: databaseProvider,
+};
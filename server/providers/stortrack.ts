@@ -0,0 +1,302 @@
+import { integer } from "../sql";
+import { cachedRateRows, type RateCacheReport } from "../rateCache";
+import {
+  API_COST_PER_LOOKUP,
+  API_COST_PER_STORE_YEAR,
+  assertWithinBudget,
+  marketOf,
+  recordSpend,
+} from "../spend";
+import { toApiStore, toCompetitorsResponse, toRateRecords } from "../resources";
+import { MOCK_PROVIDERS, MOCK_PROVIDER_BASE_URL } from "../mock/providers";
+import type { ApiRateRecord } from "@shared/api";
+import type { ProviderContext, RateDataProvider } from "./types";
+
+const STORTRACK_BASEURL = MOCK_PROVIDERS ? `${MOCK_PROVIDER_BASE_URL}/stortrack` : process.env.STORTRACK_BASEURL || '';
+const STORTRACK_USERNAME = process.env.STORTRACK_USERNAME || '';
+const STORTRACK_PASSWORD = process.env.STORTRACK_PASSWORD || '';
+
+let cachedToken: string | null = null;
+let tokenExpiry: number = 0;
+
+async function getAuthToken(): Promise<string | null> {
+  if (cachedToken && Date.now() < tokenExpiry) {
+    return cachedToken;
+  }
+
+  const authUrl = `${STORTRACK_BASEURL.replace(/\/$/, '')}/authtoken`;
+
+  try {
+    const response = await fetch(authUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'password',
+        username: STORTRACK_USERNAME,
+        password: STORTRACK_PASSWORD,
+      }),
+    });
+
+    if (response.ok) {
+      const data = await response.json();
+      const token = data.access_token || data.token;
+      if (token) {
+        cachedToken = `Bearer ${token}`;
+        tokenExpiry = Date.now() + (55 * 60 * 1000);
+        return cachedToken;
+      }
+    }
+    console.error('Auth token fetch failed:', response.status, await response.text());
+  } catch (error) {
+    console.error('Auth token exception:', error);
+  }
+  return null;
+}
+
+export interface StortrackSearchParams {
+  country?: string;
+  state?: string;
+  city?: string;
+  zip?: string;
+  storename?: string;
+  companyname?: string;
+}
+
+export interface StortrackCompetitorParams {
+  storeid?: number;
+  masterid?: number;
+  coveragezone?: number;
+}
+
+async function findStoresByAddress(params: StortrackSearchParams) {
+  const token = await getAuthToken();
+  if (!token) {
+    throw new Error('Failed to authenticate with StorTrack API');
+  }
+
+  const url = `${STORTRACK_BASEURL.replace(/\/$/, '')}/storesbyaddress`;
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+      'authorization': token,
+    },
+    body: JSON.stringify({
+      country: params.country || 'United States',
+      state: params.state || '',
+      city: params.city || '',
+      zip: params.zip || '',
+      storename: params.storename || '',
+      companyname: params.companyname || '',
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error('Find stores failed:', response.status, errorText);
+    throw new Error(`StorTrack API error: ${response.status}`);
+  }
+
+  const result = await response.json();
+  return result.stores || [];
+}
+
+async function findCompetitors(params: StortrackCompetitorParams) {
+  const token = await getAuthToken();
+  if (!token) {
+    throw new Error('Failed to authenticate with StorTrack API');
+  }
+
+  const url = `${STORTRACK_BASEURL.replace(/\/$/, '')}/findcompetitors`;
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+      'authorization': token,
+    },
+    body: JSON.stringify({
+      storeid: params.storeid ? [params.storeid] : [],
+      masterid: params.masterid ? [params.masterid] : [],
+      coveragezone: params.coveragezone || 5.0,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error('Find competitors failed:', response.status, errorText);
+    throw new Error(`StorTrack API error: ${response.status}`);
+  }
+
+  return await response.json();
+}
+
+async function fetchHistoricalData(params: {
+  storeid: number;
+  from: string;
+  to: string;
+}, maxRetries = 3) {
+  const token = await getAuthToken();
+  if (!token) {
+    throw new Error('Failed to authenticate with StorTrack API');
+  }
+
+  const url = `${STORTRACK_BASEURL.replace(/\/$/, '')}/historicaldata`;
+
+  for (let attempt = 0; attempt < maxRetries; attempt++) {
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'application/json',
+          'authorization': token,
+        },
+        body: JSON.stringify({
+          storeid: params.storeid,
+          masterid: 0,
+          from: params.from,
+          to: params.to,
+          requestyear: 0,
+        }),
+      });
+
+      if (response.ok) {
+        const result = await response.json();
+        return Array.isArray(result) ? result : [result];
+      }
+
+      if (response.status === 429) {
+        const retryAfter = Number(response.headers.get('retry-after'));
+        const waitMs = retryAfter > 0 ? retryAfter * 1000 : 60000;
+        console.warn(`Rate limited on attempt ${attempt + 1}, waiting ${waitMs / 1000}s...`);
+        await new Promise(r => setTimeout(r, waitMs));
+        continue;
+      }
+
+      if ([500, 503, 404].includes(response.status)) {
+        console.warn(`Got ${response.status} on attempt ${attempt + 1}`);
+        if (attempt < maxRetries - 1) {
+          await new Promise(r => setTimeout(r, 5000 * (attempt + 1)));
+          continue;
+        }
+      }
+
+      const errorText = await response.text();
+      console.error('Historical data failed:', response.status, errorText);
+      throw new Error(`StorTrack API error: ${response.status}`);
+    } catch (error) {
+      if (attempt === maxRetries - 1) throw error;
+      await new Promise(r => setTimeout(r, 2000 * (attempt + 1)));
+    }
+  }
+
+  throw new Error('Max retries exceeded');
+}
+
+// Historical API responses are flattened to one row per rate so they can be cached by month.
+// Only the months missing from the cache reach StorTrack, and only the years of months never
+// cached before are charged: refreshing the current month re-reads data already paid for.
+// With `cacheOnly` StorTrack isn't called at all (see pullUnderBackfill).
+async function fetchCachedHistoricalData(
+  userId: number,
+  params: { storeid: number; from: string; to: string },
+  { cacheOnly = false } = {}
+) {
+  integer(params.storeid, { min: 1 });
+  const storeId = Number(params.storeid);
+
+  const { rows, cache } = await cachedRateRows({
+    source: 'stortrack',
+    storeIds: [storeId],
+    from: params.from,
+    to: params.to,
+    fetchRows: async (_storeIds, from, to, newMonths) => {
+      const years = Array.from(new Set(newMonths.map((month) => Number(month.slice(0, 4)))));
+      const estimatedCost = years.length * API_COST_PER_STORE_YEAR;
+      await assertWithinBudget(estimatedCost);
+      const stores = await fetchHistoricalData({ storeid: storeId, from, to });
+      await recordSpend({
+        userId,
+        action: 'fetchHistoricalData',
+        storeIds: [storeId],
+        years,
+        market: marketOf(stores[0]),
+        estimatedCost,
+      });
+      return stores.flatMap(({ rates, rateinfo, ...store }) =>
+        ((rates || rateinfo || []) as Record<string, unknown>[]).map((rate) => ({ store, rate }))
+      );
+    },
+    rowStoreId: () => storeId,
+    rowDate: ({ rate }) => String(rate.date_collected || rate.datecollected || rate.date || ''),
+    cacheOnly,
+  });
+
+  if (rows.length === 0) {
+    return { data: [], cache };
+  }
+  return { data: [{ ...rows[0].store, rates: rows.map((row) => row.rate) }], cache };
+}
+
+// Budget-checked, recorded store lookups; both return the raw StorTrack payload
+async function searchStortrackStores(userId: number, params: StortrackSearchParams) {
+  await assertWithinBudget(API_COST_PER_LOOKUP);
+  const stores = await findStoresByAddress(params);
+  await recordSpend({
+    userId,
+    action: 'findStoresByAddress',
+    market: marketOf(params),
+    estimatedCost: API_COST_PER_LOOKUP,
+  });
+  return stores;
+}
+
+async function lookupStortrackCompetitors(userId: number, params: StortrackCompetitorParams) {
+  await assertWithinBudget(API_COST_PER_LOOKUP);
+  const result = await findCompetitors(params);
+  const subject = Array.isArray(result) ? result[0] : result;
+  await recordSpend({
+    userId,
+    action: 'findCompetitors',
+    storeIds: params?.storeid ? [Number(params.storeid)] : [],
+    market: marketOf(subject),
+    estimatedCost: API_COST_PER_LOOKUP,
+  });
+  return result;
+}
+
+// StorTrack answers one store per historical call, so multi-store requests run in turn
+async function historicalRates({ userId, cacheOnly }: ProviderContext, storeIds: number[], from: string, to: string) {
+  const records: ApiRateRecord[] = [];
+  const cache: RateCacheReport = { source: 'stortrack', hits: 0, misses: 0 };
+  for (const storeId of storeIds) {
+    const result = await fetchCachedHistoricalData(userId, { storeid: storeId, from, to }, { cacheOnly });
+    records.push(...toRateRecords(storeId, result.data));
+    cache.hits += result.cache.hits;
+    cache.misses += result.cache.misses;
+  }
+  return { records, cache };
+}
+
+export const stortrackProvider: RateDataProvider = {
+  id: 'stortrack',
+  name: 'StorTrack API',
+
+  async searchStores({ userId }, { storeName, companyName, ...location }) {
+    const stores = await searchStortrackStores(userId, { ...location, storename: storeName, companyname: companyName });
+    return stores.map(toApiStore);
+  },
+
+  async findCompetitors({ userId }, storeId, radiusMiles) {
+    return toCompetitorsResponse(await lookupStortrackCompetitors(userId, { storeid: storeId, coveragezone: radiusMiles }));
+  },
+
+  // Every call is a paid pull, so there is no latestRates: history only comes through an approved backfill
+  historicalRates(context, storeIds, from, to) {
+    return historicalRates(context, storeIds, from, to);
+  },
+};
@@ -0,0 +1,45 @@
+import type { ApiRateRecord, ApiStore, CompetitorsResponse } from "@shared/api";
+import type { RateCacheReport, RateCacheSource } from "../rateCache";
+
+// Who a provider call is made for: paid vendors charge the spend ledger to this user
+export interface ProviderContext {
+  userId: number;
+  // Answer from the rate cache only, stale months included, without calling the vendor
+  cacheOnly?: boolean;
+}
+
+export interface StoreSearchParams {
+  country?: string;
+  state?: string;
+  city?: string;
+  zip?: string;
+  storeName?: string;
+  companyName?: string;
+}
+
+// The route adds duplicate groups (server/duplicates.ts) whichever provider answered
+export type CompetitorSearch = Omit<CompetitorsResponse, "duplicates">;
+
+export interface RateHistory {
+  records: ApiRateRecord[];
+  cache: RateCacheReport;
+}
+
+/**
+ * A source of store and rate data. Answers are in the shared/api.ts shapes, so
+ * routes and the wizard don't depend on any vendor's payloads. Implementations
+ * own their vendor's quirks: authentication, retries, budgeting, and caching
+ * through rateCache under their `id`.
+ */
+export interface RateDataProvider {
+  // Also the rate cache namespace for this provider's rows
+  readonly id: RateCacheSource;
+  readonly name: string;
+  searchStores(context: ProviderContext, params: StoreSearchParams): Promise<ApiStore[]>;
+  findCompetitors(context: ProviderContext, storeId: number, radiusMiles: number): Promise<CompetitorSearch>;
+  historicalRates(context: ProviderContext, storeIds: number[], from: string, to: string): Promise<RateHistory>;
+  // The trailing `days` days of rates, newest first within each store. Only offered by
+  // providers that don't bill per pull: paid history is read with historicalRates under
+  // an approved backfill (pullUnderBackfill in server/backfills.ts)
+  latestRates?(context: ProviderContext, storeIds: number[], days: number): Promise<RateHistory>;
+}
@@ -0,0 +1,124 @@
+import { EventEmitter } from "events";
+import type { PullJob, PullJobStatus, PullJobStore } from "@shared/schema";
+import { storage } from "./storage";
+import { numberFromEnv } from "./spend";
+
+// Store pulls in flight across every job. StorTrack rate-limits per token and
+// fetchHistoricalData already backs off on 429s, so a couple at a time keeps
+// the queue moving without tripping the limit for everyone.
+export const PULL_CONCURRENCY = Math.max(1, Math.floor(numberFromEnv("STORTRACK_PULL_CONCURRENCY", 2)));
+
+const FINISHED: PullJobStatus[] = ["completed", "failed"];
+
+export const isFinished = (status: PullJobStatus) => FINISHED.includes(status);
+
+// Pulls one date range for a store and returns how many rate rows it produced
+export type StorePull = (job: PullJob, store: PullJobStore, range: { from: string; to: string }) => Promise<number>;
+
+type StoreUpdate = Partial<Pick<PullJobStore, "status" | "records" | "error">>;
+
+// A job is running once any store has started and finished once every store has;
+// it only counts as failed when no store succeeded
+function rollUp(job: PullJob, stores: PullJobStore[]): Partial<Pick<PullJob, "status" | "startedAt" | "finishedAt">> {
+  const now = new Date();
+  if (stores.every((store) => isFinished(store.status))) {
+    const status = stores.every((store) => store.status === "failed") ? "failed" : "completed";
+    return { status, startedAt: job.startedAt ?? now, finishedAt: now };
+  }
+  if (stores.some((store) => store.status !== "queued")) {
+    return { status: "running", startedAt: job.startedAt ?? now };
+  }
+  return { status: "queued" };
+}
+
+/**
+ * Works through queued store pulls with at most `concurrency` in flight. Job
+ * records are the source of truth: every status change is persisted before
+ * subscribers hear about it, so polling and the event stream agree.
+ */
+export class PullJobQueue {
+  private readonly events = new EventEmitter();
+  private readonly pending: Array<{ jobId: number; storeId: number }> = [];
+  private active = 0;
+  // Store updates within a job are read-modify-write, so they're chained per job
+  private readonly writes = new Map<number, Promise<unknown>>();
+
+  constructor(private readonly pull: StorePull, private readonly concurrency = PULL_CONCURRENCY) {
+    this.events.setMaxListeners(0);
+  }
+
+  enqueue(job: PullJob) {
+    for (const store of job.stores) {
+      if (store.status === "queued") {
+        this.pending.push({ jobId: job.id, storeId: store.storeId });
+      }
+    }
+    this.pump();
+  }
+
+  // Picks up jobs a restart interrupted; stores caught mid-pull start again, and
+  // the months they already fetched come back from the rate cache
+  async resume() {
+    for (const job of await storage.listPullJobs(["queued", "running"])) {
+      const stores = job.stores.map((store) =>
+        store.status === "running" ? { ...store, status: "queued" as const } : store
+      );
+      const resumed = await storage.updatePullJob(job.id, { stores });
+      if (resumed) this.enqueue(resumed);
+    }
+  }
+
+  subscribe(jobId: number, listener: (job: PullJob) => void): () => void {
+    const event = String(jobId);
+    this.events.on(event, listener);
+    return () => {
+      this.events.off(event, listener);
+    };
+  }
+
+  private pump() {
+    while (this.active < this.concurrency && this.pending.length > 0) {
+      const task = this.pending.shift()!;
+      this.active++;
+      this.runStore(task.jobId, task.storeId)
+        .catch((error: unknown) => console.error('Pull job error:', error))
+        .finally(() => {
+          this.active--;
+          this.pump();
+        });
+    }
+  }
+
+  private async runStore(jobId: number, storeId: number) {
+    const job = await this.updateStore(jobId, storeId, { status: "running" });
+    const store = job?.stores.find((s) => s.storeId === storeId);
+    if (!job || !store) return;
+
+    try {
+      let records = 0;
+      for (const range of store.ranges) {
+        records += await this.pull(job, store, range);
+      }
+      await this.updateStore(jobId, storeId, { status: "completed", records });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await this.updateStore(jobId, storeId, { status: "failed", error: message });
+    }
+  }
+
+  private updateStore(jobId: number, storeId: number, update: StoreUpdate): Promise<PullJob | undefined> {
+    const write = (this.writes.get(jobId) ?? Promise.resolve()).then(async () => {
+      const job = await storage.getPullJob(jobId);
+      if (!job) return undefined;
+      const stores = job.stores.map((store) => (store.storeId === storeId ? { ...store, ...update } : store));
+      const updated = await storage.updatePullJob(jobId, { stores, ...rollUp(job, stores) });
+      if (updated) {
+        if (isFinished(updated.status)) this.writes.delete(jobId);
+        this.events.emit(String(jobId), updated);
+      }
+      return updated;
+    });
+    this.writes.set(jobId, write.catch(() => undefined));
+    return write;
+  }
+}
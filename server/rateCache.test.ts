@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { cachedRateRows } from "./rateCache";
+
+interface Row {
+  storeId: number;
+  date: string;
+}
+
+let nextStoreId = 1;
+
+// A source that answers one row per day it's asked for
+function fakeSource() {
+  const calls: Array<{ from: string; to: string; newMonths: string[] }> = [];
+  const fetchRows = async (storeIds: number[], from: string, to: string, newMonths: string[]) => {
+    calls.push({ from, to, newMonths });
+    return storeIds.flatMap((storeId) => [{ storeId, date: from }, { storeId, date: to }]);
+  };
+  return { calls, fetchRows };
+}
+
+const read = (storeId: number, from: string, to: string, fetchRows: ReturnType<typeof fakeSource>["fetchRows"]) =>
+  cachedRateRows<Row>({
+    source: "database",
+    storeIds: [storeId],
+    from,
+    to,
+    fetchRows,
+    rowStoreId: (row) => row.storeId,
+    rowDate: (row) => row.date,
+  });
+
+describe("cachedRateRows", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("fetches missing months once and serves them from the cache after", async () => {
+    vi.useFakeTimers({ now: new Date("2026-03-20T12:00:00Z"), toFake: ["Date"] });
+    const storeId = nextStoreId++;
+    const source = fakeSource();
+
+    expect((await read(storeId, "2025-11-01", "2026-01-31", source.fetchRows)).cache).toMatchObject({ hits: 0, misses: 3 });
+    expect((await read(storeId, "2025-11-01", "2026-01-31", source.fetchRows)).cache).toMatchObject({ hits: 3, misses: 0 });
+    expect(source.calls).toEqual([{ from: "2025-11-01", to: "2026-01-31", newMonths: ["2025-11", "2025-12", "2026-01"] }]);
+  });
+
+  it("tells the source a current-month refresh isn't a new month", async () => {
+    vi.useFakeTimers({ now: new Date("2026-03-20T12:00:00Z"), toFake: ["Date"] });
+    const storeId = nextStoreId++;
+    const source = fakeSource();
+    await read(storeId, "2026-03-01", "2026-03-20", source.fetchRows);
+
+    vi.setSystemTime(new Date("2026-03-21T12:00:00Z"));
+    expect((await read(storeId, "2026-03-01", "2026-03-21", source.fetchRows)).cache).toMatchObject({ hits: 0, misses: 1 });
+    expect(source.calls.map((call) => call.newMonths)).toEqual([["2026-03"], []]);
+  });
+
+  it("neither fetches nor counts months after the current one", async () => {
+    vi.useFakeTimers({ now: new Date("2026-03-20T12:00:00Z"), toFake: ["Date"] });
+    const storeId = nextStoreId++;
+    const source = fakeSource();
+
+    expect((await read(storeId, "2026-03-01", "2026-06-30", source.fetchRows)).cache).toMatchObject({ hits: 0, misses: 1 });
+    expect((await read(storeId, "2026-04-01", "2026-06-30", source.fetchRows)).cache).toMatchObject({ hits: 0, misses: 0 });
+    expect(source.calls).toEqual([{ from: "2026-03-01", to: "2026-03-20", newMonths: ["2026-03"] }]);
+  });
+});
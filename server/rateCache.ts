@@ -0,0 +1,147 @@
+import { storage } from "./storage";
+import { SqlValidationError } from "./sql";
+import type { RateCacheEntry, InsertRateCacheEntry } from "@shared/schema";
+
+// Rate history is cached per store and calendar month. A month fetched after
+// it ended is complete and never refetched; the current month is refetched
+// once per day; a past month that was cached while still in progress is
+// refetched once so its final days are picked up. Months after the current
+// one have no data yet and are neither fetched nor reported.
+
+export type RateCacheSource = 'stortrack' | 'database';
+
+export interface RateCacheReport {
+  source: RateCacheSource;
+  hits: number;
+  misses: number;
+}
+
+const ISO_DATE_PATTERN = /^\d{4}-(0[1-9]|1[0-2])-\d{2}$/;
+
+const monthKey = (isoDate: string) => isoDate.slice(0, 7);
+
+const monthStart = (month: string) => `${month}-01`;
+
+function monthEnd(month: string): string {
+  const [year, mon] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, mon, 0)).toISOString().slice(0, 10);
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export function monthsInRange(from: string, to: string): string[] {
+  if (!ISO_DATE_PATTERN.test(from) || !ISO_DATE_PATTERN.test(to)) {
+    throw new SqlValidationError(`Invalid date range: ${from} to ${to} (expected YYYY-MM-DD)`);
+  }
+  const months: string[] = [];
+  let [year, mon] = monthKey(from).split('-').map(Number);
+  const last = monthKey(to);
+  for (;;) {
+    const month = `${year}-${String(mon).padStart(2, '0')}`;
+    if (month > last) break;
+    months.push(month);
+    mon++;
+    if (mon > 12) {
+      mon = 1;
+      year++;
+    }
+  }
+  return months;
+}
+
+export function isFresh(entry: Pick<RateCacheEntry, 'month' | 'fetchedAt'>, now = new Date()): boolean {
+  const fetchedDay = entry.fetchedAt.toISOString().slice(0, 10);
+  if (fetchedDay > monthEnd(entry.month)) return true;
+  return fetchedDay === now.toISOString().slice(0, 10);
+}
+
+/**
+ * Serve rate rows for [from, to] from the monthly cache, fetching only the
+ * store/month slices that are missing or stale. `fetchRows` is called at most
+ * once, for the stores with gaps, over the span of their missing months, and
+ * is told which of those months were never cached (the rest are refreshes);
+ * with `cacheOnly` it isn't called at all and whatever is cached is served.
+ */
+export async function cachedRateRows<T>(options: {
+  source: RateCacheSource;
+  storeIds: number[];
+  from: string;
+  to: string;
+  fetchRows: (storeIds: number[], from: string, to: string, newMonths: string[]) => Promise<T[]>;
+  rowStoreId: (row: T) => number;
+  rowDate: (row: T) => string;
+  cacheOnly?: boolean;
+}): Promise<{ rows: T[]; cache: RateCacheReport }> {
+  const { source, storeIds, from, to, fetchRows, rowStoreId, rowDate, cacheOnly = false } = options;
+  const currentMonth = monthKey(today());
+  const months = monthsInRange(from, to).filter((month) => month <= currentMonth);
+  const now = new Date();
+
+  const slices = new Map<string, T[]>();
+  const cached = new Set<string>();
+  for (const entry of months.length > 0 ? await storage.getRateCacheEntries(source, storeIds, months) : []) {
+    cached.add(`${entry.storeId}|${entry.month}`);
+    if (cacheOnly || isFresh(entry, now)) {
+      slices.set(`${entry.storeId}|${entry.month}`, entry.rows as T[]);
+    }
+  }
+
+  const missingMonths = new Set<string>();
+  const newMonths = new Set<string>();
+  const storesToFetch = storeIds.filter((storeId) => {
+    const missing = months.filter((month) => !slices.has(`${storeId}|${month}`));
+    missing.forEach((month) => {
+      missingMonths.add(month);
+      if (!cached.has(`${storeId}|${month}`)) newMonths.add(month);
+    });
+    return missing.length > 0;
+  });
+
+  let misses = 0;
+
+  if (cacheOnly) {
+    misses = storeIds.length * months.length - slices.size;
+  } else if (storesToFetch.length > 0) {
+    const sorted = Array.from(missingMonths).sort();
+    const fetchFrom = monthStart(sorted[0]);
+    const lastDay = monthEnd(sorted[sorted.length - 1]);
+    const fetchTo = lastDay < today() ? lastDay : today();
+    const fetchedMonths = monthsInRange(fetchFrom, fetchTo);
+
+    const fetched = new Map<string, T[]>();
+    for (const storeId of storesToFetch) {
+      for (const month of fetchedMonths) {
+        fetched.set(`${storeId}|${month}`, []);
+      }
+    }
+    for (const row of await fetchRows(storesToFetch, fetchFrom, fetchTo, Array.from(newMonths).sort())) {
+      const date = (rowDate(row) || fetchTo).slice(0, 10);
+      fetched.get(`${rowStoreId(row)}|${monthKey(date)}`)?.push(row);
+    }
+
+    const entries: InsertRateCacheEntry[] = [];
+    for (const [key, rows] of fetched) {
+      const [storeId, month] = key.split('|');
+      if (months.includes(month)) misses++;
+      slices.set(key, rows);
+      entries.push({ source, storeId: Number(storeId), month, rows, fetchedAt: now });
+    }
+    await storage.upsertRateCacheEntries(entries);
+  }
+
+  const rows: T[] = [];
+  for (const storeId of storeIds) {
+    for (const month of months) {
+      for (const row of slices.get(`${storeId}|${month}`) || []) {
+        const date = (rowDate(row) || '').slice(0, 10);
+        if (!date || (date >= from && date <= to)) rows.push(row);
+      }
+    }
+  }
+
+  return { rows, cache: { source, hits: storeIds.length * months.length - misses, misses } };
+}
+
+export async function invalidateStoreRates(storeId: number): Promise<number> {
+  return storage.invalidateRateCache(storeId);
+}
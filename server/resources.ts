@@ -0,0 +1,150 @@
+import type { ApiRateRecord, ApiSalesforceMatch, ApiStore, CompetitorsResponse } from "@shared/api";
+import type { ScoredSalesforceMatch } from "./salesforce";
+
+// StorTrack, the Stortrack database and the Sites database answer in their own
+// field names (snake_case, numbers as strings, several spellings of the same
+// field). These map them onto the shapes in shared/api.ts so the client never
+// sees the raw payloads.
+
+type Raw = Record<string, unknown>;
+
+function optionalNumber(value: unknown): number | undefined {
+  if (value === null || value === undefined || value === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+const text = (value: unknown) => (value === null || value === undefined ? '' : String(value));
+
+// Salesforce keeps year built and RSF as text or numbers depending on the field's history
+const textOrNumber = (value: unknown) => (typeof value === 'number' || typeof value === 'string' ? value : null);
+
+export function toApiStore(store: Raw): ApiStore {
+  return {
+    storeId: Number(store.storeid || store.id),
+    masterId: optionalNumber(store.masterid),
+    storeName: text(store.storename || store.name),
+    address: text(store.address),
+    city: text(store.city),
+    state: text(store.state),
+    zip: text(store.zip),
+    latitude: optionalNumber(store.latitude),
+    longitude: optionalNumber(store.longitude),
+    distance: optionalNumber(store.distance) ?? 0,
+  };
+}
+
+// findcompetitors answers with the subject store, its competitors nested inside
+export function toCompetitorsResponse(data: unknown): Omit<CompetitorsResponse, "duplicates"> {
+  const subject = ((Array.isArray(data) ? data[0] : data) || {}) as Raw;
+  return {
+    subject: { ...toApiStore(subject), distance: 0 },
+    competitors: ((subject.competitorstores || []) as Raw[]).map(toApiStore),
+  };
+}
+
+// historicaldata answers with store objects, each carrying its rates
+export function toRateRecords(storeId: number, stores: Raw[]): ApiRateRecord[] {
+  return stores.flatMap((store) =>
+    ((store.rates || store.rateinfo || []) as Raw[]).map((rate) => ({
+      storeId,
+      storeName: text(store.storename),
+      address: text(store.address),
+      city: text(store.city),
+      state: text(store.state),
+      zip: text(store.zip),
+      unitType: text(rate.spacetype || rate.unittype),
+      size: text(rate.size || rate.unitsize),
+      width: optionalNumber(rate.width),
+      length: optionalNumber(rate.length),
+      height: optionalNumber(rate.height),
+      features: text(rate.features),
+      tag: text(rate.tag || rate.spacetype),
+      climateControlled: Boolean(rate.climate_controlled || rate.cc),
+      humidityControlled: Boolean(rate.humidity_controlled),
+      driveUp: Boolean(rate.drive_up || rate.driveup),
+      elevator: Boolean(rate.elevator),
+      outdoorAccess: Boolean(rate.outdoor_access),
+      walkInPrice: optionalNumber(rate.regular_rate || rate.regularrate || rate.rate),
+      onlinePrice: optionalNumber(rate.online_rate || rate.onlinerate),
+      date: text(rate.date_collected || rate.datecollected || rate.date),
+      promo: text(rate.promo || rate.promotion),
+      source: 'API' as const,
+    }))
+  );
+}
+
+// dbo.Stores row, selected with ID aliased to Store_ID
+export function toDatabaseStore(row: Raw, distance = 0): ApiStore {
+  return {
+    storeId: Number(row.Store_ID),
+    storeName: text(row.Name),
+    address: text(row.Street_Address),
+    city: text(row.City),
+    state: text(row.State),
+    zip: text(row.Zip),
+    latitude: optionalNumber(row.Latitude),
+    longitude: optionalNumber(row.Longitude),
+    distance,
+  };
+}
+
+// dbo.Rates row joined to its dbo.Stores columns
+export function toDatabaseRateRecord(row: Raw): ApiRateRecord {
+  const features = [
+    row.Climate_Controlled && 'Climate Controlled',
+    row.Humidity_Controlled && 'Humidity Controlled',
+    row.Drive_Up && 'Drive Up',
+    row.Elevator && 'Elevator',
+    row.Outdoor_Access && 'Outdoor Access',
+  ].filter(Boolean);
+
+  return {
+    storeId: Number(row.Store_ID),
+    storeName: text(row.Store_Name),
+    address: text(row.Street_Address),
+    city: text(row.City),
+    state: text(row.State),
+    zip: text(row.Zip),
+    unitType: text(row.Spacetype) || 'Standard',
+    size: text(row.Size),
+    width: optionalNumber(row.Width),
+    length: optionalNumber(row.Length),
+    features: features.join(', '),
+    tag: text(row.Spacetype) || 'Standard',
+    climateControlled: !!row.Climate_Controlled,
+    humidityControlled: !!row.Humidity_Controlled,
+    driveUp: !!row.Drive_Up,
+    elevator: !!row.Elevator,
+    outdoorAccess: !!row.Outdoor_Access,
+    walkInPrice: optionalNumber(row.Regular_Rate),
+    onlinePrice: optionalNumber(row.Online_Rate),
+    date: text(row.Date_Collected),
+    promo: text(row.Promo),
+    source: 'Database' as const,
+  };
+}
+
+export function toSalesforceMatch(match: ScoredSalesforceMatch): ApiSalesforceMatch {
+  return {
+    Id: match.Id == null ? null : String(match.Id),
+    Name: text(match.Name),
+    Year_Built__c: textOrNumber(match.Year_Built__c),
+    Net_RSF__c: textOrNumber(match.Net_RSF__c),
+    ShippingAddress: match.ShippingAddress == null ? null : String(match.ShippingAddress),
+    nameScore: match.nameScore,
+    addressScore: match.addressScore,
+    cityScore: match.cityScore ?? null,
+    zipScore: match.zipScore ?? null,
+    stateMatch: match.stateMatch ?? null,
+    distanceMiles: match.distanceMiles ?? null,
+    distanceScore: match.distanceScore ?? null,
+    locationFactor: match.locationFactor ?? 1,
+    combinedScore: match.combinedScore,
+    parsedStoreName: text(match.parsedStoreName),
+    parsedAddress: text(match.parsedAddress),
+    parsedCity: text(match.parsedCity),
+    parsedState: text(match.parsedState),
+    parsedPostalCode: text(match.parsedPostalCode),
+  };
+}
@@ -1,521 +1,621 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import { createServer, type Server } from "http";
+import { storage } from "./storage";
+import { hasDatabase } from "./db";
+import {
+  createUserSchema,
+  updateUserRoleSchema,
+  createBackfillRequestSchema,
+  decideBackfillRequestSchema,
+  spendReportQuerySchema,
+  createPullJobSchema,
+  hasRole,
+  BACKFILL_STATUSES,
+  insertAnalysisSchema,
+  updateAnalysisSchema,
+  upsertFeatureCodeMappingsSchema,
+  salesforceStoreLinksQuerySchema,
+  upsertSalesforceStoreLinkSchema,
+  type Analysis,
+} from "@shared/schema";
+import { sql, integer, integerList, buildTableQuery, SqlValidationError } from "./sql";
+import { invalidateStoreRates, type RateCacheReport } from "./rateCache";
+import {
+  AccessDeniedError,
+  assertRole,
+  currentUser,
+  ensureBootstrapUser,
+  hashPassword,
+  registerAuthRoutes,
+  requireRole,
+  toPublicUser,
+} from "./auth";
+import {
+  BACKFILL_APPROVAL_THRESHOLD,
+  assertBackfillCovers,
+  authorizeHistoricalPull,
+  estimateBackfillCost,
+  initialBackfillStatus,
+  pullUnderBackfill,
+} from "./backfills";
+import { API_COST_PER_STORE_YEAR, BudgetExceededError, buildSpendReport, monthOf } from "./spend";
+import { recordAudit } from "./audit";
+import { PullJobQueue, isFinished } from "./pullJobs";
+import { toSalesforceMatch } from "./resources";
+import { findDuplicateStores } from "./duplicates";
+import { MOCK_PROVIDERS, MOCK_PROVIDER_BASE_URL, createMockProviderRouter } from "./mock/providers";
+import { healthCheck, mcpRequest, universalQuery } from "./mcp";
+import { databaseProvider, rateDataProviders, stortrackProvider } from "./providers";
+import {
+  getSalesforceByName,
+  getSalesforceMetadataByAddress,
+  getSalesforceMetadataForStores,
+} from "./salesforce";
+import {
+  competitorsQuerySchema,
+  competitorsResponseSchema,
+  salesforceBatchMatchRequestSchema,
+  salesforceBatchMatchResponseSchema,
+  salesforceMatchesQuerySchema,
+  salesforceMatchesResponseSchema,
+  storeIdParamSchema,
+  storeRatesQuerySchema,
+  storeRatesResponseSchema,
+  storeSearchQuerySchema,
+  storeSearchResponseSchema,
+} from "@shared/api";
 
-const STORTRACK_BASEURL = process.env.STORTRACK_BASEURL || '';
-const STORTRACK_USERNAME = process.env.STORTRACK_USERNAME || '';
-const STORTRACK_PASSWORD = process.env.STORTRACK_PASSWORD || '';
-const MCP_BASE_URL = 'https://mcp.wwgmcpserver.com';
-const MCP_API_KEY = process.env.WWG_MCP_API_KEY || '';
+async function getDatabases() {
+  return await mcpRequest('/databases');
+}
 
-let cachedToken: string | null = null;
-let tokenExpiry: number = 0;
+async function getSites(params?: { state?: string; city?: string }) {
+  return await mcpRequest('/sites', params as Record<string, string>);
+}
 
-async function getAuthToken(): Promise<string | null> {
-  if (cachedToken && Date.now() < tokenExpiry) {
-    return cachedToken;
-  }
+async function getStortrackData(endpoint: string, params?: Record<string, string>) {
+  return await mcpRequest(`/stortrack${endpoint}`, params);
+}
 
-  const authUrl = `${STORTRACK_BASEURL.replace(/\/$/, '')}/authtoken`;
-
-  try {
-    const response = await fetch(authUrl, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-      body: new URLSearchParams({
-        grant_type: 'password',
-        username: STORTRACK_USERNAME,
-        password: STORTRACK_PASSWORD,
-      }),
-    });
+async function queryDatabase(database: string, table: string, filters?: Record<string, any>, limit?: number) {
+  const built = buildTableQuery({ database, table, filters, limit });
+  return await universalQuery(built.database, built.query);
+}
 
-    if (response.ok) {
-      const data = await response.json();
-      const token = data.access_token || data.token;
-      if (token) {
-        cachedToken = `Bearer ${token}`;
-        tokenExpiry = Date.now() + (55 * 60 * 1000);
-        return cachedToken;
-      }
-    }
-    console.error('Auth token fetch failed:', response.status, await response.text());
-  } catch (error) {
-    console.error('Auth token exception:', error);
-  }
-  return null;
+async function getAnalytics(type: string) {
+  return await mcpRequest(`/analytics/${type}`);
 }
 
-async function findStoresByAddress(params: {
-  country?: string;
-  state?: string;
-  city?: string;
-  zip?: string;
-  storename?: string;
-  companyname?: string;
-}) {
-  const token = await getAuthToken();
-  if (!token) {
-    throw new Error('Failed to authenticate with StorTrack API');
-  }
+async function getStorEdgeData(endpoint: string, params?: Record<string, string>) {
+  return await mcpRequest(`/storedge/${endpoint}`, params);
+}
 
-  const url = `${STORTRACK_BASEURL.replace(/\/$/, '')}/storesbyaddress`;
-
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Accept': 'application/json',
-      'authorization': token,
-    },
-    body: JSON.stringify({
-      country: params.country || 'United States',
-      state: params.state || '',
-      city: params.city || '',
-      zip: params.zip || '',
-      storename: params.storename || '',
-      companyname: params.companyname || '',
-    }),
-  });
+// List responses omit the wizard snapshot; it is only returned when loading a single analysis
+function summarizeAnalysis({ state, ...summary }: Analysis) {
+  return summary;
+}
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error('Find stores failed:', response.status, errorText);
-    throw new Error(`StorTrack API error: ${response.status}`);
-  }
+// Errors that carry their own HTTP status; anything else is a 500
+function errorStatus(error: unknown): number {
+  return error instanceof SqlValidationError ||
+    error instanceof AccessDeniedError ||
+    error instanceof BudgetExceededError
+    ? error.status
+    : 500;
+}
 
-  const result = await response.json();
-  return result.stores || [];
+// The action-switch endpoints still answer, but point callers at the resource route that replaced them
+function markDeprecated(res: Response, successor: string) {
+  res.setHeader('Deprecation', 'true');
+  res.setHeader('Link', `<${successor}>; rel="successor-version"`);
 }
 
-async function findCompetitors(params: {
-  storeid?: number;
-  masterid?: number;
-  coveragezone?: number;
-}) {
-  const token = await getAuthToken();
-  if (!token) {
-    throw new Error('Failed to authenticate with StorTrack API');
-  }
+function formatValidationError(issues: Array<{ path: PropertyKey[]; message: string }>): string {
+  return issues
+    .map((issue) => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+    .join('; ');
+}
 
-  const url = `${STORTRACK_BASEURL.replace(/\/$/, '')}/findcompetitors`;
-
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Accept': 'application/json',
-      'authorization': token,
-    },
-    body: JSON.stringify({
-      storeid: params.storeid ? [params.storeid] : [],
-      masterid: params.masterid ? [params.masterid] : [],
-      coveragezone: params.coveragezone || 5.0,
-    }),
-  });
+// Most recent entries returned by GET /api/audit
+const AUDIT_PAGE_SIZE = 200;
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error('Find competitors failed:', response.status, errorText);
-    throw new Error(`StorTrack API error: ${response.status}`);
-  }
+// Keeps idle proxies from closing a progress stream between store updates
+const PULL_JOB_HEARTBEAT_MS = 15000;
 
-  return await response.json();
-}
+// Each range goes through the rate cache, so once a job finishes the client reads
+// its rows back with fetchHistoricalData without reaching StorTrack again
+const pullJobQueue = new PullJobQueue(async (job, store, range) => {
+  const params = { storeid: store.storeId, from: range.from, to: range.to, backfillId: job.backfillId };
+  const { records, cache } = await pullUnderBackfill(
+    { backfillId: job.backfillId, storeId: store.storeId, ...range, pullJobId: job.id },
+    ({ cacheOnly }) => stortrackProvider.historicalRates({ userId: job.userId, cacheOnly }, [store.storeId], range.from, range.to)
+  );
+  await recordAudit(job.userId, 'stortrack.fetchHistoricalData', { params, cache, pullJobId: job.id });
+  return records.length;
+});
 
-async function fetchHistoricalData(params: {
-  storeid: number;
-  from: string;
-  to: string;
-}, maxRetries = 3) {
-  const token = await getAuthToken();
-  if (!token) {
-    throw new Error('Failed to authenticate with StorTrack API');
+export async function registerRoutes(app: Express): Promise<Server> {
+  await ensureBootstrapUser();
+  if (MOCK_PROVIDERS) {
+    app.use("/mock", createMockProviderRouter());
+    console.warn(`PROVIDER_MODE=mock: StorTrack and MCP calls go to ${MOCK_PROVIDER_BASE_URL}`);
   }
+  if (!hasDatabase) {
+    console.warn("DATABASE_URL is not set: using in-memory storage. Saved analyses, users, backfills and audit logs are lost on restart.");
+  }
+  await pullJobQueue.resume();
+  registerAuthRoutes(app);
 
-  const url = `${STORTRACK_BASEURL.replace(/\/$/, '')}/historicaldata`;
-
-  for (let attempt = 0; attempt < maxRetries; attempt++) {
+  app.get("/api/users", requireRole('admin'), async (_req, res) => {
     try {
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Accept': 'application/json',
-          'authorization': token,
-        },
-        body: JSON.stringify({
-          storeid: params.storeid,
-          masterid: 0,
-          from: params.from,
-          to: params.to,
-          requestyear: 0,
-        }),
-      });
+      const users = await storage.listUsers();
+      res.json({ success: true, data: users.map(toPublicUser) });
+    } catch (error: unknown) {
+      console.error('List users error:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ success: false, error: message });
+    }
+  });
 
-      if (response.ok) {
-        const result = await response.json();
-        return Array.isArray(result) ? result : [result];
+  app.post("/api/users", requireRole('admin'), async (req, res) => {
+    try {
+      const parsed = createUserSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, error: formatValidationError(parsed.error.issues) });
       }
-
-      if (response.status === 429) {
-        console.warn(`Rate limited on attempt ${attempt + 1}, waiting...`);
-        await new Promise(r => setTimeout(r, 60000));
-        continue;
+      const { password, ...fields } = parsed.data;
+      if (await storage.getUserByUsername(fields.username)) {
+        return res.status(409).json({ success: false, error: 'Username is already taken' });
       }
+      const user = await storage.createUser({ ...fields, passwordHash: await hashPassword(password) });
+      await recordAudit(currentUser(res).id, 'user.create', { userId: user.id, username: user.username, role: user.role });
+      res.status(201).json({ success: true, data: toPublicUser(user) });
+    } catch (error: unknown) {
+      console.error('Create user error:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ success: false, error: message });
+    }
+  });
 
-      if ([500, 503, 404].includes(response.status)) {
-        console.warn(`Got ${response.status} on attempt ${attempt + 1}`);
-        if (attempt < maxRetries - 1) {
-          await new Promise(r => setTimeout(r, 5000 * (attempt + 1)));
-          continue;
-        }
+  app.put("/api/users/:id/role", requireRole('admin'), async (req, res) => {
+    try {
+      const parsed = updateUserRoleSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, error: formatValidationError(parsed.error.issues) });
       }
-
-      const errorText = await response.text();
-      console.error('Historical data failed:', response.status, errorText);
-      throw new Error(`StorTrack API error: ${response.status}`);
-    } catch (error) {
-      if (attempt === maxRetries - 1) throw error;
-      await new Promise(r => setTimeout(r, 2000 * (attempt + 1)));
+      const admin = currentUser(res);
+      const id = Number(req.params.id);
+      // Keeps at least one admin around: an admin can't demote themselves
+      if (id === admin.id && parsed.data.role !== 'admin') {
+        return res.status(400).json({ success: false, error: 'You cannot remove your own admin role' });
+      }
+      const user = await storage.updateUserRole(id, parsed.data.role);
+      if (!user) {
+        return res.status(404).json({ success: false, error: 'User not found' });
+      }
+      await recordAudit(admin.id, 'user.role', { userId: user.id, role: user.role });
+      res.json({ success: true, data: toPublicUser(user) });
+    } catch (error: unknown) {
+      console.error('Update user role error:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ success: false, error: message });
     }
-  }
-
-  throw new Error('Max retries exceeded');
-}
-
-async function universalQuery(database: string, sqlQuery: string) {
-  const url = `${MCP_BASE_URL}/query/universal`;
-
-  const body = {
-    database,
-    query: sqlQuery
-  };
-
-  console.log(`MCP Universal Query: ${url}`, JSON.stringify(body));
-
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: {
-      'X-API-Key': MCP_API_KEY,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(body),
   });
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error(`MCP API Error: ${response.status} - ${errorText}`);
-    throw new Error(`MCP API error: ${response.status} - ${errorText}`);
-  }
-
-  const jsonResponse = await response.json();
-  console.log(`MCP Universal Query response keys:`, Object.keys(jsonResponse));
-
-  if (jsonResponse.results && Array.isArray(jsonResponse.results)) {
-    console.log(`MCP response has ${jsonResponse.results.length} results`);
-    return jsonResponse.results;
-  }
-
-  if (Array.isArray(jsonResponse)) {
-    return jsonResponse;
-  } else if (jsonResponse.data && Array.isArray(jsonResponse.data)) {
-    return jsonResponse.data;
-  }
-
-  return jsonResponse;
-}
-
-async function mcpRequest(endpoint: string, params?: Record<string, string>) {
-  const url = new URL(`${MCP_BASE_URL}${endpoint}`);
-  if (params) {
-    Object.entries(params).forEach(([key, value]) => {
-      if (value !== undefined && value !== null) {
-        url.searchParams.append(key, value);
-      }
+  app.get("/api/backfills/policy", (_req, res) => {
+    res.json({
+      success: true,
+      data: { costPerStoreYear: API_COST_PER_STORE_YEAR, approvalThreshold: BACKFILL_APPROVAL_THRESHOLD },
     });
-  }
-
-  console.log(`MCP Request: ${url.toString()}`);
-
-  const response = await fetch(url.toString(), {
-    method: 'GET',
-    headers: {
-      'X-API-Key': MCP_API_KEY,
-      'Content-Type': 'application/json',
-    },
   });
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error(`MCP API Error: ${response.status} - ${errorText}`);
-    throw new Error(`MCP API error: ${response.status} - ${errorText}`);
-  }
-
-  return await response.json();
-}
-
-function parsePythonDict(dictStr: string): Record<string, any> | null {
-  if (!dictStr || typeof dictStr !== 'string') return null;
-
-  try {
-    return JSON.parse(dictStr);
-  } catch {
+  // Analysts see their own requests; approvers see everyone's so they can sign off
+  app.get("/api/backfills", async (req, res) => {
     try {
-      const jsonString = dictStr
-        .replace(/'/g, '"')
-        .replace(/None/g, 'null')
-        .replace(/True/g, 'true')
-        .replace(/False/g, 'false');
-      return JSON.parse(jsonString);
-    } catch {
-      return null;
+      const user = currentUser(res);
+      const status = BACKFILL_STATUSES.find((s) => s === req.query.status);
+      const requests = await storage.listBackfillRequests({
+        status,
+        requestedBy: hasRole(user.role, 'approver') ? undefined : user.id,
+      });
+      const usernames = new Map((await storage.listUsers()).map((u) => [u.id, u.username]));
+      res.json({
+        success: true,
+        data: requests.map((request) => ({ ...request, requestedByUsername: usernames.get(request.requestedBy) ?? null })),
+      });
+    } catch (error: unknown) {
+      console.error('List backfill requests error:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ success: false, error: message });
     }
-  }
-}
-
-function fuzzyMatchScore(str1: string, str2: string): number {
-  if (!str1 || !str2) return 0;
-
-  const s1 = str1.toLowerCase().trim();
-  const s2 = str2.toLowerCase().trim();
+  });
 
-  if (s1 === s2) return 1;
+  app.get("/api/backfills/:id", async (req, res) => {
+    try {
+      const user = currentUser(res);
+      const backfill = await storage.getBackfillRequest(Number(req.params.id));
+      if (!backfill || (backfill.requestedBy !== user.id && !hasRole(user.role, 'approver'))) {
+        return res.status(404).json({ success: false, error: 'Backfill request not found' });
+      }
+      res.json({ success: true, data: backfill });
+    } catch (error: unknown) {
+      console.error('Get backfill request error:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ success: false, error: message });
+    }
+  });
 
-  const longer = s1.length > s2.length ? s1 : s2;
-  const shorter = s1.length > s2.length ? s2 : s1;
+  // The cost is recomputed here from the store-years; the client's estimate is never trusted
+  app.post("/api/backfills", requireRole('analyst'), async (req, res) => {
+    try {
+      const parsed = createBackfillRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, error: formatValidationError(parsed.error.issues) });
+      }
+      const user = currentUser(res);
+      const estimatedCost = estimateBackfillCost(parsed.data.stores);
+      const { status, decidedBy } = await initialBackfillStatus(user, estimatedCost);
+      const backfill = await storage.createBackfillRequest({
+        requestedBy: user.id,
+        analysisName: parsed.data.analysisName || null,
+        stores: parsed.data.stores,
+        estimatedCost,
+        status,
+        decidedBy,
+        decidedAt: status === 'approved' ? new Date() : null,
+      });
+      await recordAudit(user.id, 'backfill.request', { backfillId: backfill.id, estimatedCost, status });
+      res.status(201).json({ success: true, data: backfill });
+    } catch (error: unknown) {
+      console.error('Create backfill request error:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ success: false, error: message });
+    }
+  });
 
-  if (longer.length === 0) return 1;
+  app.post("/api/backfills/:id/decision", requireRole('approver'), async (req, res) => {
+    try {
+      const parsed = decideBackfillRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, error: formatValidationError(parsed.error.issues) });
+      }
+      const user = currentUser(res);
+      const backfill = await storage.decideBackfillRequest(Number(req.params.id), {
+        status: parsed.data.status,
+        decidedBy: user.id,
+        note: parsed.data.note,
+      });
+      if (!backfill) {
+        return res.status(404).json({ success: false, error: 'No pending backfill request with that ID' });
+      }
+      await recordAudit(user.id, `backfill.${parsed.data.status}`, {
+        backfillId: backfill.id,
+        requestedBy: backfill.requestedBy,
+        estimatedCost: backfill.estimatedCost,
+      });
+      res.json({ success: true, data: backfill });
+    } catch (error: unknown) {
+      console.error('Decide backfill request error:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ success: false, error: message });
+    }
+  });
 
-  if (longer.includes(shorter)) {
-    return shorter.length / longer.length;
-  }
+  app.get("/api/audit", async (_req, res) => {
+    try {
+      const entries = await storage.listAuditEntries(currentUser(res).id, AUDIT_PAGE_SIZE);
+      res.json({ success: true, data: entries });
+    } catch (error: unknown) {
+      console.error('List audit entries error:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ success: false, error: message });
+    }
+  });
 
-  const costs: number[] = [];
-  for (let i = 0; i <= s1.length; i++) {
-    let lastValue = i;
-    for (let j = 0; j <= s2.length; j++) {
-      if (i === 0) {
-        costs[j] = j;
-      } else if (j > 0) {
-        let newValue = costs[j - 1];
-        if (s1.charAt(i - 1) !== s2.charAt(j - 1)) {
-          newValue = Math.min(Math.min(newValue, lastValue), costs[j]) + 1;
+  // Scope is checked for every store and range up front, so queued pulls never run unauthorized.
+  // While a job for the backfill is unfinished, asking again returns it. A later job only reaches
+  // StorTrack for store-years no earlier pull got (see pullUnderBackfill), e.g. ones that failed.
+  app.post("/api/pull-jobs", requireRole('analyst'), async (req, res) => {
+    try {
+      const parsed = createPullJobSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, error: formatValidationError(parsed.error.issues) });
+      }
+      const user = currentUser(res);
+      const { backfillId, stores } = parsed.data;
+      for (const store of stores) {
+        for (const range of store.ranges) {
+          await assertBackfillCovers(user, { backfillId, storeid: store.storeId, from: range.from, to: range.to });
         }
-        costs[j - 1] = lastValue;
-        lastValue = newValue;
       }
+      const existing = await storage.getPullJobForBackfill(backfillId);
+      if (existing && !isFinished(existing.status)) {
+        return res.json({ success: true, data: existing });
+      }
+      const job = await storage.createPullJob({
+        userId: user.id,
+        backfillId,
+        stores: stores.map((store) => ({ ...store, status: 'queued' as const, records: 0 })),
+      });
+      pullJobQueue.enqueue(job);
+      await recordAudit(user.id, 'pullJob.create', { pullJobId: job.id, backfillId, storeIds: stores.map((s) => s.storeId) });
+      res.status(202).json({ success: true, data: job });
+    } catch (error: unknown) {
+      console.error('Create pull job error:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const status = error instanceof AccessDeniedError ? error.status : 500;
+      res.status(status).json({ success: false, error: message });
     }
-    if (i > 0) costs[s2.length] = lastValue;
-  }
-
-  return (longer.length - costs[s2.length]) / longer.length;
-}
-
-function normalizeAddress(addr: string): string {
-  return (addr || '')
-    .toLowerCase()
-    .trim()
-    .replace(/[.,#]/g, '')
-    .replace(/\s+/g, ' ')
-    .replace(/\bavenue\b/g, 'ave')
-    .replace(/\bstreet\b/g, 'st')
-    .replace(/\bdrive\b/g, 'dr')
-    .replace(/\bboulevard\b/g, 'blvd')
-    .replace(/\broad\b/g, 'rd')
-    .replace(/\blane\b/g, 'ln')
-    .replace(/\bcourt\b/g, 'ct')
-    .replace(/\bnorth\b/g, 'n')
-    .replace(/\bsouth\b/g, 's')
-    .replace(/\beast\b/g, 'e')
-    .replace(/\bwest\b/g, 'w')
-    .replace(/\bnortheast\b/g, 'ne')
-    .replace(/\bnorthwest\b/g, 'nw')
-    .replace(/\bsoutheast\b/g, 'se')
-    .replace(/\bsouthwest\b/g, 'sw');
-}
-
-async function getSalesforceByName(storeName: string) {
-  console.log('Querying Salesforce_rawData by name:', storeName);
+  });
 
-  const sql = `
-    SELECT TOP 5 Name, Year_Built__c, Net_RSF__c, ShippingAddress
-    FROM dbo.Salesforce_rawData
-    WHERE Name LIKE '%${storeName.replace(/'/g, "''")}%'
-      AND (Year_Built__c IS NOT NULL OR Net_RSF__c IS NOT NULL)
-  `;
+  app.get("/api/pull-jobs/:id", async (req, res) => {
+    try {
+      const job = await storage.getPullJob(Number(req.params.id));
+      if (!job || job.userId !== currentUser(res).id) {
+        return res.status(404).json({ success: false, error: 'Pull job not found' });
+      }
+      res.json({ success: true, data: job });
+    } catch (error: unknown) {
+      console.error('Get pull job error:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ success: false, error: message });
+    }
+  });
 
-  const results = await universalQuery('Sites', sql);
+  // Server-sent events: the job as it stands, then again after every store update until it finishes
+  app.get("/api/pull-jobs/:id/events", async (req, res) => {
+    try {
+      const jobId = Number(req.params.id);
+      const job = await storage.getPullJob(jobId);
+      if (!job || job.userId !== currentUser(res).id) {
+        return res.status(404).json({ success: false, error: 'Pull job not found' });
+      }
 
-  if (!results || !Array.isArray(results) || results.length === 0) {
-    console.log('No results from Salesforce_rawData by name');
-    return [];
-  }
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+      });
+      const send = (update: typeof job) => {
+        if (res.writableEnded) return;
+        res.write(`data: ${JSON.stringify(update)}\n\n`);
+        if (isFinished(update.status)) res.end();
+      };
+
+      const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), PULL_JOB_HEARTBEAT_MS);
+      const unsubscribe = pullJobQueue.subscribe(jobId, send);
+      res.on('close', () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      });
 
-  console.log(`Found ${results.length} records matching name`);
-  return results.map((record: any) => ({
-    Year_Built__c: record.Year_Built__c,
-    Net_RSF__c: record.Net_RSF__c,
-    Name: record.Name,
-    ShippingAddress: record.ShippingAddress,
-  }));
-}
+      // Read again now that we're subscribed, so an update landing in between isn't missed
+      send((await storage.getPullJob(jobId)) ?? job);
+    } catch (error: unknown) {
+      console.error('Pull job events error:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      if (res.headersSent) {
+        res.end();
+      } else {
+        res.status(500).json({ success: false, error: message });
+      }
+    }
+  });
 
-async function getSalesforceMetadataByAddress(params: {
-  street: string;
-  city: string;
-  state: string;
-  postalCode: string;
-  storeName?: string;
-}) {
-  console.log('Querying Salesforce_rawData for address:', params);
-
-  const sql = `
-    SELECT Name, Year_Built__c, Net_RSF__c, ShippingAddress
-    FROM dbo.Salesforce_rawData
-    WHERE (Net_RSF__c IS NOT NULL OR Year_Built__c IS NOT NULL)
-      AND Name IS NOT NULL
-  `;
-  const results = await universalQuery('Sites', sql);
-
-  if (!results || !Array.isArray(results) || results.length === 0) {
-    console.log('No results from Salesforce_rawData');
-    return [];
-  }
+  // Defaults to the current month and the five before it
+  app.get("/api/spend", requireRole('approver'), async (req, res) => {
+    try {
+      const parsed = spendReportQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, error: formatValidationError(parsed.error.issues) });
+      }
+      const now = new Date();
+      const to = parsed.data.to ?? monthOf(now);
+      const from = parsed.data.from ?? monthOf(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 5, 1)));
+      if (from > to) {
+        return res.status(400).json({ success: false, error: 'from must not be after to' });
+      }
+      res.json({ success: true, data: await buildSpendReport(from, to) });
+    } catch (error: unknown) {
+      console.error('Spend report error:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ success: false, error: message });
+    }
+  });
 
-  console.log(`Retrieved ${results.length} records from Salesforce_rawData`);
-
-  const targetStreet = normalizeAddress(params.street);
-  const targetStoreName = (params.storeName || '').toLowerCase().trim();
-
-  const scoredMatches: Array<{
-    Name: string;
-    Year_Built__c: any;
-    Net_RSF__c: any;
-    ShippingAddress: any;
-    nameScore: number;
-    addressScore: number;
-    combinedScore: number;
-    parsedStoreName: string;
-    parsedAddress: string;
-  }> = [];
-
-  for (const record of results) {
-    const sfName = record.Name || '';
-    const sfStoreBrand = sfName.includes(' - ') ? sfName.split(' - ')[0].trim() : sfName;
-
-    let sfStreet = '';
-    const shippingAddress = parsePythonDict(record.ShippingAddress);
-
-    if (shippingAddress && shippingAddress.street) {
-      sfStreet = shippingAddress.street;
-    } else if (sfName.includes(' - ')) {
-      const nameParts = sfName.split(' - ');
-      if (nameParts.length >= 2) {
-        const potentialAddress = nameParts[1].trim();
-        if (/\d+/.test(potentialAddress) ||
-            /(st|ave|rd|blvd|dr|way|lane|court)/i.test(potentialAddress)) {
-          sfStreet = potentialAddress;
-        }
+  // Resource routes: request and response shapes are the zod schemas in shared/api.ts,
+  // checked on the way in and on the way out
+  app.get("/api/stores/search", requireRole('analyst'), async (req, res) => {
+    try {
+      const parsed = storeSearchQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, error: formatValidationError(parsed.error.issues) });
       }
+      const user = currentUser(res);
+      const { source = 'stortrack', ...params } = parsed.data;
+      const provider = rateDataProviders[source];
+      const stores = await provider.searchStores({ userId: user.id }, params);
+      await recordAudit(user.id, `${provider.id}.findStoresByAddress`, { params });
+      res.json({ success: true, data: storeSearchResponseSchema.parse(stores) });
+    } catch (error: unknown) {
+      console.error('Store search error:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(errorStatus(error)).json({ success: false, error: message });
     }
+  });
 
-    if (!sfStreet) continue;
+  app.get("/api/stores/:id/competitors", requireRole('analyst'), async (req, res) => {
+    try {
+      const storeId = storeIdParamSchema.safeParse(req.params.id);
+      const parsed = competitorsQuerySchema.safeParse(req.query);
+      if (!storeId.success) {
+        return res.status(400).json({ success: false, error: `Invalid store id: ${req.params.id}` });
+      }
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, error: formatValidationError(parsed.error.issues) });
+      }
+      const user = currentUser(res);
+      const provider = rateDataProviders[parsed.data.source ?? 'stortrack'];
+      const params = { storeid: storeId.data, coveragezone: parsed.data.radius };
+      const result = await provider.findCompetitors({ userId: user.id }, storeId.data, parsed.data.radius);
+      await recordAudit(user.id, `${provider.id}.findCompetitors`, { params });
+      const duplicates = findDuplicateStores([result.subject, ...result.competitors]);
+      res.json({ success: true, data: competitorsResponseSchema.parse({ ...result, duplicates }) });
+    } catch (error: unknown) {
+      console.error('Competitor lookup error:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(errorStatus(error)).json({ success: false, error: message });
+    }
+  });
 
-    const nameScoreFull = fuzzyMatchScore(targetStoreName, sfName.toLowerCase());
-    const nameScoreBrand = fuzzyMatchScore(targetStoreName, sfStoreBrand.toLowerCase());
-    const nameScore = Math.max(nameScoreFull, nameScoreBrand);
+  app.get("/api/stores/:id/rates", requireRole('analyst'), async (req, res) => {
+    try {
+      const storeId = storeIdParamSchema.safeParse(req.params.id);
+      const parsed = storeRatesQuerySchema.safeParse(req.query);
+      if (!storeId.success) {
+        return res.status(400).json({ success: false, error: `Invalid store id: ${req.params.id}` });
+      }
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, error: formatValidationError(parsed.error.issues) });
+      }
+      const user = currentUser(res);
+      const params = { storeid: storeId.data, ...parsed.data };
+      const history = await authorizeHistoricalPull(user, params, ({ cacheOnly }) =>
+        stortrackProvider.historicalRates({ userId: user.id, cacheOnly }, [storeId.data], parsed.data.from, parsed.data.to)
+      );
+      await recordAudit(user.id, 'stortrack.fetchHistoricalData', { params, cache: history.cache });
+      res.json({ success: true, data: storeRatesResponseSchema.parse(history) });
+    } catch (error: unknown) {
+      console.error('Store rates error:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(errorStatus(error)).json({ success: false, error: message });
+    }
+  });
 
-    const normalizedSfStreet = normalizeAddress(sfStreet);
-    const addressScore = fuzzyMatchScore(targetStreet, normalizedSfStreet);
+  app.get("/api/salesforce/matches", async (req, res) => {
+    try {
+      const parsed = salesforceMatchesQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, error: formatValidationError(parsed.error.issues) });
+      }
+      const matches = await getSalesforceMetadataByAddress(parsed.data);
+      res.json({ success: true, data: salesforceMatchesResponseSchema.parse(matches.map(toSalesforceMatch)) });
+    } catch (error: unknown) {
+      console.error('Salesforce matches error:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(errorStatus(error)).json({ success: false, error: message });
+    }
+  });
 
-    const combinedScore = (nameScore * 0.4) + (addressScore * 0.6);
+  app.post("/api/salesforce/matches/batch", async (req, res) => {
+    try {
+      const parsed = salesforceBatchMatchRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, error: formatValidationError(parsed.error.issues) });
+      }
+      const { stores } = parsed.data;
+      const results = await getSalesforceMetadataForStores(stores);
+      const data = stores.map(({ storeId }, i) => ({ storeId, matches: results[i].map(toSalesforceMatch) }));
+      res.json({ success: true, data: salesforceBatchMatchResponseSchema.parse(data) });
+    } catch (error: unknown) {
+      console.error('Salesforce batch match error:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(errorStatus(error)).json({ success: false, error: message });
+    }
+  });
 
-    if (combinedScore > 0.3 || addressScore > 0.5) {
-      scoredMatches.push({
-        Name: sfName,
-        Year_Built__c: record.Year_Built__c,
-        Net_RSF__c: record.Net_RSF__c,
-        ShippingAddress: record.ShippingAddress,
-        nameScore,
-        addressScore,
-        combinedScore,
-        parsedStoreName: sfStoreBrand,
-        parsedAddress: sfStreet,
+  // Confirmed links for the given stores, with who verified each
+  app.get("/api/salesforce/links", async (req, res) => {
+    try {
+      const parsed = salesforceStoreLinksQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, error: formatValidationError(parsed.error.issues) });
+      }
+      const links = await storage.listSalesforceStoreLinks(parsed.data.storeIds, parsed.data.masterIds);
+      const usernames = new Map((await storage.listUsers()).map((u) => [u.id, u.username]));
+      res.json({
+        success: true,
+        data: links.map((link) => ({ ...link, verifiedByUsername: usernames.get(link.verifiedBy) ?? null })),
       });
+    } catch (error: unknown) {
+      console.error('List Salesforce links error:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ success: false, error: message });
     }
-  }
-
-  scoredMatches.sort((a, b) => b.combinedScore - a.combinedScore);
-
-  console.log(`Found ${scoredMatches.length} matching records for address`);
-
-  return scoredMatches.slice(0, 10);
-}
-
-async function healthCheck() {
-  const response = await fetch(`${MCP_BASE_URL}/health`);
-  return { healthy: response.ok, status: response.status };
-}
-
-async function getDatabases() {
-  return await mcpRequest('/databases');
-}
-
-async function getSites(params?: { state?: string; city?: string }) {
-  return await mcpRequest('/sites', params as Record<string, string>);
-}
-
-async function getStortrackData(endpoint: string, params?: Record<string, string>) {
-  return await mcpRequest(`/stortrack${endpoint}`, params);
-}
-
-async function queryDatabase(database: string, table: string, filters?: Record<string, any>, limit?: number) {
-  let sql = `SELECT TOP ${limit || 1000} * FROM dbo.${table}`;
-
-  if (filters && Object.keys(filters).length > 0) {
-    const whereClauses = Object.entries(filters)
-      .map(([key, value]) => `${key} = '${value}'`)
-      .join(' AND ');
-    sql += ` WHERE ${whereClauses}`;
-  }
-
-  return await universalQuery(database, sql);
-}
-
-async function getAnalytics(type: string) {
-  return await mcpRequest(`/analytics/${type}`);
-}
+  });
 
-async function getStorEdgeData(endpoint: string, params?: Record<string, string>) {
-  return await mcpRequest(`/storedge/${endpoint}`, params);
-}
+  app.put("/api/salesforce/links/:storeId", requireRole('analyst'), async (req, res) => {
+    try {
+      const storeId = storeIdParamSchema.safeParse(req.params.storeId);
+      const parsed = upsertSalesforceStoreLinkSchema.safeParse(req.body);
+      if (!storeId.success) {
+        return res.status(400).json({ success: false, error: `Invalid store id: ${req.params.storeId}` });
+      }
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, error: formatValidationError(parsed.error.issues) });
+      }
+      const user = currentUser(res);
+      const link = await storage.upsertSalesforceStoreLink({ ...parsed.data, storeId: storeId.data, verifiedBy: user.id });
+      await recordAudit(user.id, 'salesforceLinks.save', { storeId: storeId.data, ...parsed.data });
+      res.json({ success: true, data: { ...link, verifiedByUsername: user.username } });
+    } catch (error: unknown) {
+      console.error('Save Salesforce link error:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ success: false, error: message });
+    }
+  });
 
-export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/stortrack", async (req, res) => {
     try {
       const { action, params } = req.body;
       console.log(`StorTrack API action: ${action}`, params);
 
+      // Enforced here rather than only in the UI: every action uses the paid credentials
+      const user = currentUser(res);
+      assertRole(user, 'analyst', 'StorTrack access');
+
+      // Answered through stortrackProvider, in the same shapes as the successor routes
+      const context = { userId: user.id };
       let result;
+      let cache: RateCacheReport | undefined;
 
       switch (action) {
         case 'findStoresByAddress':
-          result = await findStoresByAddress(params);
+          markDeprecated(res, '/api/stores/search');
+          result = await stortrackProvider.searchStores(context, {
+            country: params?.country,
+            state: params?.state,
+            city: params?.city,
+            zip: params?.zip,
+            storeName: params?.storename,
+            companyName: params?.companyname,
+          });
           break;
-        case 'findCompetitors':
-          result = await findCompetitors(params);
+        case 'findCompetitors': {
+          markDeprecated(res, `/api/stores/${params?.storeid}/competitors`);
+          const storeId = Number(integer(params?.storeid, { min: 1 }).text);
+          result = await stortrackProvider.findCompetitors(context, storeId, Number(params?.coveragezone) || 5);
           break;
-        case 'fetchHistoricalData':
-          result = await fetchHistoricalData(params);
+        }
+        case 'fetchHistoricalData': {
+          markDeprecated(res, `/api/stores/${params?.storeid}/rates`);
+          const storeId = Number(integer(params?.storeid, { min: 1 }).text);
+          ({ records: result, cache } = await authorizeHistoricalPull(user, params, ({ cacheOnly }) =>
+            stortrackProvider.historicalRates({ ...context, cacheOnly }, [storeId], params.from, params.to)
+          ));
           break;
+        }
         default:
           throw new Error(`Unknown action: ${action}`);
       }
 
-      res.json({ success: true, data: result });
+      // StorTrack calls use the paid credentials, so each one is attributed to a user
+      await recordAudit(user.id, `stortrack.${action}`, { params, cache });
+      res.json({ success: true, data: result, cache });
     } catch (error: unknown) {
       console.error('StorTrack API error:', error);
       const message = error instanceof Error ? error.message : 'Unknown error';
-      res.status(500).json({ success: false, error: message });
+      res.status(errorStatus(error)).json({ success: false, error: message });
     }
   });
 
@@ -525,6 +625,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log(`Database query action: ${action}`, params);
 
       let result;
+      let cache: RateCacheReport | undefined;
 
       switch (action) {
         case 'healthCheck':
@@ -556,6 +657,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           break;
 
         case 'getSalesforceMetadataByAddress':
+          markDeprecated(res, '/api/salesforce/matches');
           result = await getSalesforceMetadataByAddress(params);
           break;
 
@@ -568,92 +670,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
           if (storeIds.length === 0) {
             throw new Error('storeIds is required for getTrailing12MonthRates');
           }
-          const storeIdList = storeIds.map((id: string | number) => `'${id}'`).join(',');
           const fromDate = params.fromDate || new Date(Date.now() - 365 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
           const toDate = params.toDate || new Date().toISOString().split('T')[0];
 
-          const rateSql = `
-            SELECT 
-              r.Store_ID,
-              s.Name as Store_Name,
-              s.Street_Address,
-              s.City,
-              s.State,
-              s.Zip,
-              r.Size,
-              r.Width,
-              r.Length,
-              r.Spacetype,
-              r.CC as Climate_Controlled,
-              r.Humidity_Controlled,
-              r.Drive_Up,
-              r.Elevator,
-              r.Outdoor_Access,
-              r.Regular_Rate,
-              r.Online_Rate,
-              r.Promo,
-              r.Date_Collected
-            FROM dbo.Rates r
-            LEFT JOIN dbo.Stores s ON r.Store_ID = s.ID
-            WHERE r.Store_ID IN (${storeIdList})
-            AND r.Date_Collected >= '${fromDate}'
-            AND r.Date_Collected <= '${toDate}'
-            ORDER BY r.Store_ID, r.Date_Collected DESC, r.Width, r.Length
-          `;
-
-          const rawResult = await universalQuery('Stortrack', rateSql);
-          // universalQuery already extracts the results array, so rawResult is the array directly
-          const rows = Array.isArray(rawResult) ? rawResult : [];
-          console.log(`getTrailing12MonthRates: Processing ${rows.length} rate records`);
+          const history = await databaseProvider.historicalRates(
+            { userId: currentUser(res).id }, storeIds, fromDate, toDate
+          );
+          cache = history.cache;
+          console.log(`getTrailing12MonthRates: Processing ${history.records.length} rate records`);
 
           const ratesByStore: Record<number, any[]> = {};
           const datesByStore: Record<number, Set<string>> = {};
 
-          for (const row of rows) {
-            const storeId = row.Store_ID;
+          for (const record of history.records) {
+            const { storeId, walkInPrice, onlinePrice } = record;
 
             if (!ratesByStore[storeId]) {
               ratesByStore[storeId] = [];
               datesByStore[storeId] = new Set();
             }
 
-            const features: string[] = [];
-            if (row.Climate_Controlled) features.push('Climate Controlled');
-            if (row.Humidity_Controlled) features.push('Humidity Controlled');
-            if (row.Drive_Up) features.push('Drive Up');
-            if (row.Elevator) features.push('Elevator');
-            if (row.Outdoor_Access) features.push('Outdoor Access');
-
             ratesByStore[storeId].push({
-              storeId: storeId,
-              storeName: row.Store_Name || '',
-              address: row.Street_Address || '',
-              city: row.City || '',
-              state: row.State || '',
-              zip: row.Zip || '',
-              unitType: row.Spacetype || 'Standard',
-              size: row.Size || '',
-              width: row.Width,
-              length: row.Length,
-              features: features.join(', '),
-              tag: row.Spacetype || 'Standard',
-              climateControlled: !!row.Climate_Controlled,
-              humidityControlled: !!row.Humidity_Controlled,
-              driveUp: !!row.Drive_Up,
-              elevator: !!row.Elevator,
-              outdoorAccess: !!row.Outdoor_Access,
-              walkInPrice: row.Regular_Rate,
-              onlinePrice: row.Online_Rate,
-              pctDifference: row.Regular_Rate && row.Online_Rate
-                ? ((row.Regular_Rate - row.Online_Rate) / row.Regular_Rate) * 100
-                : 0,
-              date: row.Date_Collected || '',
-              promo: row.Promo || '',
-              source: 'Database' as const,
+              ...record,
+              pctDifference: walkInPrice && onlinePrice ? ((walkInPrice - onlinePrice) / walkInPrice) * 100 : 0,
             });
 
-            if (row.Date_Collected) {
-              datesByStore[storeId].add(row.Date_Collected);
+            if (record.date) {
+              datesByStore[storeId].add(record.date);
             }
           }
 
@@ -671,9 +714,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
           if (storeIds.length === 0) {
             throw new Error('storeIds is required for getStoreInfo');
           }
-          const storeIdList = storeIds.map((id: string | number) => `'${id}'`).join(',');
+          const storeIdList = integerList(storeIds);
 
-          const storeSql = `
+          const storeSql = sql`
             SELECT 
               ID as Store_ID,
               Name,
@@ -693,11 +736,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
 
         case 'getSalesforceMatches':
+          markDeprecated(res, '/api/salesforce/matches');
           result = await getSalesforceMetadataByAddress({
             street: params.streetAddress || '',
-            city: '',
-            state: '',
-            postalCode: '',
+            city: params.city || '',
+            state: params.state || '',
+            postalCode: params.postalCode || '',
             storeName: params.storeName,
           });
           break;
@@ -707,37 +751,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
           if (storeIds.length === 0) {
             throw new Error('storeIds is required for getLatestRates');
           }
-          const storeIdList = storeIds.map((id: string | number) => `'${id}'`).join(',');
-          const daysBack = params.daysBack || 7;
+          const daysBack = integer(params.daysBack || 7, { min: 1, max: 3650 });
 
-          const latestRateSql = `
-            SELECT 
-              r.Store_ID,
-              s.Name as Store_Name,
-              s.Street_Address,
-              s.City,
-              s.State,
-              s.Zip,
-              r.Size,
-              r.Width,
-              r.Length,
-              r.Spacetype,
-              r.CC as Climate_Controlled,
-              r.Humidity_Controlled,
-              r.Drive_Up,
-              r.Elevator,
-              r.Outdoor_Access,
-              r.Regular_Rate,
-              r.Online_Rate,
-              r.Promo,
-              r.Date_Collected
-            FROM dbo.Rates r
-            LEFT JOIN dbo.Stores s ON r.Store_ID = s.ID
-            WHERE r.Store_ID IN (${storeIdList})
-            AND r.Date_Collected >= DATEADD(day, -${daysBack}, GETDATE())
-            ORDER BY r.Store_ID, r.Date_Collected DESC, r.Width, r.Length
-          `;
-          result = await universalQuery('Stortrack', latestRateSql);
+          ({ records: result, cache } = await databaseProvider.latestRates(
+            { userId: currentUser(res).id }, storeIds, Number(daysBack.text)
+          ));
           break;
         }
 
@@ -745,10 +763,149 @@ export async function registerRoutes(app: Express): Promise<Server> {
           throw new Error(`Unknown action: ${action}`);
       }
 
-      res.json({ success: true, data: result });
+      res.json({ success: true, data: result, cache });
     } catch (error: unknown) {
       console.error('Database query error:', error);
       const message = error instanceof Error ? error.message : 'Unknown error';
+      const status = error instanceof SqlValidationError ? error.status : 500;
+      res.status(status).json({ success: false, error: message });
+    }
+  });
+
+  app.get("/api/analyses", async (_req, res) => {
+    try {
+      const analyses = await storage.listAnalyses(currentUser(res).id);
+      res.json({ success: true, data: analyses.map(summarizeAnalysis) });
+    } catch (error: unknown) {
+      console.error('List analyses error:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ success: false, error: message });
+    }
+  });
+
+  app.get("/api/analyses/:id", async (req, res) => {
+    try {
+      const analysis = await storage.getAnalysis(Number(req.params.id), currentUser(res).id);
+      if (!analysis) {
+        return res.status(404).json({ success: false, error: 'Analysis not found' });
+      }
+      res.json({ success: true, data: analysis });
+    } catch (error: unknown) {
+      console.error('Get analysis error:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ success: false, error: message });
+    }
+  });
+
+  app.post("/api/analyses", requireRole('analyst'), async (req, res) => {
+    try {
+      const parsed = insertAnalysisSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, error: formatValidationError(parsed.error.issues) });
+      }
+      const userId = currentUser(res).id;
+      const analysis = await storage.createAnalysis(userId, parsed.data);
+      await recordAudit(userId, 'analysis.create', { analysisId: analysis.id, name: analysis.name });
+      res.status(201).json({ success: true, data: analysis });
+    } catch (error: unknown) {
+      console.error('Create analysis error:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ success: false, error: message });
+    }
+  });
+
+  app.put("/api/analyses/:id", requireRole('analyst'), async (req, res) => {
+    try {
+      const parsed = updateAnalysisSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, error: formatValidationError(parsed.error.issues) });
+      }
+      const userId = currentUser(res).id;
+      const analysis = await storage.updateAnalysis(Number(req.params.id), userId, parsed.data);
+      if (!analysis) {
+        return res.status(404).json({ success: false, error: 'Analysis not found' });
+      }
+      await recordAudit(userId, 'analysis.update', { analysisId: analysis.id, name: analysis.name });
+      res.json({ success: true, data: analysis });
+    } catch (error: unknown) {
+      console.error('Update analysis error:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ success: false, error: message });
+    }
+  });
+
+  app.delete("/api/analyses/:id", requireRole('analyst'), async (req, res) => {
+    try {
+      const userId = currentUser(res).id;
+      const deleted = await storage.deleteAnalysis(Number(req.params.id), userId);
+      if (!deleted) {
+        return res.status(404).json({ success: false, error: 'Analysis not found' });
+      }
+      await recordAudit(userId, 'analysis.delete', { analysisId: Number(req.params.id) });
+      res.json({ success: true, data: { id: Number(req.params.id) } });
+    } catch (error: unknown) {
+      console.error('Delete analysis error:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ success: false, error: message });
+    }
+  });
+
+  app.get("/api/feature-code-mappings", async (_req, res) => {
+    try {
+      const mappings = await storage.listFeatureCodeMappings();
+      res.json({ success: true, data: mappings });
+    } catch (error: unknown) {
+      console.error('List feature code mappings error:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ success: false, error: message });
+    }
+  });
+
+  // Promote analyst edits to the shared library; existing tags are overwritten
+  app.put("/api/feature-code-mappings", requireRole('analyst'), async (req, res) => {
+    try {
+      const parsed = upsertFeatureCodeMappingsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, error: formatValidationError(parsed.error.issues) });
+      }
+      const mappings = await storage.upsertFeatureCodeMappings(parsed.data.mappings);
+      await recordAudit(currentUser(res).id, 'featureCodeMappings.save', { mappings: parsed.data.mappings });
+      res.json({ success: true, data: mappings });
+    } catch (error: unknown) {
+      console.error('Save feature code mappings error:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ success: false, error: message });
+    }
+  });
+
+  app.delete("/api/feature-code-mappings/:id", requireRole('analyst'), async (req, res) => {
+    try {
+      const deleted = await storage.deleteFeatureCodeMapping(Number(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ success: false, error: 'Mapping not found' });
+      }
+      await recordAudit(currentUser(res).id, 'featureCodeMappings.delete', { id: Number(req.params.id) });
+      res.json({ success: true, data: { id: Number(req.params.id) } });
+    } catch (error: unknown) {
+      console.error('Delete feature code mapping error:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ success: false, error: message });
+    }
+  });
+
+  // Drop every cached month for a store so the next analysis refetches its history
+  app.delete("/api/admin/rate-cache/:storeId", requireRole('admin'), async (req, res) => {
+    try {
+      const storeId = Number(req.params.storeId);
+      if (!Number.isInteger(storeId) || storeId < 1) {
+        return res.status(400).json({ success: false, error: 'Invalid store ID' });
+      }
+      const removed = await invalidateStoreRates(storeId);
+      await recordAudit(currentUser(res).id, 'rateCache.invalidate', { storeId, removed });
+      res.json({ success: true, data: { storeId, removed } });
+    } catch (error: unknown) {
+      console.error('Invalidate rate cache error:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
       res.status(500).json({ success: false, error: message });
     }
   });
@@ -0,0 +1,388 @@
+import { sql, containsPattern } from "./sql";
+import { universalQuery } from "./mcp";
+import { numberFromEnv } from "./spend";
+import { cityKey, stateCode, standardizeStreet, zip5 } from "./address";
+import { haversineMiles, type Coordinates } from "@shared/geo";
+import { toCoordinates } from "./geo";
+import type { ApiSalesforceMatch } from "@shared/api";
+
+// Salesforce_rawData (Sites database) holds year built and net rentable square
+// feet per facility. It has no usable location columns, so the whole table is
+// loaded once, indexed by street number, ZIP and state, and every match only
+// scores the records that share one of those keys with the store.
+
+// How long a loaded index is reused before Salesforce_rawData is read again
+const SALESFORCE_INDEX_TTL_MS = numberFromEnv("SALESFORCE_INDEX_TTL_MINUTES", 60) * 60 * 1000;
+
+// Most matches returned per store
+const MAX_MATCHES = 10;
+
+// Multipliers on the name/street score when the record's location disagrees with
+// the store's. A different state removes the record outright; a ZIP can be off
+// by a neighbouring code in either system, so it costs less when the first three
+// digits (the sorting region) still agree.
+const ZIP_MISMATCH_FACTOR = 0.5;
+const ZIP_REGION_FACTOR = 0.8;
+const CITY_MISMATCH_FACTOR = 0.8;
+// City names this similar count as the same city ("Ft Worth" / "Fort Worth")
+const CITY_MATCH_THRESHOLD = 0.8;
+
+// Where both the store and the record carry coordinates, closeness is a fifth of
+// the score: full marks at the same spot, nothing from DISTANCE_SCALE_MILES away.
+// It mostly settles near-ties between records on the same street.
+const DISTANCE_WEIGHT = 0.2;
+const DISTANCE_SCALE_MILES = 0.5;
+
+export interface SalesforceRecord {
+  Id?: unknown;
+  Name: string;
+  Year_Built__c: unknown;
+  Net_RSF__c: unknown;
+  ShippingAddress: unknown;
+}
+
+export interface SalesforceMatchTarget {
+  street: string;
+  city: string;
+  state: string;
+  postalCode: string;
+  storeName?: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+// Per-component scores are kept so the UI can explain a ranking. City and ZIP
+// scores are null, and stateMatch is null, when either side doesn't have one;
+// likewise the distance when either side has no coordinates.
+export interface ScoredSalesforceMatch extends SalesforceRecord {
+  nameScore: number;
+  addressScore: number;
+  cityScore: number | null;
+  zipScore: number | null;
+  stateMatch: boolean | null;
+  distanceMiles: number | null;
+  distanceScore: number | null;
+  locationFactor: number;
+  combinedScore: number;
+  parsedStoreName: string;
+  parsedAddress: string;
+  parsedCity: string;
+  parsedState: string;
+  parsedPostalCode: string;
+}
+
+// A record with everything matching needs worked out once, at index time
+interface IndexedRecord {
+  record: SalesforceRecord;
+  name: string;
+  brand: string;
+  street: string;
+  // House number and USPS-standardized street, without any suite or unit
+  normalizedStreet: string;
+  streetNumber: string | null;
+  city: string | null;
+  zip: string | null;
+  state: string | null;
+  // From ShippingAddress when Salesforce geocoded it
+  coordinates: Coordinates | null;
+  // As written in ShippingAddress, for display
+  shipping: { city: string; state: string; postalCode: string };
+}
+
+export interface SalesforceIndex {
+  entries: IndexedRecord[];
+  byStreetNumber: Map<string, IndexedRecord[]>;
+  byZip: Map<string, IndexedRecord[]>;
+  byState: Map<string, IndexedRecord[]>;
+}
+
+export function parsePythonDict(dictStr: string): Record<string, unknown> | null {
+  if (!dictStr || typeof dictStr !== 'string') return null;
+
+  try {
+    return JSON.parse(dictStr);
+  } catch {
+    try {
+      const jsonString = dictStr
+        .replace(/'/g, '"')
+        .replace(/None/g, 'null')
+        .replace(/True/g, 'true')
+        .replace(/False/g, 'false');
+      return JSON.parse(jsonString);
+    } catch {
+      return null;
+    }
+  }
+}
+
+export function fuzzyMatchScore(str1: string, str2: string): number {
+  if (!str1 || !str2) return 0;
+
+  const s1 = str1.toLowerCase().trim();
+  const s2 = str2.toLowerCase().trim();
+
+  if (s1 === s2) return 1;
+
+  const longer = s1.length > s2.length ? s1 : s2;
+  const shorter = s1.length > s2.length ? s2 : s1;
+
+  if (longer.length === 0) return 1;
+
+  if (longer.includes(shorter)) {
+    return shorter.length / longer.length;
+  }
+
+  const costs: number[] = [];
+  for (let i = 0; i <= s1.length; i++) {
+    let lastValue = i;
+    for (let j = 0; j <= s2.length; j++) {
+      if (i === 0) {
+        costs[j] = j;
+      } else if (j > 0) {
+        let newValue = costs[j - 1];
+        if (s1.charAt(i - 1) !== s2.charAt(j - 1)) {
+          newValue = Math.min(Math.min(newValue, lastValue), costs[j]) + 1;
+        }
+        costs[j - 1] = lastValue;
+        lastValue = newValue;
+      }
+    }
+    if (i > 0) costs[s2.length] = lastValue;
+  }
+
+  return (longer.length - costs[s2.length]) / longer.length;
+}
+
+// The house number and standardized street, compared without units
+function streetParts(street: string) {
+  const { number, street: standardStreet } = standardizeStreet(street);
+  return { streetNumber: number, normalizedStreet: [number, standardStreet].filter(Boolean).join(' ').toLowerCase() };
+}
+
+// Records without a street, in ShippingAddress or after the " - " in their name, can't be matched
+function indexRecord(record: SalesforceRecord): IndexedRecord | null {
+  const name = String(record.Name || '');
+  const brand = name.includes(' - ') ? name.split(' - ')[0].trim() : name;
+  const shippingAddress = parsePythonDict(record.ShippingAddress as string);
+
+  let street = '';
+  if (typeof shippingAddress?.street === 'string' && shippingAddress.street) {
+    street = shippingAddress.street;
+  } else if (name.includes(' - ')) {
+    const nameParts = name.split(' - ');
+    if (nameParts.length >= 2) {
+      const potentialAddress = nameParts[1].trim();
+      if (/\d+/.test(potentialAddress) ||
+          /(st|ave|rd|blvd|dr|way|lane|court)/i.test(potentialAddress)) {
+        street = potentialAddress;
+      }
+    }
+  }
+  if (!street) return null;
+
+  return {
+    record,
+    name,
+    brand,
+    street,
+    ...streetParts(street),
+    city: cityKey(shippingAddress?.city),
+    zip: zip5(shippingAddress?.postalCode),
+    state: stateCode(shippingAddress?.state),
+    coordinates: toCoordinates(shippingAddress?.latitude, shippingAddress?.longitude),
+    shipping: {
+      city: String(shippingAddress?.city ?? ''),
+      state: String(shippingAddress?.state ?? ''),
+      postalCode: String(shippingAddress?.postalCode ?? ''),
+    },
+  };
+}
+
+function addTo(map: Map<string, IndexedRecord[]>, key: string | null, entry: IndexedRecord) {
+  if (!key) return;
+  const bucket = map.get(key);
+  if (bucket) bucket.push(entry);
+  else map.set(key, [entry]);
+}
+
+export function buildSalesforceIndex(records: SalesforceRecord[]): SalesforceIndex {
+  const index: SalesforceIndex = { entries: [], byStreetNumber: new Map(), byZip: new Map(), byState: new Map() };
+  for (const record of records) {
+    const entry = indexRecord(record);
+    if (!entry) continue;
+    index.entries.push(entry);
+    addTo(index.byStreetNumber, entry.streetNumber, entry);
+    addTo(index.byZip, entry.zip, entry);
+    addTo(index.byState, entry.state, entry);
+  }
+  return index;
+}
+
+/**
+ * Records sharing the store's street number or ZIP. A store with neither falls
+ * back to its state, and one with no location at all to every record.
+ */
+export function candidatesFor(index: SalesforceIndex, target: SalesforceMatchTarget): IndexedRecord[] {
+  const { streetNumber } = streetParts(target.street);
+  const zip = zip5(target.postalCode);
+  if (streetNumber || zip) {
+    const candidates = new Set([
+      ...(streetNumber ? index.byStreetNumber.get(streetNumber) ?? [] : []),
+      ...(zip ? index.byZip.get(zip) ?? [] : []),
+    ]);
+    return Array.from(candidates);
+  }
+  const state = stateCode(target.state);
+  return state ? index.byState.get(state) ?? [] : index.entries;
+}
+
+// How the record's city, state and ZIP compare with the store's
+function locationScores(entry: IndexedRecord, target: { city: string | null; state: string | null; zip: string | null }) {
+  const stateMatch = target.state && entry.state ? target.state === entry.state : null;
+  const cityScore = target.city && entry.city ? fuzzyMatchScore(target.city, entry.city) : null;
+  let zipScore: number | null = null;
+  if (target.zip && entry.zip) {
+    zipScore = target.zip === entry.zip ? 1 : target.zip.slice(0, 3) === entry.zip.slice(0, 3) ? 0.5 : 0;
+  }
+
+  let locationFactor = 1;
+  if (zipScore === 0) locationFactor *= ZIP_MISMATCH_FACTOR;
+  if (zipScore === 0.5) locationFactor *= ZIP_REGION_FACTOR;
+  if (cityScore !== null && cityScore < CITY_MATCH_THRESHOLD) locationFactor *= CITY_MISMATCH_FACTOR;
+
+  return { stateMatch, cityScore, zipScore, locationFactor };
+}
+
+function distanceScores(entry: IndexedRecord, target: Coordinates | null) {
+  if (!target || !entry.coordinates) return { distanceMiles: null, distanceScore: null };
+  const distanceMiles = haversineMiles(target, entry.coordinates);
+  return { distanceMiles, distanceScore: Math.max(0, 1 - distanceMiles / DISTANCE_SCALE_MILES) };
+}
+
+/**
+ * Name counts for 40% and street for 60%, blended with distance when both sides
+ * have coordinates, then scaled down by locationFactor when the city or ZIP
+ * disagree. Records in another state are dropped, as are weak matches.
+ */
+export function scoreCandidates(candidates: IndexedRecord[], target: SalesforceMatchTarget): ScoredSalesforceMatch[] {
+  const targetStreet = streetParts(target.street).normalizedStreet;
+  const targetStoreName = (target.storeName || '').toLowerCase().trim();
+  const targetLocation = { city: cityKey(target.city), state: stateCode(target.state), zip: zip5(target.postalCode) };
+  const targetCoordinates = toCoordinates(target.latitude, target.longitude);
+
+  const scoredMatches: ScoredSalesforceMatch[] = [];
+  for (const entry of candidates) {
+    const location = locationScores(entry, targetLocation);
+    if (location.stateMatch === false) continue;
+
+    const nameScoreFull = fuzzyMatchScore(targetStoreName, entry.name.toLowerCase());
+    const nameScoreBrand = fuzzyMatchScore(targetStoreName, entry.brand.toLowerCase());
+    const nameScore = Math.max(nameScoreFull, nameScoreBrand);
+    const addressScore = fuzzyMatchScore(targetStreet, entry.normalizedStreet);
+    const distance = distanceScores(entry, targetCoordinates);
+    let textScore = (nameScore * 0.4) + (addressScore * 0.6);
+    if (distance.distanceScore !== null) {
+      textScore = textScore * (1 - DISTANCE_WEIGHT) + distance.distanceScore * DISTANCE_WEIGHT;
+    }
+    const combinedScore = textScore * location.locationFactor;
+
+    if (combinedScore > 0.3 || addressScore > 0.5) {
+      scoredMatches.push({
+        Id: entry.record.Id,
+        Name: entry.name,
+        Year_Built__c: entry.record.Year_Built__c,
+        Net_RSF__c: entry.record.Net_RSF__c,
+        ShippingAddress: entry.record.ShippingAddress,
+        nameScore,
+        addressScore,
+        ...location,
+        ...distance,
+        combinedScore,
+        parsedStoreName: entry.brand,
+        parsedAddress: entry.street,
+        parsedCity: entry.shipping.city,
+        parsedState: entry.shipping.state,
+        parsedPostalCode: entry.shipping.postalCode,
+      });
+    }
+  }
+
+  scoredMatches.sort((a, b) => b.combinedScore - a.combinedScore);
+  return scoredMatches.slice(0, MAX_MATCHES);
+}
+
+export function matchSalesforceRecords(index: SalesforceIndex, target: SalesforceMatchTarget): ScoredSalesforceMatch[] {
+  return scoreCandidates(candidatesFor(index, target), target);
+}
+
+async function querySalesforceRecords(): Promise<SalesforceRecord[]> {
+  const query = sql`
+    SELECT Id, Name, Year_Built__c, Net_RSF__c, ShippingAddress
+    FROM dbo.Salesforce_rawData
+    WHERE (Net_RSF__c IS NOT NULL OR Year_Built__c IS NOT NULL)
+      AND Name IS NOT NULL
+  `;
+  const results = await universalQuery('Sites', query);
+  return Array.isArray(results) ? results : [];
+}
+
+let loadedIndex: { index: SalesforceIndex; loadedAt: number } | null = null;
+let pendingIndex: Promise<SalesforceIndex> | null = null;
+
+// Concurrent callers share one load; a failed load isn't kept, so the next call retries
+export async function loadSalesforceIndex(): Promise<SalesforceIndex> {
+  if (loadedIndex && Date.now() - loadedIndex.loadedAt < SALESFORCE_INDEX_TTL_MS) {
+    return loadedIndex.index;
+  }
+  if (!pendingIndex) {
+    pendingIndex = querySalesforceRecords()
+      .then((records) => {
+        const index = buildSalesforceIndex(records);
+        console.log(`Indexed ${index.entries.length} of ${records.length} Salesforce_rawData records`);
+        loadedIndex = { index, loadedAt: Date.now() };
+        return index;
+      })
+      .finally(() => {
+        pendingIndex = null;
+      });
+  }
+  return pendingIndex;
+}
+
+export async function getSalesforceMetadataByAddress(target: SalesforceMatchTarget) {
+  return matchSalesforceRecords(await loadSalesforceIndex(), target);
+}
+
+// One index load for every store, answers in the order asked
+export async function getSalesforceMetadataForStores(targets: SalesforceMatchTarget[]) {
+  const index = await loadSalesforceIndex();
+  return targets.map((target) => matchSalesforceRecords(index, target));
+}
+
+type SalesforceByNameRecord = Pick<ApiSalesforceMatch, 'Name' | 'Year_Built__c' | 'Net_RSF__c' | 'ShippingAddress'>;
+
+export async function getSalesforceByName(storeName: string): Promise<SalesforceByNameRecord[]> {
+  console.log('Querying Salesforce_rawData by name:', storeName);
+
+  const query = sql`
+    SELECT TOP 5 Name, Year_Built__c, Net_RSF__c, ShippingAddress
+    FROM dbo.Salesforce_rawData
+    WHERE Name LIKE ${containsPattern(storeName || '')}
+      AND (Year_Built__c IS NOT NULL OR Net_RSF__c IS NOT NULL)
+  `;
+
+  const results = await universalQuery('Sites', query);
+
+  if (!results || !Array.isArray(results) || results.length === 0) {
+    console.log('No results from Salesforce_rawData by name');
+    return [];
+  }
+
+  console.log(`Found ${results.length} records matching name`);
+  return results.map((record: SalesforceByNameRecord) => ({
+    Year_Built__c: record.Year_Built__c,
+    Net_RSF__c: record.Net_RSF__c,
+    Name: record.Name,
+    ShippingAddress: record.ShippingAddress,
+  }));
+}
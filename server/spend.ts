@@ -0,0 +1,123 @@
+import type { InsertStortrackCall, StortrackCall } from "@shared/schema";
+import { storage } from "./storage";
+
+export function numberFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+// StorTrack bills historical pulls per store per calendar year
+export const API_COST_PER_STORE_YEAR = numberFromEnv("STORTRACK_COST_PER_STORE_YEAR", 12.5);
+
+// Store searches and competitor lookups; free under the current contract
+export const API_COST_PER_LOOKUP = numberFromEnv("STORTRACK_COST_PER_LOOKUP", 0);
+
+// Dollars per calendar month (UTC) across all users; 0 disables the limit
+export const STORTRACK_MONTHLY_BUDGET = numberFromEnv("STORTRACK_MONTHLY_BUDGET", 0);
+
+// Refused before the call is made: the month's recorded spend plus this call would exceed the budget
+export class BudgetExceededError extends Error {
+  readonly status = 402;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "BudgetExceededError";
+  }
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+const formatDollars = (value: number) => `$${value.toFixed(2)}`;
+
+export const monthOf = (date: Date) => date.toISOString().slice(0, 7);
+
+function monthBounds(month: string): { start: Date; end: Date } {
+  const [year, mon] = month.split("-").map(Number);
+  return { start: new Date(Date.UTC(year, mon - 1, 1)), end: new Date(Date.UTC(year, mon, 1)) };
+}
+
+// "City, ST" from a StorTrack store object or search params, when both parts are present
+export function marketOf(source: unknown): string | null {
+  if (!source || typeof source !== "object") return null;
+  const { city, state } = source as { city?: unknown; state?: unknown };
+  if (typeof city !== "string" || typeof state !== "string" || !city.trim() || !state.trim()) return null;
+  return `${city.trim()}, ${state.trim().toUpperCase()}`;
+}
+
+export async function monthToDateSpend(now = new Date()): Promise<number> {
+  const { start, end } = monthBounds(monthOf(now));
+  const calls = await storage.listStortrackCalls(start, end);
+  return roundCents(calls.reduce((sum, call) => sum + call.estimatedCost, 0));
+}
+
+export async function assertWithinBudget(estimatedCost: number) {
+  if (STORTRACK_MONTHLY_BUDGET <= 0 || estimatedCost <= 0) return;
+  const spent = await monthToDateSpend();
+  if (spent + estimatedCost > STORTRACK_MONTHLY_BUDGET) {
+    throw new BudgetExceededError(
+      `Monthly StorTrack budget of ${formatDollars(STORTRACK_MONTHLY_BUDGET)} would be exceeded: ` +
+      `${formatDollars(spent)} spent in ${monthOf(new Date())}, this call would add ${formatDollars(estimatedCost)}`
+    );
+  }
+}
+
+// The call already happened, so a ledger failure is logged rather than failing the request
+export async function recordSpend(call: InsertStortrackCall) {
+  try {
+    await storage.recordStortrackCall({ ...call, estimatedCost: roundCents(call.estimatedCost) });
+  } catch (error: unknown) {
+    console.error('StorTrack spend ledger error:', error);
+  }
+}
+
+export interface SpendGroup {
+  key: string;
+  label: string;
+  calls: number;
+  cost: number;
+}
+
+export interface SpendReport {
+  from: string;
+  to: string;
+  total: SpendGroup;
+  byUser: SpendGroup[];
+  byMonth: SpendGroup[];
+  byMarket: SpendGroup[];
+  budget: { monthlyBudget: number; month: string; spent: number };
+}
+
+function groupCalls(
+  calls: StortrackCall[],
+  keyOf: (call: StortrackCall) => string,
+  labelOf: (key: string) => string = (key) => key
+): SpendGroup[] {
+  const groups = new Map<string, SpendGroup>();
+  for (const call of calls) {
+    const key = keyOf(call);
+    const group = groups.get(key) ?? { key, label: labelOf(key), calls: 0, cost: 0 };
+    group.calls++;
+    group.cost = roundCents(group.cost + call.estimatedCost);
+    groups.set(key, group);
+  }
+  return Array.from(groups.values()).sort((a, b) => b.cost - a.cost || b.calls - a.calls);
+}
+
+const UNKNOWN_MARKET = "Unknown market";
+
+/** Spend between two months inclusive (YYYY-MM), grouped three ways. */
+export async function buildSpendReport(from: string, to: string): Promise<SpendReport> {
+  const calls = await storage.listStortrackCalls(monthBounds(from).start, monthBounds(to).end);
+  const usernames = new Map((await storage.listUsers()).map((user) => [String(user.id), user.username]));
+  const currentMonth = monthOf(new Date());
+
+  return {
+    from,
+    to,
+    total: groupCalls(calls, () => "total")[0] ?? { key: "total", label: "total", calls: 0, cost: 0 },
+    byUser: groupCalls(calls, (call) => String(call.userId), (key) => usernames.get(key) ?? `User ${key}`),
+    byMonth: groupCalls(calls, (call) => monthOf(call.createdAt)).sort((a, b) => a.key.localeCompare(b.key)),
+    byMarket: groupCalls(calls, (call) => call.market ?? UNKNOWN_MARKET),
+    budget: { monthlyBudget: STORTRACK_MONTHLY_BUDGET, month: currentMonth, spent: await monthToDateSpend() },
+  };
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { SqlValidationError, buildTableQuery, containsPattern, identifier, integerList, sql } from "./sql";
+
+const INJECTION = "'; DROP TABLE Stores --";
+
+describe("sql", () => {
+  it("renders strings as escaped N'' literals", () => {
+    expect(sql`SELECT * FROM dbo.Stores WHERE Name = ${INJECTION}`.text).toBe(
+      "SELECT * FROM dbo.Stores WHERE Name = N'''; DROP TABLE Stores --'"
+    );
+  });
+
+  it("leaves LIKE wildcards and brackets alone in plain equality", () => {
+    expect(sql`Name = ${"50% off [_]"}`.text).toBe("Name = N'50% off [_]'");
+  });
+
+  it("renders numbers, booleans, null and arrays as literals", () => {
+    expect(sql`${1} ${2.5} ${true} ${false} ${null} IN (${[1, "a'b"]})`.text).toBe("1 2.5 1 0 NULL IN (1, N'a''b')");
+  });
+
+  it("inserts nested fragments verbatim", () => {
+    expect(sql`WHERE ${sql`ID = ${7}`}`.text).toBe("WHERE ID = 7");
+  });
+
+  it("rejects values that can't be rendered safely", () => {
+    expect(() => sql`${NaN}`).toThrow(SqlValidationError);
+    expect(() => sql`${Infinity}`).toThrow("Invalid numeric value: Infinity");
+    expect(() => sql`${"a\0b"}`).toThrow("String values may not contain NUL characters");
+    expect(() => sql`IN (${[]})`).toThrow("Value lists may not be empty");
+  });
+});
+
+describe("containsPattern", () => {
+  it.each([
+    ["%", "N'%[%]%'"],
+    ["_", "N'%[_]%'"],
+    ["[", "N'%[[]%'"],
+    ["]", "N'%]%'"],
+    ["50%_[off]", "N'%50[%][_][[]off]%'"],
+    [INJECTION, "N'%''; DROP TABLE Stores --%'"],
+  ])("escapes %j", (value, expected) => {
+    expect(containsPattern(value).text).toBe(expected);
+  });
+});
+
+describe("integerList", () => {
+  it("renders integers and integer strings", () => {
+    expect(integerList([1001, "1002", " 1003 "]).text).toBe("1001, 1002, 1003");
+  });
+
+  it.each([
+    ["1; DROP TABLE Stores", "Invalid integer: 1; DROP TABLE Stores"],
+    ["1 OR 1=1", "Invalid integer: 1 OR 1=1"],
+    [1.5, "Invalid integer: 1.5"],
+    ["", "Invalid integer: "],
+    [null, "Invalid integer: null"],
+    [NaN, "Invalid integer: NaN"],
+  ])("rejects %j", (value, message) => {
+    expect(() => integerList([1001, value])).toThrow(new SqlValidationError(message));
+  });
+
+  it("rejects an empty list", () => {
+    expect(() => integerList([])).toThrow(new SqlValidationError("At least one ID is required"));
+  });
+});
+
+describe("identifier", () => {
+  it("bracket-quotes each part", () => {
+    expect(identifier("dbo.Rates").text).toBe("[dbo].[Rates]");
+  });
+
+  it.each(["Stores]; DROP TABLE Rates --", "Stores; --", "[Stores]", "a.b.c.d"])("rejects %j", (name) => {
+    expect(() => identifier(name)).toThrow(new SqlValidationError(`Invalid identifier: ${name}`));
+  });
+});
+
+describe("buildTableQuery", () => {
+  it("builds a whitelisted query with escaped filters", () => {
+    const { database, query } = buildTableQuery({
+      database: "Stortrack",
+      table: "Stores",
+      filters: { Name: INJECTION, State: "TX", Latitude: null },
+      limit: 10,
+    });
+    expect(database).toBe("Stortrack");
+    expect(query.text).toBe(
+      "SELECT TOP 10 * FROM [dbo].[Stores] WHERE [Name] = N'''; DROP TABLE Stores --' AND [State] = N'TX' AND [Latitude] IS NULL"
+    );
+  });
+
+  it("defaults the limit to 1000", () => {
+    expect(buildTableQuery({ database: "Sites", table: "Salesforce_rawData" }).query.text).toBe(
+      "SELECT TOP 1000 * FROM [dbo].[Salesforce_rawData]"
+    );
+  });
+
+  it.each([
+    [{ database: "master", table: "Stores" }, "Database not allowed: master"],
+    [{ database: "Stortrack; DROP DATABASE Sites", table: "Stores" }, "Database not allowed: Stortrack; DROP DATABASE Sites"],
+    [{ database: "Stortrack", table: "Users" }, "Table not allowed: Users"],
+    [{ database: "Stortrack", table: "Stores]; DROP TABLE Rates --" }, "Table not allowed: Stores]; DROP TABLE Rates --"],
+    [{ database: "Stortrack", table: "__proto__" }, "Table not allowed: __proto__"],
+    [{ database: "Sites", table: "Stores" }, "Table not allowed: Stores"],
+    [{ database: "Stortrack", table: "Stores", filters: { "Name] = 1; --": "x" } }, "Column not allowed: Name] = 1; --"],
+    [{ database: "Stortrack", table: "Stores", filters: { Name: { $ne: "" } } }, "Invalid filter value for Name"],
+    [{ database: "Stortrack", table: "Stores", limit: "10; DROP TABLE Stores" }, "Invalid integer: 10; DROP TABLE Stores"],
+    [{ database: "Stortrack", table: "Stores", limit: 10000 }, "Invalid integer: 10000"],
+  ])("rejects %j", (params, message) => {
+    expect(() => buildTableQuery(params)).toThrow(new SqlValidationError(message));
+  });
+});
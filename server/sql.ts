@@ -0,0 +1,197 @@
+// Safe T-SQL construction for the MCP universal query endpoint.
+//
+// The MCP `/query/universal` contract only accepts a finished query string, so
+// values cannot be sent as bound parameters. Instead every value interpolated
+// through the `sql` tag is rendered as a validated literal, and identifiers are
+// only accepted from the whitelist below.
+
+export class SqlValidationError extends Error {
+  status = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'SqlValidationError';
+  }
+}
+
+// Databases, tables and columns the browser is allowed to reach through queryDatabase
+export const QUERYABLE_TABLES = {
+  Sites: {
+    Salesforce_rawData: ['Id', 'Name', 'Year_Built__c', 'Net_RSF__c', 'ShippingAddress'],
+  },
+  Stortrack: {
+    Stores: ['ID', 'Name', 'Street_Address', 'City', 'State', 'Zip', 'Country', 'Phone', 'Latitude', 'Longitude'],
+    Rates: [
+      'Store_ID',
+      'Size',
+      'Width',
+      'Length',
+      'Spacetype',
+      'CC',
+      'Humidity_Controlled',
+      'Drive_Up',
+      'Elevator',
+      'Outdoor_Access',
+      'Regular_Rate',
+      'Online_Rate',
+      'Promo',
+      'Date_Collected',
+    ],
+  },
+} as const satisfies Record<string, Record<string, readonly string[]>>;
+
+export type QueryableDatabase = keyof typeof QUERYABLE_TABLES;
+
+const SQL_FRAGMENT = Symbol('SqlFragment');
+
+export interface SqlFragment {
+  readonly [SQL_FRAGMENT]: true;
+  readonly text: string;
+}
+
+export type SqlValue = string | number | boolean | null | Date | SqlFragment | readonly SqlValue[];
+
+const fragment = (text: string): SqlFragment => ({ [SQL_FRAGMENT]: true, text });
+
+export function isSqlFragment(value: unknown): value is SqlFragment {
+  return typeof value === 'object' && value !== null && SQL_FRAGMENT in value;
+}
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function stringLiteral(value: string): string {
+  if (value.includes('\0')) {
+    throw new SqlValidationError('String values may not contain NUL characters');
+  }
+  return `N'${value.replace(/'/g, "''")}'`;
+}
+
+export function numberLiteral(value: number): string {
+  if (!Number.isFinite(value)) {
+    throw new SqlValidationError(`Invalid numeric value: ${value}`);
+  }
+  return String(value);
+}
+
+export function dateLiteral(value: Date | string): string {
+  const iso = value instanceof Date ? value.toISOString().slice(0, 10) : value;
+  if (!ISO_DATE_PATTERN.test(iso) || isNaN(Date.parse(`${iso}T00:00:00Z`))) {
+    throw new SqlValidationError(`Invalid date: ${String(value)} (expected YYYY-MM-DD)`);
+  }
+  return `'${iso}'`;
+}
+
+function renderValue(value: SqlValue): string {
+  if (isSqlFragment(value)) return value.text;
+  if (value === null) return 'NULL';
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      throw new SqlValidationError('Value lists may not be empty');
+    }
+    return value.map(renderValue).join(', ');
+  }
+  if (value instanceof Date) return dateLiteral(value);
+  if (typeof value === 'number') return numberLiteral(value);
+  if (typeof value === 'boolean') return value ? '1' : '0';
+  if (typeof value === 'string') return stringLiteral(value);
+  throw new SqlValidationError(`Unsupported SQL value type: ${typeof value}`);
+}
+
+/**
+ * Tagged template for T-SQL. Interpolated values become escaped literals;
+ * arrays become comma-separated literal lists (for IN); nested `sql`,
+ * `identifier` and `date` fragments are inserted verbatim.
+ */
+export function sql(strings: TemplateStringsArray, ...values: SqlValue[]): SqlFragment {
+  let text = strings[0];
+  values.forEach((value, i) => {
+    text += renderValue(value) + strings[i + 1];
+  });
+  return fragment(text);
+}
+
+// Bracket-quoted identifier, optionally schema/table qualified ("dbo.Rates")
+export function identifier(name: string): SqlFragment {
+  const parts = name.split('.');
+  if (parts.length > 3 || !parts.every((part) => IDENTIFIER_PATTERN.test(part))) {
+    throw new SqlValidationError(`Invalid identifier: ${name}`);
+  }
+  return fragment(parts.map((part) => `[${part}]`).join('.'));
+}
+
+export function date(value: Date | string): SqlFragment {
+  return fragment(dateLiteral(value));
+}
+
+export function integer(value: unknown, { min = -Infinity, max = Infinity } = {}): SqlFragment {
+  const num = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof num !== 'number' || !Number.isInteger(num) || num < min || num > max) {
+    throw new SqlValidationError(`Invalid integer: ${String(value)}`);
+  }
+  return fragment(String(num));
+}
+
+export function integerList(values: unknown[]): SqlFragment {
+  if (!Array.isArray(values) || values.length === 0) {
+    throw new SqlValidationError('At least one ID is required');
+  }
+  return fragment(values.map((value) => integer(value).text).join(', '));
+}
+
+// LIKE pattern with %, _ and [ in the user's text escaped so they match literally
+export function containsPattern(value: string): SqlFragment {
+  const escaped = value.replace(/[[%_]/g, (ch) => `[${ch}]`);
+  return fragment(stringLiteral(`%${escaped}%`));
+}
+
+export function joinSql(parts: SqlFragment[], separator: string): SqlFragment {
+  return fragment(parts.map((part) => part.text).join(separator));
+}
+
+export function assertQueryableDatabase(database: unknown): QueryableDatabase {
+  if (typeof database !== 'string' || !Object.prototype.hasOwnProperty.call(QUERYABLE_TABLES, database)) {
+    throw new SqlValidationError(`Database not allowed: ${String(database)}`);
+  }
+  return database as QueryableDatabase;
+}
+
+/**
+ * SELECT TOP n * FROM a whitelisted table with equality filters on whitelisted
+ * columns. Backs the browser-facing `queryDatabase` action.
+ */
+export function buildTableQuery(params: {
+  database: unknown;
+  table: unknown;
+  filters?: Record<string, unknown>;
+  limit?: unknown;
+}): { database: QueryableDatabase; query: SqlFragment } {
+  const database = assertQueryableDatabase(params.database);
+  const tables: Record<string, readonly string[]> = QUERYABLE_TABLES[database];
+
+  if (typeof params.table !== 'string' || !Object.prototype.hasOwnProperty.call(tables, params.table)) {
+    throw new SqlValidationError(`Table not allowed: ${String(params.table)}`);
+  }
+  const columns = tables[params.table];
+
+  const limit = integer(params.limit ?? 1000, { min: 1, max: 5000 });
+  let query = sql`SELECT TOP ${limit} * FROM ${identifier(`dbo.${params.table}`)}`;
+
+  const filters = Object.entries(params.filters || {});
+  if (filters.length > 0) {
+    const clauses = filters.map(([key, value]) => {
+      if (!columns.includes(key)) {
+        throw new SqlValidationError(`Column not allowed: ${key}`);
+      }
+      if (value !== null && !['string', 'number', 'boolean'].includes(typeof value)) {
+        throw new SqlValidationError(`Invalid filter value for ${key}`);
+      }
+      return value === null
+        ? sql`${identifier(key)} IS NULL`
+        : sql`${identifier(key)} = ${value as string | number | boolean}`;
+    });
+    query = sql`${query} WHERE ${joinSql(clauses, ' AND ')}`;
+  }
+
+  return { database, query };
+}
@@ -1,18 +1,153 @@
-import type { User, InsertUser } from "@shared/schema";
+import { and, desc, eq, gte, inArray, lt, or, sql } from "drizzle-orm";
+import {
+  users,
+  sessions,
+  analyses,
+  rateCacheEntries,
+  featureCodeMappings,
+  auditEntries,
+  backfillRequests,
+  backfillPulls,
+  stortrackCalls,
+  pullJobs,
+  salesforceStoreLinks,
+  type User,
+  type UserRole,
+  type InsertUser,
+  type Session,
+  type InsertSession,
+  type Analysis,
+  type InsertAnalysis,
+  type UpdateAnalysis,
+  type RateCacheEntry,
+  type InsertRateCacheEntry,
+  type FeatureCodeMapping,
+  type InsertFeatureCodeMapping,
+  type AuditEntry,
+  type InsertAuditEntry,
+  type BackfillRequest,
+  type InsertBackfillRequest,
+  type BackfillStatus,
+  type BackfillPull,
+  type StortrackCall,
+  type InsertStortrackCall,
+  type PullJob,
+  type InsertPullJob,
+  type PullJobStatus,
+  type SalesforceStoreLink,
+  type InsertSalesforceStoreLink,
+} from "@shared/schema";
+import { db, hasDatabase } from "./db";
 
 export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  listUsers(): Promise<User[]>;
+  updateUserRole(id: number, role: UserRole): Promise<User | undefined>;
+
+  createSession(session: InsertSession): Promise<Session>;
+  getSession(id: string): Promise<Session | undefined>;
+  deleteSession(id: string): Promise<boolean>;
+
+  // Analyses belong to the user who created them; other users' IDs read as not found
+  listAnalyses(userId: number): Promise<Analysis[]>;
+  getAnalysis(id: number, userId: number): Promise<Analysis | undefined>;
+  createAnalysis(userId: number, analysis: InsertAnalysis): Promise<Analysis>;
+  updateAnalysis(id: number, userId: number, analysis: UpdateAnalysis): Promise<Analysis | undefined>;
+  deleteAnalysis(id: number, userId: number): Promise<boolean>;
+
+  getRateCacheEntries(source: string, storeIds: number[], months: string[]): Promise<RateCacheEntry[]>;
+  upsertRateCacheEntries(entries: InsertRateCacheEntry[]): Promise<void>;
+  invalidateRateCache(storeId: number): Promise<number>;
+
+  listFeatureCodeMappings(): Promise<FeatureCodeMapping[]>;
+  upsertFeatureCodeMappings(mappings: InsertFeatureCodeMapping[]): Promise<FeatureCodeMapping[]>;
+  deleteFeatureCodeMapping(id: number): Promise<boolean>;
+
+  createAuditEntry(entry: InsertAuditEntry): Promise<AuditEntry>;
+  listAuditEntries(userId: number, limit: number): Promise<AuditEntry[]>;
+
+  createBackfillRequest(request: InsertBackfillRequest): Promise<BackfillRequest>;
+  getBackfillRequest(id: number): Promise<BackfillRequest | undefined>;
+  listBackfillRequests(filter: { status?: BackfillStatus; requestedBy?: number }): Promise<BackfillRequest[]>;
+  // Only pending requests can be decided; anything else returns undefined
+  decideBackfillRequest(
+    id: number,
+    decision: { status: BackfillStatus; decidedBy: number; note?: string }
+  ): Promise<BackfillRequest | undefined>;
+  // Claims a store's years on a backfill for one pull and returns the years it got: those no
+  // pull has claimed yet, plus any the same pull job claimed before a restart
+  claimBackfillYears(backfillId: number, storeId: number, years: number[], pullJobId?: number): Promise<number[]>;
+  // Drops the claims after their pull failed, so the backfill pays for another try
+  releaseBackfillYears(backfillId: number, storeId: number, years: number[]): Promise<void>;
+
+  recordStortrackCall(call: InsertStortrackCall): Promise<StortrackCall>;
+  // Calls made in [from, to), oldest first
+  listStortrackCalls(from: Date, to: Date): Promise<StortrackCall[]>;
+
+  createPullJob(job: InsertPullJob): Promise<PullJob>;
+  getPullJob(id: number): Promise<PullJob | undefined>;
+  // The latest job created for a backfill
+  getPullJobForBackfill(backfillId: number): Promise<PullJob | undefined>;
+  // Oldest first, so a restarted server resumes jobs in the order they were queued
+  listPullJobs(statuses: PullJobStatus[]): Promise<PullJob[]>;
+  updatePullJob(
+    id: number,
+    update: Partial<Pick<PullJob, "status" | "stores" | "startedAt" | "finishedAt">>
+  ): Promise<PullJob | undefined>;
+
+  // Links whose store ID or master ID is among those given
+  listSalesforceStoreLinks(storeIds: number[], masterIds: number[]): Promise<SalesforceStoreLink[]>;
+  // Keyed by store ID; re-verifying a store replaces its link and stamps the new verifier
+  upsertSalesforceStoreLink(link: InsertSalesforceStoreLink): Promise<SalesforceStoreLink>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
+  private sessions: Map<string, Session>;
+  private analyses: Map<number, Analysis>;
+  private rateCache: Map<string, RateCacheEntry>;
+  private featureCodeMappings: Map<string, FeatureCodeMapping>;
+  private auditEntries: AuditEntry[];
+  private backfillRequests: Map<number, BackfillRequest>;
+  private backfillPulls: Map<string, BackfillPull>;
+  private stortrackCalls: StortrackCall[];
+  private pullJobs: Map<number, PullJob>;
+  private salesforceStoreLinks: Map<number, SalesforceStoreLink>;
   private currentId: number;
+  private currentAnalysisId: number;
+  private currentRateCacheId: number;
+  private currentMappingId: number;
+  private currentAuditId: number;
+  private currentBackfillId: number;
+  private currentBackfillPullId: number;
+  private currentCallId: number;
+  private currentPullJobId: number;
+  private currentLinkId: number;
 
   constructor() {
     this.users = new Map();
+    this.sessions = new Map();
+    this.analyses = new Map();
+    this.rateCache = new Map();
+    this.featureCodeMappings = new Map();
+    this.auditEntries = [];
+    this.backfillRequests = new Map();
+    this.backfillPulls = new Map();
+    this.stortrackCalls = [];
+    this.pullJobs = new Map();
+    this.salesforceStoreLinks = new Map();
     this.currentId = 1;
+    this.currentAnalysisId = 1;
+    this.currentRateCacheId = 1;
+    this.currentMappingId = 1;
+    this.currentAuditId = 1;
+    this.currentBackfillId = 1;
+    this.currentBackfillPullId = 1;
+    this.currentCallId = 1;
+    this.currentPullJobId = 1;
+    this.currentLinkId = 1;
   }
 
   async getUser(id: number): Promise<User | undefined> {
@@ -31,10 +166,607 @@ export class MemStorage implements IStorage {
       id,
       username: insertUser.username,
       email: insertUser.email,
+      passwordHash: insertUser.passwordHash,
+      role: insertUser.role ?? "analyst",
+      createdAt: new Date(),
     };
     this.users.set(id, user);
     return user;
   }
+
+  async listUsers(): Promise<User[]> {
+    return Array.from(this.users.values()).sort((a, b) => a.username.localeCompare(b.username));
+  }
+
+  async updateUserRole(id: number, role: UserRole): Promise<User | undefined> {
+    const existing = this.users.get(id);
+    if (!existing) return undefined;
+    const user: User = { ...existing, role };
+    this.users.set(id, user);
+    return user;
+  }
+
+  async createSession(insertSession: InsertSession): Promise<Session> {
+    const session: Session = {
+      id: insertSession.id,
+      userId: insertSession.userId,
+      expiresAt: insertSession.expiresAt,
+      createdAt: insertSession.createdAt ?? new Date(),
+    };
+    this.sessions.set(session.id, session);
+    return session;
+  }
+
+  async getSession(id: string): Promise<Session | undefined> {
+    return this.sessions.get(id);
+  }
+
+  async deleteSession(id: string): Promise<boolean> {
+    return this.sessions.delete(id);
+  }
+
+  async listAnalyses(userId: number): Promise<Analysis[]> {
+    return Array.from(this.analyses.values())
+      .filter((analysis) => analysis.userId === userId)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  async getAnalysis(id: number, userId: number): Promise<Analysis | undefined> {
+    const analysis = this.analyses.get(id);
+    return analysis?.userId === userId ? analysis : undefined;
+  }
+
+  async createAnalysis(userId: number, insertAnalysis: InsertAnalysis): Promise<Analysis> {
+    const id = this.currentAnalysisId++;
+    const now = new Date();
+    const analysis: Analysis = {
+      id,
+      userId,
+      name: insertAnalysis.name,
+      subjectStoreName: insertAnalysis.subjectStoreName ?? null,
+      currentStep: insertAnalysis.currentStep ?? 1,
+      state: insertAnalysis.state,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.analyses.set(id, analysis);
+    return analysis;
+  }
+
+  async updateAnalysis(id: number, userId: number, update: UpdateAnalysis): Promise<Analysis | undefined> {
+    const existing = await this.getAnalysis(id, userId);
+    if (!existing) return undefined;
+
+    const analysis: Analysis = {
+      ...existing,
+      ...update,
+      id,
+      updatedAt: new Date(),
+    };
+    this.analyses.set(id, analysis);
+    return analysis;
+  }
+
+  async deleteAnalysis(id: number, userId: number): Promise<boolean> {
+    if (!(await this.getAnalysis(id, userId))) return false;
+    return this.analyses.delete(id);
+  }
+
+  async getRateCacheEntries(source: string, storeIds: number[], months: string[]): Promise<RateCacheEntry[]> {
+    const entries: RateCacheEntry[] = [];
+    for (const storeId of storeIds) {
+      for (const month of months) {
+        const entry = this.rateCache.get(`${source}|${storeId}|${month}`);
+        if (entry) entries.push(entry);
+      }
+    }
+    return entries;
+  }
+
+  async upsertRateCacheEntries(entries: InsertRateCacheEntry[]): Promise<void> {
+    for (const entry of entries) {
+      const key = `${entry.source}|${entry.storeId}|${entry.month}`;
+      this.rateCache.set(key, {
+        id: this.rateCache.get(key)?.id ?? this.currentRateCacheId++,
+        source: entry.source,
+        storeId: entry.storeId,
+        month: entry.month,
+        rows: entry.rows,
+        fetchedAt: entry.fetchedAt ?? new Date(),
+      });
+    }
+  }
+
+  async invalidateRateCache(storeId: number): Promise<number> {
+    let removed = 0;
+    for (const [key, entry] of this.rateCache) {
+      if (entry.storeId === storeId) {
+        this.rateCache.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  async listFeatureCodeMappings(): Promise<FeatureCodeMapping[]> {
+    return Array.from(this.featureCodeMappings.values()).sort((a, b) => a.tag.localeCompare(b.tag));
+  }
+
+  // Mappings are keyed by tag; promoting an existing tag replaces its code
+  async upsertFeatureCodeMappings(mappings: InsertFeatureCodeMapping[]): Promise<FeatureCodeMapping[]> {
+    const now = new Date();
+    return mappings.map(({ tag, code }) => {
+      const mapping: FeatureCodeMapping = {
+        id: this.featureCodeMappings.get(tag)?.id ?? this.currentMappingId++,
+        tag,
+        code,
+        updatedAt: now,
+      };
+      this.featureCodeMappings.set(tag, mapping);
+      return mapping;
+    });
+  }
+
+  async deleteFeatureCodeMapping(id: number): Promise<boolean> {
+    for (const [tag, mapping] of this.featureCodeMappings) {
+      if (mapping.id === id) return this.featureCodeMappings.delete(tag);
+    }
+    return false;
+  }
+
+  async createAuditEntry(entry: InsertAuditEntry): Promise<AuditEntry> {
+    const auditEntry: AuditEntry = {
+      id: this.currentAuditId++,
+      userId: entry.userId,
+      action: entry.action,
+      details: entry.details ?? {},
+      createdAt: entry.createdAt ?? new Date(),
+    };
+    this.auditEntries.push(auditEntry);
+    return auditEntry;
+  }
+
+  async listAuditEntries(userId: number, limit: number): Promise<AuditEntry[]> {
+    return this.auditEntries
+      .filter((entry) => entry.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id)
+      .slice(0, limit);
+  }
+
+  async createBackfillRequest(request: InsertBackfillRequest): Promise<BackfillRequest> {
+    const backfill: BackfillRequest = {
+      id: this.currentBackfillId++,
+      requestedBy: request.requestedBy,
+      analysisName: request.analysisName ?? null,
+      stores: request.stores,
+      estimatedCost: request.estimatedCost,
+      status: request.status ?? "pending",
+      decidedBy: request.decidedBy ?? null,
+      decidedAt: request.decidedAt ?? null,
+      note: request.note ?? null,
+      createdAt: new Date(),
+    };
+    this.backfillRequests.set(backfill.id, backfill);
+    return backfill;
+  }
+
+  async getBackfillRequest(id: number): Promise<BackfillRequest | undefined> {
+    return this.backfillRequests.get(id);
+  }
+
+  async listBackfillRequests(filter: { status?: BackfillStatus; requestedBy?: number }): Promise<BackfillRequest[]> {
+    return Array.from(this.backfillRequests.values())
+      .filter((request) => !filter.status || request.status === filter.status)
+      .filter((request) => filter.requestedBy === undefined || request.requestedBy === filter.requestedBy)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+
+  async decideBackfillRequest(
+    id: number,
+    decision: { status: BackfillStatus; decidedBy: number; note?: string }
+  ): Promise<BackfillRequest | undefined> {
+    const existing = this.backfillRequests.get(id);
+    if (!existing || existing.status !== "pending") return undefined;
+    const backfill: BackfillRequest = {
+      ...existing,
+      status: decision.status,
+      decidedBy: decision.decidedBy,
+      decidedAt: new Date(),
+      note: decision.note ?? null,
+    };
+    this.backfillRequests.set(id, backfill);
+    return backfill;
+  }
+
+  async claimBackfillYears(backfillId: number, storeId: number, years: number[], pullJobId?: number): Promise<number[]> {
+    return years.filter((year) => {
+      const key = `${backfillId}|${storeId}|${year}`;
+      const existing = this.backfillPulls.get(key);
+      if (existing) return pullJobId !== undefined && existing.pullJobId === pullJobId;
+      this.backfillPulls.set(key, {
+        id: this.currentBackfillPullId++,
+        backfillId,
+        storeId,
+        year,
+        pullJobId: pullJobId ?? null,
+        createdAt: new Date(),
+      });
+      return true;
+    });
+  }
+
+  async releaseBackfillYears(backfillId: number, storeId: number, years: number[]): Promise<void> {
+    for (const year of years) this.backfillPulls.delete(`${backfillId}|${storeId}|${year}`);
+  }
+
+  async recordStortrackCall(call: InsertStortrackCall): Promise<StortrackCall> {
+    const recorded: StortrackCall = {
+      id: this.currentCallId++,
+      userId: call.userId,
+      action: call.action,
+      storeIds: call.storeIds ?? [],
+      years: call.years ?? [],
+      market: call.market ?? null,
+      estimatedCost: call.estimatedCost,
+      createdAt: call.createdAt ?? new Date(),
+    };
+    this.stortrackCalls.push(recorded);
+    return recorded;
+  }
+
+  async listStortrackCalls(from: Date, to: Date): Promise<StortrackCall[]> {
+    return this.stortrackCalls.filter((call) => call.createdAt >= from && call.createdAt < to);
+  }
+
+  async createPullJob(job: InsertPullJob): Promise<PullJob> {
+    const created: PullJob = {
+      id: this.currentPullJobId++,
+      userId: job.userId,
+      backfillId: job.backfillId,
+      status: job.status ?? "queued",
+      stores: job.stores,
+      createdAt: new Date(),
+      startedAt: job.startedAt ?? null,
+      finishedAt: job.finishedAt ?? null,
+    };
+    this.pullJobs.set(created.id, created);
+    return created;
+  }
+
+  async getPullJob(id: number): Promise<PullJob | undefined> {
+    return this.pullJobs.get(id);
+  }
+
+  async getPullJobForBackfill(backfillId: number): Promise<PullJob | undefined> {
+    return Array.from(this.pullJobs.values())
+      .filter((job) => job.backfillId === backfillId)
+      .sort((a, b) => b.id - a.id)[0];
+  }
+
+  async listPullJobs(statuses: PullJobStatus[]): Promise<PullJob[]> {
+    return Array.from(this.pullJobs.values())
+      .filter((job) => statuses.includes(job.status))
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async updatePullJob(
+    id: number,
+    update: Partial<Pick<PullJob, "status" | "stores" | "startedAt" | "finishedAt">>
+  ): Promise<PullJob | undefined> {
+    const existing = this.pullJobs.get(id);
+    if (!existing) return undefined;
+    const job: PullJob = { ...existing, ...update };
+    this.pullJobs.set(id, job);
+    return job;
+  }
+
+  async listSalesforceStoreLinks(storeIds: number[], masterIds: number[]): Promise<SalesforceStoreLink[]> {
+    return Array.from(this.salesforceStoreLinks.values()).filter((link) =>
+      storeIds.includes(link.storeId) || (link.masterId !== null && masterIds.includes(link.masterId))
+    );
+  }
+
+  async upsertSalesforceStoreLink(link: InsertSalesforceStoreLink): Promise<SalesforceStoreLink> {
+    const saved: SalesforceStoreLink = {
+      id: this.salesforceStoreLinks.get(link.storeId)?.id ?? this.currentLinkId++,
+      storeId: link.storeId,
+      masterId: link.masterId ?? null,
+      salesforceId: link.salesforceId ?? null,
+      salesforceName: link.salesforceName ?? null,
+      yearBuilt: link.yearBuilt ?? null,
+      squareFootage: link.squareFootage ?? null,
+      verifiedBy: link.verifiedBy ?? null,
+      verifiedAt: new Date(),
+    };
+    this.salesforceStoreLinks.set(link.storeId, saved);
+    return saved;
+  }
+}
+
+export class DatabaseStorage implements IStorage {
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async listUsers(): Promise<User[]> {
+    return db.select().from(users).orderBy(users.username);
+  }
+
+  async updateUserRole(id: number, role: UserRole): Promise<User | undefined> {
+    const [user] = await db.update(users).set({ role }).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  async createSession(insertSession: InsertSession): Promise<Session> {
+    const [session] = await db.insert(sessions).values(insertSession).returning();
+    return session;
+  }
+
+  async getSession(id: string): Promise<Session | undefined> {
+    const [session] = await db.select().from(sessions).where(eq(sessions.id, id));
+    return session;
+  }
+
+  async deleteSession(id: string): Promise<boolean> {
+    const deleted = await db.delete(sessions).where(eq(sessions.id, id)).returning({ id: sessions.id });
+    return deleted.length > 0;
+  }
+
+  async listAnalyses(userId: number): Promise<Analysis[]> {
+    return db.select().from(analyses).where(eq(analyses.userId, userId)).orderBy(desc(analyses.updatedAt));
+  }
+
+  async getAnalysis(id: number, userId: number): Promise<Analysis | undefined> {
+    const [analysis] = await db
+      .select()
+      .from(analyses)
+      .where(and(eq(analyses.id, id), eq(analyses.userId, userId)));
+    return analysis;
+  }
+
+  async createAnalysis(userId: number, insertAnalysis: InsertAnalysis): Promise<Analysis> {
+    const [analysis] = await db
+      .insert(analyses)
+      .values({
+        userId,
+        name: insertAnalysis.name,
+        subjectStoreName: insertAnalysis.subjectStoreName ?? null,
+        currentStep: insertAnalysis.currentStep ?? 1,
+        state: insertAnalysis.state,
+      })
+      .returning();
+    return analysis;
+  }
+
+  async updateAnalysis(id: number, userId: number, update: UpdateAnalysis): Promise<Analysis | undefined> {
+    const [analysis] = await db
+      .update(analyses)
+      .set({ ...update, updatedAt: new Date() })
+      .where(and(eq(analyses.id, id), eq(analyses.userId, userId)))
+      .returning();
+    return analysis;
+  }
+
+  async deleteAnalysis(id: number, userId: number): Promise<boolean> {
+    const deleted = await db
+      .delete(analyses)
+      .where(and(eq(analyses.id, id), eq(analyses.userId, userId)))
+      .returning({ id: analyses.id });
+    return deleted.length > 0;
+  }
+
+  async getRateCacheEntries(source: string, storeIds: number[], months: string[]): Promise<RateCacheEntry[]> {
+    if (storeIds.length === 0 || months.length === 0) return [];
+    return db
+      .select()
+      .from(rateCacheEntries)
+      .where(and(
+        eq(rateCacheEntries.source, source),
+        inArray(rateCacheEntries.storeId, storeIds),
+        inArray(rateCacheEntries.month, months),
+      ));
+  }
+
+  async upsertRateCacheEntries(entries: InsertRateCacheEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+    await db
+      .insert(rateCacheEntries)
+      .values(entries)
+      .onConflictDoUpdate({
+        target: [rateCacheEntries.source, rateCacheEntries.storeId, rateCacheEntries.month],
+        set: { rows: sql`excluded.rows`, fetchedAt: sql`excluded.fetched_at` },
+      });
+  }
+
+  async invalidateRateCache(storeId: number): Promise<number> {
+    const deleted = await db
+      .delete(rateCacheEntries)
+      .where(eq(rateCacheEntries.storeId, storeId))
+      .returning({ id: rateCacheEntries.id });
+    return deleted.length;
+  }
+
+  async listFeatureCodeMappings(): Promise<FeatureCodeMapping[]> {
+    return db.select().from(featureCodeMappings).orderBy(featureCodeMappings.tag);
+  }
+
+  async upsertFeatureCodeMappings(mappings: InsertFeatureCodeMapping[]): Promise<FeatureCodeMapping[]> {
+    return db
+      .insert(featureCodeMappings)
+      .values(mappings.map(({ tag, code }) => ({ tag, code })))
+      .onConflictDoUpdate({
+        target: featureCodeMappings.tag,
+        set: { code: sql`excluded.code`, updatedAt: new Date() },
+      })
+      .returning();
+  }
+
+  async deleteFeatureCodeMapping(id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(featureCodeMappings)
+      .where(eq(featureCodeMappings.id, id))
+      .returning({ id: featureCodeMappings.id });
+    return deleted.length > 0;
+  }
+
+  async createAuditEntry(entry: InsertAuditEntry): Promise<AuditEntry> {
+    const [auditEntry] = await db.insert(auditEntries).values(entry).returning();
+    return auditEntry;
+  }
+
+  async listAuditEntries(userId: number, limit: number): Promise<AuditEntry[]> {
+    return db
+      .select()
+      .from(auditEntries)
+      .where(eq(auditEntries.userId, userId))
+      .orderBy(desc(auditEntries.createdAt), desc(auditEntries.id))
+      .limit(limit);
+  }
+
+  async createBackfillRequest(request: InsertBackfillRequest): Promise<BackfillRequest> {
+    const [backfill] = await db.insert(backfillRequests).values(request).returning();
+    return backfill;
+  }
+
+  async getBackfillRequest(id: number): Promise<BackfillRequest | undefined> {
+    const [backfill] = await db.select().from(backfillRequests).where(eq(backfillRequests.id, id));
+    return backfill;
+  }
+
+  async listBackfillRequests(filter: { status?: BackfillStatus; requestedBy?: number }): Promise<BackfillRequest[]> {
+    return db
+      .select()
+      .from(backfillRequests)
+      .where(and(
+        filter.status ? eq(backfillRequests.status, filter.status) : undefined,
+        filter.requestedBy !== undefined ? eq(backfillRequests.requestedBy, filter.requestedBy) : undefined,
+      ))
+      .orderBy(desc(backfillRequests.createdAt), desc(backfillRequests.id));
+  }
+
+  async decideBackfillRequest(
+    id: number,
+    decision: { status: BackfillStatus; decidedBy: number; note?: string }
+  ): Promise<BackfillRequest | undefined> {
+    const [backfill] = await db
+      .update(backfillRequests)
+      .set({ status: decision.status, decidedBy: decision.decidedBy, decidedAt: new Date(), note: decision.note ?? null })
+      .where(and(eq(backfillRequests.id, id), eq(backfillRequests.status, "pending")))
+      .returning();
+    return backfill;
+  }
+
+  async claimBackfillYears(backfillId: number, storeId: number, years: number[], pullJobId?: number): Promise<number[]> {
+    if (years.length === 0) return [];
+    const inserted = await db
+      .insert(backfillPulls)
+      .values(years.map((year) => ({ backfillId, storeId, year, pullJobId: pullJobId ?? null })))
+      .onConflictDoNothing()
+      .returning({ year: backfillPulls.year });
+    if (pullJobId === undefined) return inserted.map((row) => row.year);
+
+    const held = await db
+      .select({ year: backfillPulls.year })
+      .from(backfillPulls)
+      .where(and(
+        eq(backfillPulls.backfillId, backfillId),
+        eq(backfillPulls.storeId, storeId),
+        inArray(backfillPulls.year, years),
+        eq(backfillPulls.pullJobId, pullJobId),
+      ));
+    return held.map((row) => row.year);
+  }
+
+  async releaseBackfillYears(backfillId: number, storeId: number, years: number[]): Promise<void> {
+    if (years.length === 0) return;
+    await db.delete(backfillPulls).where(and(
+      eq(backfillPulls.backfillId, backfillId),
+      eq(backfillPulls.storeId, storeId),
+      inArray(backfillPulls.year, years),
+    ));
+  }
+
+  async recordStortrackCall(call: InsertStortrackCall): Promise<StortrackCall> {
+    const [recorded] = await db.insert(stortrackCalls).values(call).returning();
+    return recorded;
+  }
+
+  async listStortrackCalls(from: Date, to: Date): Promise<StortrackCall[]> {
+    return db
+      .select()
+      .from(stortrackCalls)
+      .where(and(gte(stortrackCalls.createdAt, from), lt(stortrackCalls.createdAt, to)))
+      .orderBy(stortrackCalls.createdAt);
+  }
+
+  async createPullJob(job: InsertPullJob): Promise<PullJob> {
+    const [created] = await db.insert(pullJobs).values(job).returning();
+    return created;
+  }
+
+  async getPullJob(id: number): Promise<PullJob | undefined> {
+    const [job] = await db.select().from(pullJobs).where(eq(pullJobs.id, id));
+    return job;
+  }
+
+  async getPullJobForBackfill(backfillId: number): Promise<PullJob | undefined> {
+    const [job] = await db.select().from(pullJobs).where(eq(pullJobs.backfillId, backfillId)).orderBy(desc(pullJobs.id)).limit(1);
+    return job;
+  }
+
+  async listPullJobs(statuses: PullJobStatus[]): Promise<PullJob[]> {
+    if (statuses.length === 0) return [];
+    return db.select().from(pullJobs).where(inArray(pullJobs.status, statuses)).orderBy(pullJobs.id);
+  }
+
+  async updatePullJob(
+    id: number,
+    update: Partial<Pick<PullJob, "status" | "stores" | "startedAt" | "finishedAt">>
+  ): Promise<PullJob | undefined> {
+    const [job] = await db.update(pullJobs).set(update).where(eq(pullJobs.id, id)).returning();
+    return job;
+  }
+
+  async listSalesforceStoreLinks(storeIds: number[], masterIds: number[]): Promise<SalesforceStoreLink[]> {
+    const matches = [
+      ...(storeIds.length > 0 ? [inArray(salesforceStoreLinks.storeId, storeIds)] : []),
+      ...(masterIds.length > 0 ? [inArray(salesforceStoreLinks.masterId, masterIds)] : []),
+    ];
+    if (matches.length === 0) return [];
+    return db.select().from(salesforceStoreLinks).where(or(...matches));
+  }
+
+  async upsertSalesforceStoreLink(link: InsertSalesforceStoreLink): Promise<SalesforceStoreLink> {
+    // Every field is written, so re-verifying clears whatever the new link leaves out
+    const values = {
+      storeId: link.storeId,
+      masterId: link.masterId ?? null,
+      salesforceId: link.salesforceId ?? null,
+      salesforceName: link.salesforceName ?? null,
+      yearBuilt: link.yearBuilt ?? null,
+      squareFootage: link.squareFootage ?? null,
+      verifiedBy: link.verifiedBy ?? null,
+      verifiedAt: new Date(),
+    };
+    const [saved] = await db
+      .insert(salesforceStoreLinks)
+      .values(values)
+      .onConflictDoUpdate({ target: salesforceStoreLinks.storeId, set: values })
+      .returning();
+    return saved;
+  }
 }
 
-export const storage = new MemStorage();
+// In-memory storage keeps local development working without a database; nothing survives a restart
+export const storage: IStorage = hasDatabase ? new DatabaseStorage() : new MemStorage();
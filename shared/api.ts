@@ -0,0 +1,182 @@
+import { z } from "zod/v4";
+
+// Request and response contracts for the resource routes. The server validates
+// requests and responses against these; the client imports the inferred types.
+// Kept free of drizzle so the browser bundle can import it.
+
+const isoDate = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])-\d{2}$/, "Expected a date as YYYY-MM-DD");
+
+export const storeIdParamSchema = z.coerce.number().int().positive();
+
+export const storeSchema = z.object({
+  storeId: z.number().int(),
+  masterId: z.number().int().optional(),
+  storeName: z.string(),
+  address: z.string(),
+  city: z.string(),
+  state: z.string(),
+  zip: z.string(),
+  latitude: z.number().optional(),
+  longitude: z.number().optional(),
+  distance: z.number(),
+});
+
+export type ApiStore = z.infer<typeof storeSchema>;
+
+// Which provider answers a store search or competitor lookup: the paid StorTrack API
+// (the default) or our own dbo.Stores copy behind the MCP server
+const storeSourceSchema = z.enum(["stortrack", "database"]).optional();
+
+// GET /api/stores/search
+export const storeSearchQuerySchema = z.object({
+  source: storeSourceSchema,
+  country: z.string().trim().default("United States"),
+  state: z.string().trim().default(""),
+  city: z.string().trim().default(""),
+  zip: z.string().trim().default(""),
+  storeName: z.string().trim().default(""),
+  companyName: z.string().trim().default(""),
+}).refine(({ state, city, zip }) => Boolean(state || city || zip), {
+  message: "Provide a state, city or ZIP to search",
+  path: ["state"],
+});
+
+export type StoreSearchQuery = z.input<typeof storeSearchQuerySchema>;
+
+export const storeSearchResponseSchema = z.array(storeSchema);
+
+// GET /api/stores/:id/competitors
+export const competitorsQuerySchema = z.object({
+  source: storeSourceSchema,
+  radius: z.coerce.number().positive().max(50).default(5),
+});
+
+export type CompetitorsQuery = z.infer<typeof competitorsQuerySchema>;
+
+// Store IDs (the subject's included) that look like one facility, and what gave them away
+export const duplicateStoreGroupSchema = z.object({
+  storeIds: z.array(z.number().int()).min(2),
+  reasons: z.array(z.enum(["masterId", "address", "coordinates"])),
+});
+
+export type DuplicateStoreGroup = z.infer<typeof duplicateStoreGroupSchema>;
+export type DuplicateReason = DuplicateStoreGroup["reasons"][number];
+
+export const competitorsResponseSchema = z.object({
+  subject: storeSchema,
+  competitors: z.array(storeSchema),
+  duplicates: z.array(duplicateStoreGroupSchema),
+});
+
+export type CompetitorsResponse = z.infer<typeof competitorsResponseSchema>;
+
+// GET /api/stores/:id/rates — pulls must fall inside an approved backfill the caller requested
+export const storeRatesQuerySchema = z.object({
+  from: isoDate,
+  to: isoDate,
+  backfillId: z.coerce.number().int().positive(),
+}).refine(({ from, to }) => from <= to, { message: "from must not be after to", path: ["from"] });
+
+export type StoreRatesQuery = z.infer<typeof storeRatesQuerySchema>;
+
+// One rate observation before the client normalizes its unit size; source says
+// whether it came from the paid StorTrack API or our own rates database
+export const rateRecordSchema = z.object({
+  storeId: z.number().int(),
+  storeName: z.string(),
+  address: z.string(),
+  city: z.string(),
+  state: z.string(),
+  zip: z.string(),
+  unitType: z.string(),
+  size: z.string(),
+  width: z.number().optional(),
+  length: z.number().optional(),
+  height: z.number().optional(),
+  features: z.string(),
+  tag: z.string(),
+  climateControlled: z.boolean(),
+  humidityControlled: z.boolean(),
+  driveUp: z.boolean(),
+  elevator: z.boolean(),
+  outdoorAccess: z.boolean(),
+  walkInPrice: z.number().optional(),
+  onlinePrice: z.number().optional(),
+  date: z.string(),
+  promo: z.string(),
+  source: z.enum(["API", "Database"]),
+});
+
+export type ApiRateRecord = z.infer<typeof rateRecordSchema>;
+
+export const rateCacheReportSchema = z.object({
+  source: z.enum(["stortrack", "database"]),
+  hits: z.number().int(),
+  misses: z.number().int(),
+});
+
+export const storeRatesResponseSchema = z.object({
+  records: z.array(rateRecordSchema),
+  cache: rateCacheReportSchema,
+});
+
+export type StoreRatesResponse = z.infer<typeof storeRatesResponseSchema>;
+
+// GET /api/salesforce/matches
+export const salesforceMatchesQuerySchema = z.object({
+  street: z.string().trim().default(""),
+  city: z.string().trim().default(""),
+  state: z.string().trim().default(""),
+  postalCode: z.string().trim().default(""),
+  storeName: z.string().trim().default(""),
+  // The store's own coordinates, when known, let distance break ties between records
+  latitude: z.coerce.number<number | string>().min(-90).max(90).optional(),
+  longitude: z.coerce.number<number | string>().min(-180).max(180).optional(),
+});
+
+export type SalesforceMatchesQuery = z.input<typeof salesforceMatchesQuerySchema>;
+
+export const salesforceMatchSchema = z.object({
+  Id: z.string().nullable(),
+  Name: z.string(),
+  Year_Built__c: z.union([z.string(), z.number()]).nullable(),
+  Net_RSF__c: z.union([z.string(), z.number()]).nullable(),
+  ShippingAddress: z.string().nullable(),
+  nameScore: z.number(),
+  addressScore: z.number(),
+  // null when the store or the record has no city / ZIP / state to compare
+  cityScore: z.number().nullable(),
+  zipScore: z.number().nullable(),
+  stateMatch: z.boolean().nullable(),
+  // null unless both the store and the record have coordinates
+  distanceMiles: z.number().nullable(),
+  distanceScore: z.number().nullable(),
+  // Multiplier applied to the name and street score for city and ZIP mismatches
+  locationFactor: z.number(),
+  combinedScore: z.number(),
+  parsedStoreName: z.string(),
+  parsedAddress: z.string(),
+  parsedCity: z.string(),
+  parsedState: z.string(),
+  parsedPostalCode: z.string(),
+});
+
+export type ApiSalesforceMatch = z.infer<typeof salesforceMatchSchema>;
+
+export const salesforceMatchesResponseSchema = z.array(salesforceMatchSchema);
+
+// POST /api/salesforce/matches/batch — every selected store against one loaded index
+export const MAX_SALESFORCE_BATCH = 200;
+
+export const salesforceBatchMatchRequestSchema = z.object({
+  stores: z.array(salesforceMatchesQuerySchema.extend({ storeId: z.number().int() })).min(1).max(MAX_SALESFORCE_BATCH),
+});
+
+export type SalesforceBatchMatchRequest = z.input<typeof salesforceBatchMatchRequestSchema>;
+
+export const salesforceBatchMatchResponseSchema = z.array(z.object({
+  storeId: z.number().int(),
+  matches: z.array(salesforceMatchSchema),
+}));
+
+export type SalesforceBatchMatchResponse = z.infer<typeof salesforceBatchMatchResponseSchema>;
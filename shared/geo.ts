@@ -0,0 +1,20 @@
+// Distance math shared by the client's competitor map and the server's distance checks
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export const EARTH_RADIUS_MILES = 3958.8;
+
+export const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle distance in miles
+export function haversineMiles(a: Coordinates, b: Coordinates): number {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.min(1, Math.sqrt(h)));
+}
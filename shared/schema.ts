@@ -1,17 +1,299 @@
-import { pgTable, text, serial } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, jsonb, timestamp, uniqueIndex, index, doublePrecision } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
-import { z } from "zod";
+import { z } from "zod/v4";
+
+// Ordered least to most privileged; each role can do everything the ones before it can
+export const USER_ROLES = ["viewer", "analyst", "approver", "admin"] as const;
+export type UserRole = (typeof USER_ROLES)[number];
+
+export function hasRole(role: UserRole, minimum: UserRole): boolean {
+  return USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(minimum);
+}
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   email: text("email").notNull(),
+  // scrypt "salt:hash" in hex; see server/auth.ts
+  passwordHash: text("password_hash").notNull(),
+  role: text("role").$type<UserRole>().notNull().default("analyst"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
 export const insertUserSchema = createInsertSchema(users, {
   username: z.string().min(1),
   email: z.string().email(),
-}).omit({ id: true });
+  passwordHash: z.string().min(1),
+}).omit({ id: true, createdAt: true });
+
+// What the API accepts when adding a user; the password is hashed before storage
+export const createUserSchema = z.object({
+  username: z.string().trim().min(1),
+  email: z.string().email(),
+  password: z.string().min(8),
+  role: z.enum(USER_ROLES).default("analyst"),
+});
+
+export const updateUserRoleSchema = z.object({
+  role: z.enum(USER_ROLES),
+});
+
+export const loginSchema = z.object({
+  username: z.string().trim().min(1),
+  password: z.string().min(1),
+});
 
-export type InsertUser = z.infer<typeof insertUserSchema>;
+export type InsertUser = Omit<typeof users.$inferInsert, "id" | "createdAt">;
 export type User = typeof users.$inferSelect;
+export type PublicUser = Omit<User, "passwordHash">;
+
+// Login sessions. `id` is the SHA-256 of the cookie token so a leaked table can't be replayed.
+export const sessions = pgTable("sessions", {
+  id: text("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type Session = typeof sessions.$inferSelect;
+export type InsertSession = typeof sessions.$inferInsert;
+
+// Saved RCA wizard sessions. `state` holds the serialized wizard snapshot
+// (subject store, competitors, metadata, rankings, adjustments, names, codes).
+export const analyses = pgTable("analyses", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  subjectStoreName: text("subject_store_name"),
+  currentStep: integer("current_step").notNull().default(1),
+  state: jsonb("state").$type<Record<string, unknown>>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertAnalysisSchema = createInsertSchema(analyses, {
+  name: z.string().min(1),
+  state: z.record(z.string(), z.unknown()),
+}).omit({ id: true, userId: true, createdAt: true, updatedAt: true });
+
+export const updateAnalysisSchema = insertAnalysisSchema.partial();
+
+export type InsertAnalysis = z.infer<typeof insertAnalysisSchema>;
+export type UpdateAnalysis = z.infer<typeof updateAnalysisSchema>;
+export type Analysis = typeof analyses.$inferSelect;
+
+// Monthly slices of rate history cached per store and source ('stortrack' API
+// or 'database' dbo.Rates). Completed months never change; see server/rateCache.ts.
+export const rateCacheEntries = pgTable("rate_cache_entries", {
+  id: serial("id").primaryKey(),
+  source: text("source").notNull(),
+  storeId: integer("store_id").notNull(),
+  month: text("month").notNull(),
+  rows: jsonb("rows").$type<unknown[]>().notNull(),
+  fetchedAt: timestamp("fetched_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("rate_cache_entries_key").on(table.source, table.storeId, table.month),
+]);
+
+export type RateCacheEntry = typeof rateCacheEntries.$inferSelect;
+export type InsertRateCacheEntry = typeof rateCacheEntries.$inferInsert;
+
+// Shared StorTrack tag -> feature code library, pre-filled into every analysis's Feature Codes step
+export const featureCodeMappings = pgTable("feature_code_mappings", {
+  id: serial("id").primaryKey(),
+  tag: text("tag").notNull().unique(),
+  code: text("code").notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertFeatureCodeMappingSchema = createInsertSchema(featureCodeMappings, {
+  tag: z.string().trim().min(1),
+  code: z.string().trim().min(1).max(10).toUpperCase(),
+}).omit({ id: true, updatedAt: true });
+
+export const upsertFeatureCodeMappingsSchema = z.object({
+  mappings: z.array(insertFeatureCodeMappingSchema).min(1),
+});
+
+export type InsertFeatureCodeMapping = z.infer<typeof insertFeatureCodeMappingSchema>;
+export type FeatureCodeMapping = typeof featureCodeMappings.$inferSelect;
+
+// Who did what: StorTrack calls, saved analyses and library edits, scoped to the acting user
+export const auditEntries = pgTable("audit_entries", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  action: text("action").notNull(),
+  details: jsonb("details").$type<Record<string, unknown>>().notNull().default({}),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("audit_entries_user_created").on(table.userId, table.createdAt),
+]);
+
+export type AuditEntry = typeof auditEntries.$inferSelect;
+export type InsertAuditEntry = typeof auditEntries.$inferInsert;
+
+// A batch of StorTrack historical pulls, priced per store-year. Pulls above the
+// approval threshold wait for an approver; see server/backfills.ts.
+export const BACKFILL_STATUSES = ["pending", "approved", "rejected"] as const;
+export type BackfillStatus = (typeof BACKFILL_STATUSES)[number];
+
+export const backfillStoreSchema = z.object({
+  storeId: z.number().int().positive(),
+  storeName: z.string().optional(),
+  years: z.array(z.number().int().min(2000).max(2100)).min(1),
+});
+
+export type BackfillStore = z.infer<typeof backfillStoreSchema>;
+
+export const backfillRequests = pgTable("backfill_requests", {
+  id: serial("id").primaryKey(),
+  requestedBy: integer("requested_by").notNull().references(() => users.id, { onDelete: "cascade" }),
+  analysisName: text("analysis_name"),
+  stores: jsonb("stores").$type<BackfillStore[]>().notNull(),
+  estimatedCost: doublePrecision("estimated_cost").notNull(),
+  status: text("status").$type<BackfillStatus>().notNull().default("pending"),
+  decidedBy: integer("decided_by").references(() => users.id, { onDelete: "set null" }),
+  decidedAt: timestamp("decided_at"),
+  note: text("note"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const createBackfillRequestSchema = z.object({
+  analysisName: z.string().trim().optional(),
+  stores: z.array(backfillStoreSchema).min(1),
+});
+
+export const decideBackfillRequestSchema = z.object({
+  status: z.enum(["approved", "rejected"]),
+  note: z.string().trim().optional(),
+});
+
+export type BackfillRequest = typeof backfillRequests.$inferSelect;
+export type InsertBackfillRequest = typeof backfillRequests.$inferInsert;
+
+// One row per store-year an approved backfill has paid for. A historical pull claims its
+// store-years before reaching StorTrack and a failed pull drops its claims, so the
+// approval covers each store-year once; see server/backfills.ts.
+export const backfillPulls = pgTable("backfill_pulls", {
+  id: serial("id").primaryKey(),
+  backfillId: integer("backfill_id").notNull().references(() => backfillRequests.id, { onDelete: "cascade" }),
+  storeId: integer("store_id").notNull(),
+  year: integer("year").notNull(),
+  // The pull job holding the claim, so it keeps the claim when a restart runs the store again
+  pullJobId: integer("pull_job_id").references(() => pullJobs.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("backfill_pulls_key").on(table.backfillId, table.storeId, table.year),
+]);
+
+export type BackfillPull = typeof backfillPulls.$inferSelect;
+
+// One row per StorTrack API call actually made (cache hits cost nothing and aren't recorded).
+// `market` is "City, ST" where the call or its response identifies one; see server/spend.ts.
+export const stortrackCalls = pgTable("stortrack_calls", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  action: text("action").notNull(),
+  storeIds: jsonb("store_ids").$type<number[]>().notNull().default([]),
+  years: jsonb("years").$type<number[]>().notNull().default([]),
+  market: text("market"),
+  estimatedCost: doublePrecision("estimated_cost").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("stortrack_calls_created").on(table.createdAt),
+]);
+
+export type StortrackCall = typeof stortrackCalls.$inferSelect;
+export type InsertStortrackCall = typeof stortrackCalls.$inferInsert;
+
+const monthSchema = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Expected a month as YYYY-MM");
+
+// Both bounds inclusive; the route fills in defaults when either is missing
+export const spendReportQuerySchema = z.object({
+  from: monthSchema.optional(),
+  to: monthSchema.optional(),
+}).refine(({ from, to }) => !from || !to || from <= to, { message: "from must not be after to", path: ["from"] });
+
+// A queued batch of historical pulls for an approved backfill, worked through in
+// the background so no HTTP request waits on StorTrack; see server/pullJobs.ts.
+export const PULL_JOB_STATUSES = ["queued", "running", "completed", "failed"] as const;
+export type PullJobStatus = (typeof PULL_JOB_STATUSES)[number];
+
+const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date as YYYY-MM-DD");
+
+export const pullJobStoreSchema = z.object({
+  storeId: z.number().int().positive(),
+  storeName: z.string().optional(),
+  ranges: z.array(z.object({ from: isoDateSchema, to: isoDateSchema })).min(1),
+});
+
+export type PullJobStore = z.infer<typeof pullJobStoreSchema> & {
+  status: PullJobStatus;
+  records: number;
+  error?: string;
+};
+
+export const pullJobs = pgTable("pull_jobs", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  backfillId: integer("backfill_id").notNull().references(() => backfillRequests.id, { onDelete: "cascade" }),
+  status: text("status").$type<PullJobStatus>().notNull().default("queued"),
+  stores: jsonb("stores").$type<PullJobStore[]>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at"),
+}, (table) => [
+  index("pull_jobs_status").on(table.status),
+]);
+
+export const createPullJobSchema = z.object({
+  backfillId: z.number().int().positive(),
+  stores: z.array(pullJobStoreSchema).min(1)
+    .refine((stores) => new Set(stores.map((s) => s.storeId)).size === stores.length, "Each store may appear only once"),
+});
+
+export type PullJob = typeof pullJobs.$inferSelect;
+export type InsertPullJob = typeof pullJobs.$inferInsert;
+
+// An analyst's confirmed Salesforce_rawData record for a StorTrack store, so later
+// analyses skip fuzzy matching. A link without a Salesforce record means the analyst
+// found none and typed the figures in.
+export const salesforceStoreLinks = pgTable("salesforce_store_links", {
+  id: serial("id").primaryKey(),
+  storeId: integer("store_id").notNull().unique(),
+  // StorTrack's facility ID; lets a link follow the facility when it's listed under another store ID
+  masterId: integer("master_id"),
+  salesforceId: text("salesforce_id"),
+  salesforceName: text("salesforce_name"),
+  // The figures the analyst confirmed, whether taken from the record or entered by hand
+  yearBuilt: integer("year_built"),
+  squareFootage: doublePrecision("square_footage"),
+  verifiedBy: integer("verified_by").references(() => users.id, { onDelete: "set null" }),
+  verifiedAt: timestamp("verified_at").notNull().defaultNow(),
+}, (table) => [
+  index("salesforce_store_links_master").on(table.masterId),
+]);
+
+const storeIdListSchema = z.string().trim().default("")
+  .transform((value) => value ? value.split(",").map(Number) : [])
+  .pipe(z.array(z.number().int().positive()).max(200));
+
+// Comma-separated IDs; a store matches a link on either
+export const salesforceStoreLinksQuerySchema = z.object({
+  storeIds: storeIdListSchema,
+  masterIds: storeIdListSchema,
+}).refine(({ storeIds, masterIds }) => storeIds.length + masterIds.length > 0, {
+  message: "Provide storeIds or masterIds",
+  path: ["storeIds"],
+});
+
+export const upsertSalesforceStoreLinkSchema = createInsertSchema(salesforceStoreLinks, {
+  masterId: z.number().int().positive().nullable().optional(),
+  salesforceId: z.string().trim().min(1).nullable().optional(),
+  salesforceName: z.string().trim().min(1).nullable().optional(),
+  yearBuilt: z.number().int().min(1900).max(2100).nullable().optional(),
+  squareFootage: z.number().positive().nullable().optional(),
+}).omit({ id: true, storeId: true, verifiedBy: true, verifiedAt: true });
+
+export type SalesforceStoreLink = typeof salesforceStoreLinks.$inferSelect;
+export type InsertSalesforceStoreLink = typeof salesforceStoreLinks.$inferInsert;
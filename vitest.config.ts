@@ -0,0 +1,13 @@
+import { defineConfig, mergeConfig } from "vitest/config";
+import path from "path";
+import viteConfig from "./vite.config";
+
+// The app's Vite config roots at client/; tests live next to the code they cover across the tree
+export default mergeConfig(viteConfig, defineConfig({
+  root: path.resolve(__dirname),
+  test: {
+    include: ["{client/src,server,shared}/**/*.test.ts"],
+    // Server modules under test use the in-memory storage
+    env: { DATABASE_URL: "" },
+  },
+}));